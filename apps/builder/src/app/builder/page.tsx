@@ -1,21 +1,28 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 
-import { ArrowLeft, Eye, Download } from "lucide-react";
+import { ArrowLeft, Eye, Download, FileJson, Languages, Upload } from "lucide-react";
 import { toast } from "sonner";
 import FormBuilder from "@/components/forms/form-builder";
 import FormPreviewModal from "@/components/forms/form-preview-modal";
-import { FormField } from "@jonesstack/react-form-engine";
+import TranslationEditor from "@/components/forms/translation-editor";
+import { FormField, FormRule, FormSchema, FormTranslation, MessageOverrides, fromJsonSchema, getTranslatableTexts, migrateSchema, SCHEMA_VERSION, toJsonSchema } from "@jonesstack/react-form-engine";
 
 export default function FormBuilderPage() {
-    const [form] = useState<{ id: string; name: string }>({ id: "new-form-1", name: "My First FormCarve Form" });
+    const [form, setForm] = useState<{ id: string; name: string }>({ id: "new-form-1", name: "My First FormCarve Form" });
     const [loading, setLoading] = useState(false);
     const [saving, setSaving] = useState(false);
     const [showPreview, setShowPreview] = useState(false);
     const [showEmbed, setShowEmbed] = useState(false);
     const [currentFields, setCurrentFields] = useState<FormField[]>([]);
+    const [rules, setRules] = useState<FormRule[]>([]);
+    const [messages, setMessages] = useState<MessageOverrides>({});
+    const [locale, setLocale] = useState('en');
+    const [translations, setTranslations] = useState<Record<string, FormTranslation>>({});
+    const [showTranslations, setShowTranslations] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         // Example: Add a default submit button if no fields exist initially
@@ -59,11 +66,44 @@ export default function FormBuilderPage() {
         setShowPreview(true);
     };
 
+    const downloadJson = (jsonString: string, fileName: string) => {
+        const blob = new Blob([jsonString], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url); // Release the object URL
+    };
+
+    const getFileSlug = () => form.name.toLowerCase().replace(/\s/g, '-');
+
+    const currentSchema: FormSchema = {
+        schemaVersion: SCHEMA_VERSION,
+        formName: form.name,
+        formFields: currentFields,
+        ...(rules.length > 0 && { rules }),
+        ...(Object.keys(messages).length > 0 && { messages }),
+        ...(locale !== 'en' && { locale }),
+        ...(Object.keys(translations).length > 0 && { translations }),
+    };
+
+    // Leaves out translations of texts that were removed or renamed since
+    const getExportedTranslations = () => {
+        const keys = Object.keys(getTranslatableTexts(currentSchema));
+        return Object.fromEntries(Object.entries(translations).map(([language, texts]) => [
+            language,
+            Object.fromEntries(Object.entries(texts).filter(([key]) => keys.includes(key))),
+        ]));
+    };
+
     // This is the core function for client-side JSON export
     const exportJsonSchema = () => {
         const schema = {
-            formName: form.name,
-            formFields: currentFields,
+            ...currentSchema,
+            ...(currentSchema.translations && { translations: getExportedTranslations() }),
         };
         const jsonString = JSON.stringify(schema, null, 2); // Pretty print JSON
 
@@ -72,18 +112,46 @@ export default function FormBuilderPage() {
         toast.success('JSON schema copied to clipboard!');
 
         // 2. Offer to download as a file
-        const blob = new Blob([jsonString], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${form.name.toLowerCase().replace(/\s/g, '-')}-schema.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url); // Release the object URL
+        downloadJson(jsonString, `${getFileSlug()}-schema.json`);
         toast.success('JSON schema downloaded as file!');
     };
 
+    // Exports a standard JSON Schema of the submitted data, for validating submissions on a server
+    const exportStandardJsonSchema = () => {
+        const jsonSchema = toJsonSchema({ formName: form.name, formFields: currentFields, rules });
+        downloadJson(JSON.stringify(jsonSchema, null, 2), `${getFileSlug()}.schema.json`);
+        toast.success('JSON Schema of the submission downloaded!');
+    };
+
+    // Loads a previously exported schema, upgrading it if it was saved by an older version.
+    // Standard JSON Schemas (e.g. existing API contracts) are converted into fields.
+    const importJsonSchema = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow importing the same file again
+        if (!file) return;
+
+        try {
+            const warnings: string[] = [];
+            const onWarning = (message: string) => warnings.push(message);
+            const json = JSON.parse(await file.text());
+            const schema = json?.formFields !== undefined
+                ? migrateSchema(json, { onWarning })
+                : fromJsonSchema(json, { onWarning });
+
+            setForm(prev => ({ ...prev, name: schema.formName || prev.name }));
+            setCurrentFields([...schema.formFields]);
+            setRules([...(schema.rules || [])]);
+            setMessages({ ...schema.messages });
+            setLocale(schema.locale || 'en');
+            setTranslations({ ...schema.translations });
+            toast.success('JSON schema imported!');
+            warnings.forEach(warning => toast.warning(warning));
+        } catch (error) {
+            console.error('Error importing JSON schema:', error);
+            toast.error(error instanceof Error ? `Failed to import schema: ${error.message}` : 'Failed to import schema');
+        }
+    };
+
     const handleFieldsChange = (fields: FormField[]) => {
         setCurrentFields(fields);
     };
@@ -115,11 +183,33 @@ export default function FormBuilderPage() {
                     </div>
                 </div>
                 <div className="flex items-center gap-2">
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={importJsonSchema}
+                    />
+                    <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import JSON
+                    </Button>
+
+                    <Button variant="outline" onClick={() => setShowTranslations(true)}>
+                        <Languages className="h-4 w-4 mr-2" />
+                        Translations
+                    </Button>
+
                     <Button variant="outline" onClick={handlePreview}>
                         <Eye className="h-4 w-4 mr-2" />
                         Preview
                     </Button>
 
+                    <Button variant="outline" onClick={exportStandardJsonSchema}>
+                        <FileJson className="h-4 w-4 mr-2" />
+                        Export JSON Schema
+                    </Button>
+
                     {/* The main action for MVP: Export JSON */}
                     <Button onClick={exportJsonSchema} disabled={saving}>
                         <Download className="h-4 w-4 mr-2" />
@@ -136,6 +226,10 @@ export default function FormBuilderPage() {
                     initialFields={currentFields}
                     onSave={handleSave} // Calls handleSave (which is now just internal update)
                     onFieldsChange={handleFieldsChange} // Keeps currentFields state updated
+                    rules={rules}
+                    onRulesChange={setRules}
+                    messages={messages}
+                    onMessagesChange={setMessages}
                 />
             </div>
 
@@ -144,7 +238,21 @@ export default function FormBuilderPage() {
                 isOpen={showPreview}
                 onClose={() => setShowPreview(false)}
                 fields={currentFields}
+                rules={rules}
+                messages={messages}
                 formName={form?.name}
+                locale={locale}
+                translations={translations}
+            />
+
+            <TranslationEditor
+                isOpen={showTranslations}
+                onClose={() => setShowTranslations(false)}
+                schema={currentSchema}
+                sourceLocale={locale}
+                onSourceLocaleChange={(nextLocale) => setLocale(nextLocale || 'en')}
+                translations={translations}
+                onChange={setTranslations}
             />
         </div>
     );
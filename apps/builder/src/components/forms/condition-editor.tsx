@@ -0,0 +1,173 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+import { Condition, ConditionGroup, ConditionOperator, ConditionRule, FormField } from "@jonesstack/react-form-engine";
+
+interface ConditionEditorProps {
+    title: string;
+    condition?: Condition;
+    fields: FormField[]; // Fields the rules can refer to
+    onChange: (condition: ConditionGroup | undefined) => void;
+}
+
+const OPERATORS: { id: ConditionOperator; label: string }[] = [
+    { id: 'equals', label: 'equals' },
+    { id: 'not-equals', label: 'does not equal' },
+    { id: 'in', label: 'is one of' },
+    { id: 'greater-than', label: 'is greater than' },
+    { id: 'is-empty', label: 'is empty' },
+];
+
+// The editor works on a single all/any group; a bare rule is wrapped into one
+const toGroup = (condition?: Condition): ConditionGroup => {
+    if (!condition) return { combinator: 'all', rules: [] };
+    if ('combinator' in condition) return condition;
+    return { combinator: 'all', rules: [condition] };
+};
+
+/**
+ * Edits a field condition as a flat list of rules combined with "all" or "any".
+ * Nested groups authored by hand in the JSON schema are kept as they are.
+ */
+export default function ConditionEditor({ title, condition, fields, onChange }: ConditionEditorProps) {
+    const group = toGroup(condition);
+
+    const updateGroup = (updates: Partial<ConditionGroup>) => {
+        const next = { ...group, ...updates };
+        onChange(next.rules.length > 0 ? next : undefined);
+    };
+
+    const updateRule = (index: number, updates: Partial<ConditionRule>) => {
+        const rules = group.rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule);
+        updateGroup({ rules });
+    };
+
+    const addRule = () => {
+        const rule: ConditionRule = { fieldId: fields[0]?.id || '', operator: 'equals', value: '' };
+        updateGroup({ rules: [...group.rules, rule] });
+    };
+
+    const renderValueInput = (rule: ConditionRule, index: number) => {
+        switch (rule.operator) {
+            case 'is-empty':
+                return null;
+            case 'in':
+                return (
+                    <Input
+                        placeholder="Comma separated values"
+                        value={Array.isArray(rule.value) ? rule.value.join(', ') : rule.value ?? ''}
+                        onChange={(e) => updateRule(index, { value: e.target.value.split(',').map(item => item.trim()) })}
+                    />
+                );
+            case 'greater-than':
+                return (
+                    <Input
+                        type="number"
+                        placeholder="Value"
+                        value={rule.value ?? ''}
+                        onChange={(e) => updateRule(index, { value: e.target.value ? parseFloat(e.target.value) : undefined })}
+                    />
+                );
+            default:
+                return (
+                    <Input
+                        placeholder="Value"
+                        value={rule.value ?? ''}
+                        onChange={(e) => updateRule(index, { value: e.target.value })}
+                    />
+                );
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs">{title}</Label>
+                {group.rules.length > 1 && (
+                    <Select
+                        value={group.combinator}
+                        onValueChange={(value) => updateGroup({ combinator: value as ConditionGroup['combinator'] })}
+                    >
+                        <SelectTrigger size="sm">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All rules</SelectItem>
+                            <SelectItem value="any">Any rule</SelectItem>
+                        </SelectContent>
+                    </Select>
+                )}
+            </div>
+
+            {group.rules.map((rule, index) => {
+                if ('combinator' in rule) {
+                    return (
+                        <div key={index} className="p-2 border rounded-md text-xs text-muted-foreground">
+                            Nested rule group (edit in the JSON schema)
+                        </div>
+                    );
+                }
+
+                return (
+                    <div key={index} className="space-y-2 p-2 border rounded-md">
+                        <div className="flex gap-2">
+                            <Select
+                                value={rule.fieldId || undefined}
+                                onValueChange={(value) => updateRule(index, { fieldId: value })}
+                            >
+                                <SelectTrigger size="sm" className="flex-1 min-w-0">
+                                    <SelectValue placeholder="Select a field" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {fields.map(field => (
+                                        <SelectItem key={field.id} value={field.id}>
+                                            {field.label || field.id}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => updateGroup({ rules: group.rules.filter((_, i) => i !== index) })}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <Select
+                            value={rule.operator}
+                            onValueChange={(value) => updateRule(index, { operator: value as ConditionOperator, value: value === 'in' ? [] : '' })}
+                        >
+                            <SelectTrigger size="sm" className="w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {OPERATORS.map(operator => (
+                                    <SelectItem key={operator.id} value={operator.id}>
+                                        {operator.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {renderValueInput(rule, index)}
+                    </div>
+                );
+            })}
+
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={addRule}
+                disabled={fields.length === 0}
+            >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Rule
+            </Button>
+        </div>
+    );
+}
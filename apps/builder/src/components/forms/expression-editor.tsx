@@ -0,0 +1,76 @@
+"use client";
+
+import { useRef } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+import { checkCalculatedField, formatReference, FormField, getExpressionReferences } from "@jonesstack/react-form-engine";
+
+interface ExpressionEditorProps {
+    field: FormField; // The selected calculated field
+    fields: FormField[]; // Every field of the form, which the expression may refer to
+    onChange: (expression: string) => void;
+}
+
+const FUNCTIONS_HINT = 'round, floor, ceil, abs, sqrt, sum, avg, min, max, number, len, contains, if, today, days, years';
+
+/**
+ * Edits the expression of a calculated field, with a picker inserting field
+ * references, and shows the problems the engine finds in it or the type of its result.
+ */
+export default function ExpressionEditor({ field, fields, onChange }: ExpressionEditorProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const expression = field.expression || '';
+    const references = getExpressionReferences(fields, field);
+    const { type, errors } = checkCalculatedField(field, fields);
+
+    // Inserts the reference where the cursor is, or at the end
+    const insertReference = (name: string) => {
+        const reference = formatReference(name);
+        const textarea = textareaRef.current;
+        const start = textarea?.selectionStart ?? expression.length;
+        const end = textarea?.selectionEnd ?? expression.length;
+        onChange(expression.slice(0, start) + reference + expression.slice(end));
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label>Expression</Label>
+            <Textarea
+                ref={textareaRef}
+                rows={3}
+                className="font-mono text-sm"
+                placeholder="price * quantity"
+                value={expression}
+                onChange={(e) => onChange(e.target.value)}
+            />
+
+            <Select value="" onValueChange={insertReference}>
+                <SelectTrigger size="sm" className="w-full">
+                    <SelectValue placeholder="Insert a field" />
+                </SelectTrigger>
+                <SelectContent>
+                    {references.map(reference => (
+                        <SelectItem key={reference.name} value={reference.name}>
+                            {reference.repeater ? `${reference.repeater.label} › ${reference.field.label} (every item)` : reference.field.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {errors.length > 0 ? (
+                <ul className="space-y-1">
+                    {errors.map(error => (
+                        <li key={error} className="text-xs text-destructive">{error}</li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-xs text-gray-500">Result: {type === 'any' ? 'any value' : type}</p>
+            )}
+            <p className="text-xs text-gray-500">
+                Operators: + - * / % ^, == != &lt; &gt; &lt;= &gt;=, &amp;&amp; || !, test ? a : b. Functions: {FUNCTIONS_HINT}.
+            </p>
+        </div>
+    );
+}
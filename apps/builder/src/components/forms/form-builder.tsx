@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useRef, type PointerEvent as ReactPointerEvent } from "react";
 import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -12,10 +12,19 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import {
-    Plus, GripVertical, Trash2, Type, Mail, MessageSquare, Hash, Calendar, CheckSquare, List, Star, Image, FileText, Phone, Globe, MapPin, CreditCard, Settings, Palette, Smartphone, Monitor
+    Plus, GripVertical, Trash2, Type, Mail, MessageSquare, Hash, Calendar, CheckSquare, List, ListChecks, Star, Image, FileText, Phone, Globe, MapPin, CreditCard, Settings, Palette, Smartphone, Monitor, GitBranch, Link2, SeparatorHorizontal, TextCursorInput, Heading, Pilcrow, Minus, ImageIcon, Group, LayoutGrid, Repeat, Calculator
 } from "lucide-react";
 
-import { FormField } from "@jonesstack/react-form-engine";
+import {
+    checkCalculatedField, checkItemField, Condition, FieldLayout, flattenFields, FormField, FormRule, getFieldOptions, GRID_COLUMNS, isContentBlock, isFieldset, isInputField, isRepeater,
+    LAYOUT_BREAKPOINTS, LayoutBreakpoint, Markdown, MessageOverrides, OTHER_OPTION_LABEL, resolveSpans
+} from "@jonesstack/react-form-engine";
+import ConditionEditor from "@/components/forms/condition-editor";
+import RuleEditor from "@/components/forms/rule-editor";
+import MaskEditor from "@/components/forms/mask-editor";
+import OptionsEditor from "@/components/forms/options-editor";
+import ExpressionEditor from "@/components/forms/expression-editor";
+import MessageEditor from "@/components/forms/message-editor";
 
 
 interface FormBuilderProps {
@@ -23,6 +32,10 @@ interface FormBuilderProps {
     initialFields?: FormField[];
     onSave?: (fields: FormField[]) => void;
     onFieldsChange?: (fields: FormField[]) => void;
+    rules?: FormRule[]; // Cross-field validation rules of the form
+    onRulesChange?: (rules: FormRule[]) => void;
+    messages?: MessageOverrides; // Error messages replacing the built-in ones in every field
+    onMessagesChange?: (messages: MessageOverrides) => void;
 }
 
 const FIELD_TYPES = [
@@ -32,19 +45,206 @@ const FIELD_TYPES = [
     { id: 'number', label: 'Number', icon: Hash, description: 'Numeric input' },
     { id: 'date', label: 'Date', icon: Calendar, description: 'Date picker' },
     { id: 'checkbox', label: 'Checkbox', icon: CheckSquare, description: 'Single checkbox' },
+    { id: 'checkbox-group', label: 'Checkbox Group', icon: ListChecks, description: 'Several checkboxes' },
     { id: 'radio', label: 'Radio Group', icon: List, description: 'Radio button group' },
     { id: 'select', label: 'Dropdown', icon: List, description: 'Select dropdown' },
+    { id: 'multi-select', label: 'Multi-Select', icon: ListChecks, description: 'List allowing several choices' },
     { id: 'rating', label: 'Rating', icon: Star, description: 'Star rating' },
     { id: 'file', label: 'File Upload', icon: Image, description: 'File upload input' },
     { id: 'phone', label: 'Phone', icon: Phone, description: 'Phone number input' },
     { id: 'url', label: 'URL', icon: Globe, description: 'Website URL input' },
     { id: 'address', label: 'Address', icon: MapPin, description: 'Address input' },
     { id: 'credit-card', label: 'Credit Card', icon: CreditCard, description: 'Credit card input' },
+    { id: 'calculated', label: 'Calculated', icon: Calculator, description: 'Value computed from other fields' },
+    { id: 'heading', label: 'Heading', icon: Heading, description: 'Section title' },
+    { id: 'paragraph', label: 'Paragraph', icon: Pilcrow, description: 'Instructions or legal text' },
+    { id: 'divider', label: 'Divider', icon: Minus, description: 'Horizontal line' },
+    { id: 'image', label: 'Image', icon: ImageIcon, description: 'Logo or picture' },
+    { id: 'fieldset', label: 'Field Group', icon: Group, description: 'Fields under a common legend' },
+    { id: 'repeater', label: 'Repeatable Group', icon: Repeat, description: 'Fields filled in once per item' },
+    { id: 'page-break', label: 'Page Break', icon: SeparatorHorizontal, description: 'Split the form into steps' },
     { id: 'submit-button', label: 'Submit Button', icon: Settings, description: 'Customizable submit button' },
 ];
 
-
-export default function FormBuilder({ formId, initialFields = [], onSave, onFieldsChange }: FormBuilderProps) {
+// Field types whose choices are edited in the options editor
+const OPTION_FIELD_TYPES = ['select', 'multi-select', 'radio', 'checkbox-group'];
+const MULTI_CHOICE_TYPES = ['multi-select', 'checkbox-group'];
+// Labels shown on the canvas; loaded options are only known in the running form
+const getPreviewOptions = (field: FormField): string[] =>
+    field.optionsSource ? [`Options from "${field.optionsSource.loader || '…'}"`] : getFieldOptions(field).map(option => option.label);
+
+// Field types rendered as a single text input, which can carry an input mask
+const MASKABLE_TYPES = ['text', 'number', 'phone'];
+
+// Starting content of blocks that only display something; they carry no styling
+const CONTENT_BLOCK_DEFAULTS: Record<string, Pick<FormField, 'label' | 'content'>> = {
+    heading: { label: 'Section Title' },
+    paragraph: { label: 'Paragraph', content: 'Add instructions here. **Bold**, *italic* and [links](https://example.com) are supported.' },
+    divider: { label: 'Divider' },
+    image: { label: 'Image' },
+};
+
+const HEADING_LEVELS = [2, 3, 4, 5, 6];
+
+// What the label of a non-input field is used for
+const LABEL_CAPTIONS: Record<string, string> = {
+    'submit-button': 'Button Text',
+    'page-break': 'Step Title',
+    heading: 'Heading Text',
+    image: 'Alt Text',
+};
+
+// File sizes are edited in megabytes and stored in bytes
+const BYTES_PER_MB = 1024 * 1024;
+
+// ID of the top-level list of fields; lists inside groups use the group's field ID
+const CANVAS_LIST_ID = 'form-fields';
+
+// Field types that only make sense at the top level of the form; groups can't be nested
+const TOP_LEVEL_TYPES = ['page-break', 'submit-button', 'fieldset', 'repeater'];
+
+// Fieldsets and repeaters hold other fields
+const isGroupField = (field: FormField): boolean => isFieldset(field) || isRepeater(field);
+
+// Repeaters can't hold file uploads or fields loading their options (see checkItemField)
+const canHoldField = (group: FormField, field: FormField): boolean => !isRepeater(group) || !checkItemField(field);
+
+// Breakpoint whose width the canvas shows and edits in each preview mode
+const PREVIEW_BREAKPOINTS: Record<'desktop' | 'mobile', LayoutBreakpoint> = { desktop: 'md', mobile: 'base' };
+
+const BREAKPOINT_LABELS: Record<LayoutBreakpoint, string> = { base: 'Mobile', sm: 'Small', md: 'Tablet', lg: 'Desktop' };
+
+// Left margin of the fields of a group on the canvas
+const GROUP_INDENT = '1.5rem';
+
+// Value of the group select for fields at the top level (Radix selects can't use '')
+const NO_GROUP = '__none__';
+
+// Fields are kept as a tree: groups hold their fields in `fields`
+const findInTree = (list: readonly FormField[], fieldId: string): FormField | undefined => {
+    for (const field of list) {
+        if (field.id === fieldId) return field;
+        const found = field.fields && findInTree(field.fields, fieldId);
+        if (found) return found;
+    }
+    return undefined;
+};
+
+const findParentId = (list: readonly FormField[], fieldId: string, parentId = CANVAS_LIST_ID): string | undefined => {
+    for (const field of list) {
+        if (field.id === fieldId) return parentId;
+        const found = field.fields && findParentId(field.fields, fieldId, field.id);
+        if (found) return found;
+    }
+    return undefined;
+};
+
+const updateInTree = (list: readonly FormField[], fieldId: string, updates: Partial<FormField>): FormField[] =>
+    list.map(field => field.id === fieldId
+        ? { ...field, ...updates }
+        : field.fields ? { ...field, fields: updateInTree(field.fields, fieldId, updates) } : field);
+
+const removeFromTree = (list: readonly FormField[], fieldId: string): FormField[] =>
+    list
+        .filter(field => field.id !== fieldId)
+        .map(field => field.fields ? { ...field, fields: removeFromTree(field.fields, fieldId) } : field);
+
+// Drops the rules of a condition that check one of the fields, or returns undefined when none is left
+const withoutConditionFields = (condition: Condition | undefined, fieldIds: string[]): Condition | undefined => {
+    if (!condition) return undefined;
+    if ('combinator' in condition) {
+        const rules = condition.rules.flatMap(rule => withoutConditionFields(rule, fieldIds) || []);
+        return rules.length > 0 ? { ...condition, rules } : undefined;
+    }
+    return fieldIds.includes(condition.fieldId) ? undefined : condition;
+};
+
+// Drops references to removed fields from the conditions and option dependencies of the
+// other fields. Expressions are left as written; the canvas flags the broken ones.
+const withoutReferences = (list: readonly FormField[], fieldIds: string[]): FormField[] =>
+    list.map(field => {
+        const updated = { ...field };
+        if (field.conditions) {
+            const visible = withoutConditionFields(field.conditions.visible, fieldIds);
+            const required = withoutConditionFields(field.conditions.required, fieldIds);
+            updated.conditions = visible || required ? { visible, required } : undefined;
+        }
+        if (field.optionsSource?.dependsOn) {
+            const dependsOn = field.optionsSource.dependsOn.filter(id => !fieldIds.includes(id));
+            updated.optionsSource = { ...field.optionsSource, dependsOn: dependsOn.length > 0 ? dependsOn : undefined };
+        }
+        if (field.fields) updated.fields = withoutReferences(field.fields, fieldIds);
+        return updated;
+    });
+
+const getList = (list: readonly FormField[], listId: string): FormField[] =>
+    listId === CANVAS_LIST_ID ? [...list] : [...(findInTree(list, listId)?.fields || [])];
+
+const setList = (list: readonly FormField[], listId: string, items: FormField[]): FormField[] =>
+    listId === CANVAS_LIST_ID ? items : updateInTree(list, listId, { fields: items });
+
+// Moves a field to the end of a group, or back to the top level above the submit button
+const moveToList = (list: readonly FormField[], fieldId: string, listId: string): FormField[] => {
+    const field = findInTree(list, fieldId);
+    if (!field) return [...list];
+
+    const without = removeFromTree(list, fieldId);
+    const items = getList(without, listId);
+    const submitIndex = items.findIndex(item => item.type === 'submit-button');
+    items.splice(listId === CANVAS_LIST_ID && submitIndex !== -1 ? submitIndex : items.length, 0, field);
+    return setList(without, listId, items);
+};
+
+// The canvas is a single list in which the fields of a group follow the group and
+// end with a marker row, so fields can be dragged into and out of groups
+type CanvasRow =
+    | { kind: 'field'; field: FormField; nested: boolean }
+    | { kind: 'group-end'; group: FormField };
+
+const toCanvasRows = (list: readonly FormField[]): CanvasRow[] =>
+    list.flatMap((field): CanvasRow[] => isGroupField(field)
+        ? [
+            { kind: 'field', field, nested: false },
+            ...(field.fields || []).map((child): CanvasRow => ({ kind: 'field', field: child, nested: true })),
+            { kind: 'group-end', group: field },
+        ]
+        : [{ kind: 'field', field, nested: false }]);
+
+// Rebuilds the fields from reordered rows, or returns null when a field that has to
+// stay at the top level ended up inside a group, or in a group that can't hold it
+const fromCanvasRows = (rows: CanvasRow[]): FormField[] | null => {
+    const list: FormField[] = [];
+    let group: (FormField & { fields: FormField[] }) | null = null;
+
+    for (const row of rows) {
+        if (row.kind === 'group-end') {
+            group = null;
+        } else if (group) {
+            if (TOP_LEVEL_TYPES.includes(row.field.type) || !canHoldField(group, row.field)) return null;
+            group.fields.push(row.field);
+        } else if (isGroupField(row.field)) {
+            group = { ...row.field, fields: [] };
+            list.push(group);
+        } else {
+            list.push(row.field);
+        }
+    }
+    return list;
+};
+
+// Sets the span of one breakpoint, keeping the spans of the others
+const withSpan = (layout: FieldLayout | undefined, breakpoint: LayoutBreakpoint, span: number | undefined): FieldLayout => {
+    const spans = typeof layout?.span === 'number' ? { base: layout.span } : { ...layout?.span };
+    if (span === undefined) {
+        delete spans[breakpoint];
+    } else {
+        spans[breakpoint] = span;
+    }
+    return { ...layout, span: spans };
+};
+
+
+export default function FormBuilder({ formId, initialFields = [], onSave, onFieldsChange, rules = [], onRulesChange, messages = {}, onMessagesChange }: FormBuilderProps) {
     // Add default submit button if no submit button exists
     const getInitialFields = useCallback(() => {
         const hasSubmitButton = initialFields.some(field => field.type === 'submit-button');
@@ -74,6 +274,9 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
     const [showFieldTypes, setShowFieldTypes] = useState(false);
     const [previewMode, setPreviewMode] = useState<'desktop' | 'mobile'>('desktop');
     const isInitialMount = useRef(true);
+    // Every field, including those inside groups, e.g. to pick condition targets
+    const allFields = flattenFields(fields);
+    const groups = fields.filter(isGroupField);
 
     // Update internal fields state when initialFields prop changes
     // This is important if `initialFields` comes from an async source or parent state
@@ -98,7 +301,40 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
 
         let newField: FormField;
 
-        if (type === 'submit-button') {
+        if (type === 'page-break') {
+            // Page breaks only carry the title of the step they start
+            newField = {
+                id: generateFieldId(),
+                type,
+                label: 'Next Step',
+                required: false,
+            };
+        } else if (type in CONTENT_BLOCK_DEFAULTS) {
+            newField = {
+                id: generateFieldId(),
+                type,
+                required: false,
+                ...CONTENT_BLOCK_DEFAULTS[type],
+            };
+        } else if (type === 'fieldset') {
+            newField = {
+                id: generateFieldId(),
+                type,
+                label: 'Group',
+                required: false,
+                fields: [],
+            };
+        } else if (type === 'repeater') {
+            // The placeholder is the text of the add button
+            newField = {
+                id: generateFieldId(),
+                type,
+                label: 'Items',
+                placeholder: 'Add item',
+                required: false,
+                fields: [],
+            };
+        } else if (type === 'submit-button') {
             newField = {
                 id: generateFieldId(),
                 type,
@@ -132,13 +368,25 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
             };
 
             // Add default options for certain field types
-            if (['select', 'radio'].includes(type)) {
+            if (OPTION_FIELD_TYPES.includes(type)) {
                 newField.options = ['Option 1', 'Option 2', 'Option 3'];
             }
+
+            // The placeholder is shown while the value can't be computed yet
+            if (type === 'calculated') {
+                newField.label = 'Calculated Value';
+                newField.placeholder = '';
+                newField.expression = '';
+            }
         }
 
+        // Fields added while a group is selected go into that group, if it can hold them
+        const groupId = selectedField && isGroupField(selectedField) && !TOP_LEVEL_TYPES.includes(type) && canHoldField(selectedField, newField)
+            ? selectedField.id
+            : null;
+
         setFields(prev => {
-            const newFields = [...prev, newField];
+            const newFields = groupId ? setList(prev, groupId, [...getList(prev, groupId), newField]) : [...prev, newField];
             // Use setTimeout to avoid calling onFieldsChange during render
             setTimeout(() => {
                 onFieldsChange?.(newFields);
@@ -147,13 +395,11 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
         });
         setSelectedField(newField); // Select the newly added field
         setShowFieldTypes(false); // Close the add field panel
-    }, [onFieldsChange, fields]);
+    }, [onFieldsChange, fields, selectedField]);
 
     const updateField = useCallback((fieldId: string, updates: Partial<FormField>) => {
         setFields(prev => {
-            const newFields = prev.map(field =>
-                field.id === fieldId ? { ...field, ...updates } : field
-            );
+            const newFields = updateInTree(prev, fieldId, updates);
             // Use setTimeout to avoid calling onFieldsChange during render
             setTimeout(() => {
                 onFieldsChange?.(newFields);
@@ -168,6 +414,10 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
     }, [selectedField, onFieldsChange]);
 
     const removeField = useCallback((fieldId: string) => {
+        // Removing a group removes the fields in it
+        const fieldToRemove = findInTree(fields, fieldId);
+        const removedIds = fieldToRemove ? toCanvasRows([fieldToRemove]).flatMap(row => row.kind === 'field' ? [row.field.id] : []) : [fieldId];
+
         setFields(prev => {
             // Prevent removing the last submit button
             const fieldToRemove = prev.find(field => field.id === fieldId);
@@ -175,32 +425,94 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                 return prev; // Don't remove the last submit button
             }
 
-            const newFields = prev.filter(field => field.id !== fieldId);
+            const newFields = withoutReferences(removeFromTree(prev, fieldId), removedIds);
             // Use setTimeout to avoid calling onFieldsChange during render
             setTimeout(() => {
                 onFieldsChange?.(newFields);
             }, 0);
             return newFields;
         });
-        if (selectedField?.id === fieldId) {
-            setSelectedField(null); // Deselect if the removed field was selected
+        // Deselect if the removed field was selected, or keep the selection in step with the fields
+        setSelectedField(prev => prev && !removedIds.includes(prev.id) ? withoutReferences([prev], removedIds)[0] : null);
+
+        // Drop the removed fields from cross-field rules
+        if (rules.length > 0) {
+            const nextRules = rules
+                .map(rule => rule.type === 'at-least-one'
+                    ? { ...rule, fieldIds: rule.fieldIds.filter(id => !removedIds.includes(id)) }
+                    : rule)
+                .filter(rule => rule.type === 'at-least-one'
+                    ? rule.fieldIds.length > 0
+                    : !removedIds.includes(rule.fieldId) && !removedIds.includes(rule.otherFieldId));
+            onRulesChange?.(nextRules);
         }
-    }, [selectedField, onFieldsChange]);
+    }, [fields, onFieldsChange, rules, onRulesChange]);
 
     const handleDragEnd = useCallback((result: any) => {
         if (!result.destination) return;
 
-        const items = Array.from(fields);
-        const [reorderedItem] = items.splice(result.source.index, 1);
-        items.splice(result.destination.index, 0, reorderedItem);
-
-        setFields(items);
+        // A group moves together with its fields and end marker
+        const rows = toCanvasRows(fields);
+        const from = result.source.index;
+        const moved = rows[from];
+        const blockLength = moved.kind === 'field' && isGroupField(moved.field) ? (moved.field.fields?.length || 0) + 2 : 1;
+        const block = rows.slice(from, from + blockLength);
+
+        // The dragged row lands before the row now at its destination index
+        const target = rows.filter((_, index) => index !== from)[result.destination.index];
+        if (target && block.includes(target)) return;
+        const remaining = rows.filter(row => !block.includes(row));
+        const targetIndex = target ? remaining.indexOf(target) : remaining.length;
+        remaining.splice(targetIndex, 0, ...block);
+
+        const newFields = fromCanvasRows(remaining);
+        if (!newFields) return;
+        setFields(newFields);
         // Use setTimeout to avoid calling onFieldsChange during render
         setTimeout(() => {
-            onFieldsChange?.(items);
+            onFieldsChange?.(newFields);
         }, 0);
     }, [fields, onFieldsChange]);
 
+    const moveField = (fieldId: string, listId: string) => {
+        const newFields = moveToList(fields, fieldId, listId);
+        setFields(newFields);
+        setTimeout(() => {
+            onFieldsChange?.(newFields);
+        }, 0);
+    };
+
+    // Dragging the right edge of a field on the canvas sets its width in grid columns
+    // for the breakpoint of the preview mode
+    const startResize = (event: ReactPointerEvent<HTMLDivElement>, field: FormField) => {
+        event.preventDefault();
+        event.stopPropagation();
+
+        const card = event.currentTarget.parentElement;
+        const list = card?.parentElement;
+        if (!card || !list) return;
+
+        const listStyle = getComputedStyle(list);
+        const listWidth = list.clientWidth - parseFloat(listStyle.paddingLeft) - parseFloat(listStyle.paddingRight);
+        const columnWidth = listWidth / GRID_COLUMNS;
+        const left = card.getBoundingClientRect().left;
+        const breakpoint = PREVIEW_BREAKPOINTS[previewMode];
+        let lastSpan = resolveSpans(field.layout)[breakpoint];
+
+        const handleMove = (moveEvent: PointerEvent) => {
+            const span = Math.min(GRID_COLUMNS, Math.max(1, Math.round((moveEvent.clientX - left) / columnWidth)));
+            if (span === lastSpan) return;
+            lastSpan = span;
+            updateField(field.id, { layout: withSpan(field.layout, breakpoint, span) });
+        };
+        const handleUp = () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+    };
+
     const renderFieldPreview = (field: FormField) => {
         const baseStyle = {
             borderRadius: field.styling?.borderRadius || 6,
@@ -250,8 +562,8 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                                 <SelectValue placeholder={field.placeholder} />
                             </SelectTrigger>
                             <SelectContent>
-                                {field.options?.map((option, index) => (
-                                    <SelectItem key={index} value={option}>
+                                {getPreviewOptions(field).map((option, index) => (
+                                    <SelectItem key={index} value={`${index}`}>
                                         {option}
                                     </SelectItem>
                                 ))}
@@ -272,12 +584,35 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                     </div>
                 );
 
+            case 'checkbox-group':
+            case 'multi-select':
+                return (
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium">{field.label}</Label>
+                        <div
+                            className={field.type === 'multi-select' ? "space-y-2 border rounded-md p-2" : "space-y-2"}
+                            style={field.type === 'multi-select' ? baseStyle : undefined}
+                        >
+                            {[...getPreviewOptions(field), ...(field.allowOther ? [OTHER_OPTION_LABEL] : [])].map((option, index) => (
+                                <div key={index} className="flex items-center space-x-2">
+                                    <input
+                                        type="checkbox"
+                                        disabled
+                                        className="h-4 w-4"
+                                    />
+                                    <Label className="text-sm">{option}</Label>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                );
+
             case 'radio':
                 return (
                     <div className="space-y-2">
                         <Label className="text-sm font-medium">{field.label}</Label>
                         <div className="space-y-2">
-                            {field.options?.map((option, index) => (
+                            {getPreviewOptions(field).map((option, index) => (
                                 <div key={index} className="flex items-center space-x-2">
                                     <input
                                         type="radio"
@@ -292,12 +627,23 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                     </div>
                 );
 
+            case 'calculated':
+                return (
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium">{field.label}</Label>
+                        <div className="flex items-center gap-2 font-mono text-sm text-gray-500" style={baseStyle}>
+                            <Calculator className="h-4 w-4 shrink-0" />
+                            <span className="truncate">{field.expression || 'No expression yet'}</span>
+                        </div>
+                    </div>
+                );
+
             case 'rating':
                 return (
                     <div className="space-y-2">
                         <Label className="text-sm font-medium">{field.label}</Label>
                         <div className="flex space-x-1">
-                            {[1, 2, 3, 4, 5].map((star) => (
+                            {Array.from({ length: field.validation?.max ?? 5 }, (_, index) => index + 1).map((star) => (
                                 <Star key={star} className="h-5 w-5 text-gray-300" />
                             ))}
                         </div>
@@ -313,11 +659,98 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                             style={baseStyle}
                         >
                             <FileText className="h-8 w-8 mx-auto text-gray-400 mb-2" />
-                            <p className="text-sm text-gray-500">Click to upload file</p>
+                            <p className="text-sm text-gray-500">
+                                {field.multiple ? 'Click or drop files to upload' : 'Click or drop a file to upload'}
+                            </p>
+                        </div>
+                    </div>
+                );
+
+            case 'address':
+                return (
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium">{field.label}</Label>
+                        <Input placeholder="Street address" style={baseStyle} disabled />
+                        <div className="grid grid-cols-2 gap-2">
+                            <Input placeholder="City" style={baseStyle} disabled />
+                            <Input placeholder="State / Province" style={baseStyle} disabled />
+                            <Input placeholder="Postal code" style={baseStyle} disabled />
+                            <Input placeholder="Country" style={baseStyle} disabled />
+                        </div>
+                    </div>
+                );
+
+            case 'credit-card':
+                return (
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium">{field.label}</Label>
+                        <Input placeholder="Card number" style={baseStyle} disabled />
+                        <Input placeholder="Name on card" style={baseStyle} disabled />
+                        <div className="grid grid-cols-2 gap-2">
+                            <Input placeholder="MM/YY" style={baseStyle} disabled />
+                            <Input placeholder="CVC" style={baseStyle} disabled />
                         </div>
                     </div>
                 );
 
+            case 'heading':
+                return <h3 className="text-lg font-semibold text-gray-900">{field.label}</h3>;
+
+            case 'paragraph':
+                return (
+                    <Markdown
+                        source={field.content || ''}
+                        className="text-sm text-gray-700 space-y-2 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_a]:text-blue-600 [&_a]:underline"
+                    />
+                );
+
+            case 'divider':
+                return <hr className="border-t border-gray-200" />;
+
+            case 'image':
+                return field.src ? (
+                    <img src={field.src} alt={field.label} className="max-w-full h-auto rounded-md" />
+                ) : (
+                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center">
+                        <ImageIcon className="h-8 w-8 mx-auto text-gray-400 mb-2" />
+                        <p className="text-sm text-gray-500">Set an image URL in the properties</p>
+                    </div>
+                );
+
+            case 'fieldset':
+                return <h3 className="text-base font-semibold text-gray-900">{field.label}</h3>;
+
+            case 'repeater': {
+                const { minItems, maxItems } = field.validation || {};
+                return (
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium">{field.label}</Label>
+                        <p className="text-xs text-gray-500">
+                            The fields below are filled in once per item
+                            {minItems !== undefined && `, at least ${minItems}`}
+                            {maxItems !== undefined && `, at most ${maxItems}`}.
+                        </p>
+                        <Button type="button" variant="outline" size="sm" disabled>
+                            <Plus className="h-4 w-4 mr-1" />
+                            {field.placeholder || 'Add item'}
+                        </Button>
+                    </div>
+                );
+            }
+
+            case 'page-break': {
+                const stepNumber = fields.slice(0, fields.indexOf(field) + 1).filter(f => f.type === 'page-break').length + 1;
+                return (
+                    <div className="flex items-center gap-3">
+                        <div className="flex-1 border-t-2 border-dashed border-gray-300" />
+                        <span className="text-sm font-medium text-gray-600">
+                            Step {stepNumber}: {field.label}
+                        </span>
+                        <div className="flex-1 border-t-2 border-dashed border-gray-300" />
+                    </div>
+                );
+            }
+
             case 'submit-button':
                 return (
                     <div className="space-y-2">
@@ -356,9 +789,94 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
         }
     };
 
+    // Fields of a group are indented below it
+    const renderFieldCard = (field: FormField, index: number, nested: boolean) => (
+        <Draggable key={field.id} draggableId={field.id} index={index}>
+            {(provided, snapshot) => (
+                <div
+                    ref={provided.innerRef}
+                    {...provided.draggableProps}
+                    className={`relative p-4 border rounded-lg cursor-pointer transition-all ${selectedField?.id === field.id
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                        } ${snapshot.isDragging ? 'shadow-lg' : ''}`}
+                    style={{
+                        // The width of the field in the grid at the previewed breakpoint
+                        width: `calc((100% - ${nested ? GROUP_INDENT : '0px'}) * ${resolveSpans(field.layout)[PREVIEW_BREAKPOINTS[previewMode]] / GRID_COLUMNS})`,
+                        marginLeft: nested ? GROUP_INDENT : undefined,
+                        ...provided.draggableProps.style,
+                    }}
+                    onClick={() => setSelectedField(field)}
+                >
+                    <div className="flex items-center justify-between mb-3">
+                        <div className="flex items-center gap-2">
+                            <div {...provided.dragHandleProps}>
+                                <GripVertical className="h-4 w-4 text-gray-400" />
+                            </div>
+                            <Badge variant="outline">{field.type}</Badge>
+                            {field.required && (
+                                <Badge variant="destructive" className="text-xs">Required</Badge>
+                            )}
+                            {(field.conditions?.visible || field.conditions?.required) && (
+                                <Badge variant="secondary" className="text-xs">Conditional</Badge>
+                            )}
+                            {field.type === 'calculated' && checkCalculatedField(field, fields).errors.length > 0 && (
+                                <Badge variant="destructive" className="text-xs">Expression has errors</Badge>
+                            )}
+                        </div>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                                e.stopPropagation(); // Prevent selecting the field when deleting
+                                removeField(field.id);
+                            }}
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    {renderFieldPreview(field)}
+                    {field.type !== 'page-break' && (
+                        <div
+                            className="absolute inset-y-0 -right-1 w-2 cursor-ew-resize rounded hover:bg-blue-300"
+                            title="Drag to resize"
+                            onPointerDown={(e) => startResize(e, field)}
+                            onClick={(e) => e.stopPropagation()}
+                        />
+                    )}
+                </div>
+            )}
+        </Draggable>
+    );
+
+    // Closes the fields of a group; fields dropped above it go into the group
+    const renderGroupEnd = (group: FormField, index: number) => (
+        <Draggable key={`${group.id}:end`} draggableId={`${group.id}:end`} index={index} isDragDisabled>
+            {(provided) => (
+                <div
+                    ref={provided.innerRef}
+                    {...provided.draggableProps}
+                    {...provided.dragHandleProps}
+                    className="px-3 py-2 border-2 border-dashed border-gray-200 rounded-lg bg-gray-50 text-center text-xs text-gray-500"
+                    style={{ marginLeft: GROUP_INDENT, ...provided.draggableProps.style }}
+                >
+                    {group.fields?.length
+                        ? `End of "${group.label}"`
+                        : 'Drag fields here, or select the group and add fields, to place them in it.'}
+                </div>
+            )}
+        </Draggable>
+    );
+
     const renderFieldProperties = () => {
         if (!selectedField) return null;
 
+        // Fields of a repeater item can also refer to the other fields of the same item
+        const parent = findInTree(fields, findParentId(fields, selectedField.id) || '');
+        const repeater = parent && isRepeater(parent) ? parent : undefined;
+        const otherFields = [...allFields, ...flattenFields(repeater?.fields || [])]
+            .filter(field => field.id !== selectedField.id && isInputField(field));
+
         return (
             <Card className="w-80">
                 <CardHeader>
@@ -370,17 +888,17 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                 <CardContent className="space-y-4 max-h-[70vh] overflow-y-auto">
                     {/* Basic Properties */}
                     <div className="space-y-2">
-                        <Label>{selectedField.type === 'submit-button' ? 'Button Text' : 'Label'}</Label>
+                        <Label>{LABEL_CAPTIONS[selectedField.type] || 'Label'}</Label>
                         <Input
                             value={selectedField.label}
                             onChange={(e) => updateField(selectedField.id, { label: e.target.value })}
                         />
                     </div>
 
-                    {selectedField.type !== 'submit-button' && (
+                    {isInputField(selectedField) && (
                         <>
                             <div className="space-y-2">
-                                <Label>Placeholder</Label>
+                                <Label>{isRepeater(selectedField) ? 'Add Button Text' : 'Placeholder'}</Label>
                                 <Input
                                     value={selectedField.placeholder || ''}
                                     onChange={(e) => updateField(selectedField.id, { placeholder: e.target.value })}
@@ -397,52 +915,75 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                         </>
                     )}
 
-                    {/* Options for select/radio fields */}
-                    {['select', 'radio'].includes(selectedField.type) && (
+                    {/* Content of display-only blocks */}
+                    {selectedField.type === 'heading' && (
                         <div className="space-y-2">
-                            <Label>Options</Label>
-                            <div className="space-y-2">
-                                {selectedField.options?.map((option, index) => (
-                                    <div key={index} className="flex gap-2">
-                                        <Input
-                                            value={option}
-                                            onChange={(e) => {
-                                                const newOptions = [...(selectedField.options || [])];
-                                                newOptions[index] = e.target.value;
-                                                updateField(selectedField.id, { options: newOptions });
-                                            }}
-                                        />
-                                        <Button
-                                            variant="outline"
-                                            size="sm"
-                                            onClick={() => {
-                                                const newOptions = selectedField.options?.filter((_, i) => i !== index);
-                                                updateField(selectedField.id, { options: newOptions });
-                                            }}
-                                        >
-                                            <Trash2 className="h-4 w-4" />
-                                        </Button>
-                                    </div>
-                                ))}
-                                <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => {
-                                        const newOptions = [...(selectedField.options || []), `Option ${(selectedField.options?.length || 0) + 1}`];
-                                        updateField(selectedField.id, { options: newOptions });
-                                    }}
-                                >
-                                    <Plus className="h-4 w-4 mr-1" />
-                                    Add Option
-                                </Button>
-                            </div>
+                            <Label>Heading Level</Label>
+                            <Select
+                                value={String(selectedField.level ?? 3)}
+                                onValueChange={(level) => updateField(selectedField.id, { level: parseInt(level) })}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {HEADING_LEVELS.map(level => (
+                                        <SelectItem key={level} value={String(level)}>H{level}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {selectedField.type === 'paragraph' && (
+                        <div className="space-y-2">
+                            <Label>Text</Label>
+                            <Textarea
+                                rows={6}
+                                value={selectedField.content || ''}
+                                onChange={(e) => updateField(selectedField.id, { content: e.target.value })}
+                            />
+                            <p className="text-xs text-gray-500">
+                                Supports **bold**, *italic*, `code`, [links](https://…) and lists starting with - or 1.
+                            </p>
                         </div>
                     )}
 
+                    {selectedField.type === 'image' && (
+                        <div className="space-y-2">
+                            <Label>Image URL</Label>
+                            <Input
+                                placeholder="https://example.com/logo.png"
+                                value={selectedField.src || ''}
+                                onChange={(e) => updateField(selectedField.id, { src: e.target.value || undefined })}
+                            />
+                        </div>
+                    )}
+
+                    {/* Expression of calculated fields */}
+                    {selectedField.type === 'calculated' && (
+                        <ExpressionEditor
+                            field={selectedField}
+                            fields={fields}
+                            onChange={(expression) => updateField(selectedField.id, { expression })}
+                        />
+                    )}
+
+                    {/* Options for choice fields */}
+                    {OPTION_FIELD_TYPES.includes(selectedField.type) && (
+                        <OptionsEditor
+                            key={selectedField.id}
+                            field={selectedField}
+                            fields={otherFields}
+                            canLoadOptions={!repeater}
+                            onChange={(updates) => updateField(selectedField.id, updates)}
+                        />
+                    )}
+
                     <Separator />
 
                     {/* Validation Properties */}
-                    {selectedField.type !== 'submit-button' && (
+                    {isInputField(selectedField) && (
                         <>
                             <div className="space-y-2">
                                 <Label className="flex items-center gap-2">
@@ -486,7 +1027,7 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                             )}
 
                             {/* Min/Max Value for number fields */}
-                            {selectedField.type === 'number' && (
+                            {['number', 'calculated'].includes(selectedField.type) && (
                                 <div className="grid grid-cols-2 gap-2">
                                     <div className="space-y-1">
                                         <Label className="text-xs">Min Value</Label>
@@ -519,6 +1060,168 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                                 </div>
                             )}
 
+                            {/* Min/Max number of choices for multi-choice fields */}
+                            {MULTI_CHOICE_TYPES.includes(selectedField.type) && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Min Selections</Label>
+                                        <Input
+                                            type="number"
+                                            placeholder="Min"
+                                            value={selectedField.validation?.minSelections || ''}
+                                            onChange={(e) => updateField(selectedField.id, {
+                                                validation: {
+                                                    ...selectedField.validation,
+                                                    minSelections: e.target.value ? parseInt(e.target.value) : undefined
+                                                }
+                                            })}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Max Selections</Label>
+                                        <Input
+                                            type="number"
+                                            placeholder="Max"
+                                            value={selectedField.validation?.maxSelections || ''}
+                                            onChange={(e) => updateField(selectedField.id, {
+                                                validation: {
+                                                    ...selectedField.validation,
+                                                    maxSelections: e.target.value ? parseInt(e.target.value) : undefined
+                                                }
+                                            })}
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Min/Max number of items for repeaters */}
+                            {isRepeater(selectedField) && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Min Items</Label>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            placeholder="Min"
+                                            value={selectedField.validation?.minItems ?? ''}
+                                            onChange={(e) => updateField(selectedField.id, {
+                                                validation: {
+                                                    ...selectedField.validation,
+                                                    minItems: e.target.value ? parseInt(e.target.value) : undefined
+                                                }
+                                            })}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Max Items</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            placeholder="Max"
+                                            value={selectedField.validation?.maxItems ?? ''}
+                                            onChange={(e) => updateField(selectedField.id, {
+                                                validation: {
+                                                    ...selectedField.validation,
+                                                    maxItems: e.target.value ? parseInt(e.target.value) : undefined
+                                                }
+                                            })}
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Number of stars and minimum rating for rating fields */}
+                            {selectedField.type === 'rating' && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Min Rating</Label>
+                                        <Input
+                                            type="number"
+                                            placeholder="Min"
+                                            value={selectedField.validation?.min || ''}
+                                            onChange={(e) => updateField(selectedField.id, {
+                                                validation: {
+                                                    ...selectedField.validation,
+                                                    min: e.target.value ? parseInt(e.target.value) : undefined
+                                                }
+                                            })}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Number of Stars</Label>
+                                        <Input
+                                            type="number"
+                                            placeholder="5"
+                                            value={selectedField.validation?.max || ''}
+                                            onChange={(e) => updateField(selectedField.id, {
+                                                validation: {
+                                                    ...selectedField.validation,
+                                                    max: e.target.value ? parseInt(e.target.value) : undefined
+                                                }
+                                            })}
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Accepted types, size and number of files for file fields */}
+                            {selectedField.type === 'file' && (
+                                <>
+                                    <div className="flex items-center space-x-2">
+                                        <Switch
+                                            checked={!!selectedField.multiple}
+                                            onCheckedChange={(checked) => updateField(selectedField.id, { multiple: checked || undefined })}
+                                        />
+                                        <Label className="text-xs">Allow multiple files</Label>
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Accepted Types</Label>
+                                        <Input
+                                            placeholder="e.g., .pdf, image/*"
+                                            value={selectedField.validation?.accept || ''}
+                                            onChange={(e) => updateField(selectedField.id, {
+                                                validation: {
+                                                    ...selectedField.validation,
+                                                    accept: e.target.value || undefined
+                                                }
+                                            })}
+                                        />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <div className="space-y-1">
+                                            <Label className="text-xs">Max Size (MB)</Label>
+                                            <Input
+                                                type="number"
+                                                placeholder="No limit"
+                                                value={selectedField.validation?.maxFileSize ? selectedField.validation.maxFileSize / BYTES_PER_MB : ''}
+                                                onChange={(e) => updateField(selectedField.id, {
+                                                    validation: {
+                                                        ...selectedField.validation,
+                                                        maxFileSize: e.target.value ? Math.round(parseFloat(e.target.value) * BYTES_PER_MB) : undefined
+                                                    }
+                                                })}
+                                            />
+                                        </div>
+                                        {selectedField.multiple && (
+                                            <div className="space-y-1">
+                                                <Label className="text-xs">Max Files</Label>
+                                                <Input
+                                                    type="number"
+                                                    placeholder="No limit"
+                                                    value={selectedField.validation?.maxFiles || ''}
+                                                    onChange={(e) => updateField(selectedField.id, {
+                                                        validation: {
+                                                            ...selectedField.validation,
+                                                            maxFiles: e.target.value ? parseInt(e.target.value) : undefined
+                                                        }
+                                                    })}
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+
                             {/* Pattern validation */}
                             <div className="space-y-2">
                                 <Label className="text-xs">Regex Pattern</Label>
@@ -549,6 +1252,16 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                                 />
                             </div>
 
+                            {/* Messages per check, for this field or the whole form */}
+                            <MessageEditor
+                                field={selectedField}
+                                formMessages={messages}
+                                onChange={(fieldMessages) => updateField(selectedField.id, {
+                                    validation: { ...selectedField.validation, messages: fieldMessages }
+                                })}
+                                onFormMessagesChange={(nextMessages) => onMessagesChange?.(nextMessages)}
+                            />
+
                             {/* Quick validation presets */}
                             <div className="space-y-2">
                                 <Label className="text-xs">Quick Validation</Label>
@@ -603,81 +1316,238 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                         </>
                     )}
 
-                    <Separator />
+                    {/* Input Mask */}
+                    {MASKABLE_TYPES.includes(selectedField.type) && (
+                        <>
+                            <Separator />
+
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-2">
+                                    <TextCursorInput className="h-4 w-4" />
+                                    Input Mask
+                                </Label>
+                            </div>
+
+                            <MaskEditor
+                                field={selectedField}
+                                onChange={(mask) => updateField(selectedField.id, { mask })}
+                            />
+                        </>
+                    )}
+
+                    {/* Conditional Logic */}
+                    {(isInputField(selectedField) || isContentBlock(selectedField) || isGroupField(selectedField)) && (
+                        <>
+                            <Separator />
+
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-2">
+                                    <GitBranch className="h-4 w-4" />
+                                    Conditional Logic
+                                </Label>
+                            </div>
+
+                            {/* A group can't depend on its own fields, which are cleared while it's hidden */}
+                            <ConditionEditor
+                                title={isGroupField(selectedField) ? 'Show this group only when' : 'Show this field only when'}
+                                condition={selectedField.conditions?.visible}
+                                fields={otherFields.filter(field => !flattenFields(findInTree(fields, selectedField.id)?.fields || []).includes(field))}
+                                onChange={(condition) => updateField(selectedField.id, {
+                                    conditions: { ...selectedField.conditions, visible: condition }
+                                })}
+                            />
+
+                            {/* Content blocks can be hidden, but have nothing to require */}
+                            {isInputField(selectedField) && (
+                                <ConditionEditor
+                                    title="Require this field when"
+                                    condition={selectedField.conditions?.required}
+                                    fields={otherFields}
+                                    onChange={(condition) => updateField(selectedField.id, {
+                                        conditions: { ...selectedField.conditions, required: condition }
+                                    })}
+                                />
+                            )}
+                        </>
+                    )}
+
+                    {/* Cross-field Rules, which apply to fields outside of repeaters */}
+                    {isInputField(selectedField) && !repeater && (
+                        <>
+                            <Separator />
+
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-2">
+                                    <Link2 className="h-4 w-4" />
+                                    Cross-field Rules
+                                </Label>
+                            </div>
+
+                            <RuleEditor
+                                field={selectedField}
+                                rules={rules}
+                                fields={allFields.filter(field => field.id !== selectedField.id && isInputField(field))}
+                                onChange={(nextRules) => onRulesChange?.(nextRules)}
+                            />
+                        </>
+                    )}
+
+                    {/* Layout Properties */}
+                    {selectedField.type !== 'page-break' && (
+                        <>
+                            <Separator />
+
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-2">
+                                    <LayoutGrid className="h-4 w-4" />
+                                    Layout
+                                </Label>
+                                <p className="text-xs text-muted-foreground">
+                                    Width in columns of a {GRID_COLUMNS}-column grid. Empty widths follow the next smaller screen size.
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-2">
+                                {LAYOUT_BREAKPOINTS.map((breakpoint, idx) => {
+                                    const span = selectedField.layout?.span;
+                                    const value = typeof span === 'number' ? (breakpoint === 'base' ? span : undefined) : span?.[breakpoint];
+                                    const inherited = idx === 0 ? GRID_COLUMNS : resolveSpans(selectedField.layout)[LAYOUT_BREAKPOINTS[idx - 1]];
+                                    return (
+                                        <div key={breakpoint} className="space-y-1">
+                                            <Label className="text-xs">{BREAKPOINT_LABELS[breakpoint]}</Label>
+                                            <Input
+                                                type="number"
+                                                min={1}
+                                                max={GRID_COLUMNS}
+                                                value={value ?? ''}
+                                                placeholder={String(inherited)}
+                                                onChange={(e) => {
+                                                    const next = parseInt(e.target.value);
+                                                    updateField(selectedField.id, {
+                                                        layout: withSpan(
+                                                            selectedField.layout,
+                                                            breakpoint,
+                                                            isNaN(next) ? undefined : Math.min(GRID_COLUMNS, Math.max(1, next)),
+                                                        ),
+                                                    });
+                                                }}
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            <div className="flex items-center space-x-2">
+                                <Switch
+                                    checked={!!selectedField.layout?.newRow}
+                                    onCheckedChange={(checked) => updateField(selectedField.id, {
+                                        layout: { ...selectedField.layout, newRow: checked || undefined }
+                                    })}
+                                />
+                                <Label>Start a new row</Label>
+                            </div>
+
+                            {!TOP_LEVEL_TYPES.includes(selectedField.type) && groups.length > 0 && (
+                                <div className="space-y-2">
+                                    <Label>Group</Label>
+                                    <Select
+                                        value={findParentId(fields, selectedField.id) === CANVAS_LIST_ID ? NO_GROUP : findParentId(fields, selectedField.id)}
+                                        onValueChange={(groupId) => moveField(selectedField.id, groupId === NO_GROUP ? CANVAS_LIST_ID : groupId)}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NO_GROUP}>No group</SelectItem>
+                                            {groups.filter(group => canHoldField(group, selectedField)).map(group => (
+                                                <SelectItem key={group.id} value={group.id}>{group.label || group.id}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                        </>
+                    )}
 
                     {/* Styling Properties */}
-                    <div className="space-y-2">
-                        <Label className="flex items-center gap-2">
-                            <Palette className="h-4 w-4" />
-                            Styling
-                        </Label>
-                    </div>
+                    {selectedField.type !== 'page-break' && !isContentBlock(selectedField) && !isGroupField(selectedField) && (
+                        <>
+                            <Separator />
 
-                    <div className="space-y-2">
-                        <Label>Border Radius (px)</Label>
-                        <Input
-                            type="number"
-                            value={selectedField.styling?.borderRadius || 6}
-                            onChange={(e) => updateField(selectedField.id, {
-                                styling: { ...selectedField.styling, borderRadius: parseInt(e.target.value) || 0 }
-                            })}
-                        />
-                    </div>
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-2">
+                                    <Palette className="h-4 w-4" />
+                                    Styling
+                                </Label>
+                            </div>
 
-                    <div className="space-y-2">
-                        <Label>Background Color</Label>
-                        <Input
-                            type="color"
-                            value={selectedField.styling?.backgroundColor || '#ffffff'}
-                            onChange={(e) => updateField(selectedField.id, {
-                                styling: { ...selectedField.styling, backgroundColor: e.target.value }
-                            })}
-                        />
-                    </div>
+                            <div className="space-y-2">
+                                <Label>Border Radius (px)</Label>
+                                <Input
+                                    type="number"
+                                    value={selectedField.styling?.borderRadius || 6}
+                                    onChange={(e) => updateField(selectedField.id, {
+                                        styling: { ...selectedField.styling, borderRadius: parseInt(e.target.value) || 0 }
+                                    })}
+                                />
+                            </div>
 
-                    <div className="space-y-2">
-                        <Label>Border Color</Label>
-                        <Input
-                            type="color"
-                            value={selectedField.styling?.borderColor || '#d1d5db'}
-                            onChange={(e) => updateField(selectedField.id, {
-                                styling: { ...selectedField.styling, borderColor: e.target.value }
-                            })}
-                        />
-                    </div>
+                            <div className="space-y-2">
+                                <Label>Background Color</Label>
+                                <Input
+                                    type="color"
+                                    value={selectedField.styling?.backgroundColor || '#ffffff'}
+                                    onChange={(e) => updateField(selectedField.id, {
+                                        styling: { ...selectedField.styling, backgroundColor: e.target.value }
+                                    })}
+                                />
+                            </div>
 
-                    <div className="space-y-2">
-                        <Label>Text Color</Label>
-                        <Input
-                            type="color"
-                            value={selectedField.styling?.textColor || '#000000'}
-                            onChange={(e) => updateField(selectedField.id, {
-                                styling: { ...selectedField.styling, textColor: e.target.value }
-                            })}
-                        />
-                    </div>
+                            <div className="space-y-2">
+                                <Label>Border Color</Label>
+                                <Input
+                                    type="color"
+                                    value={selectedField.styling?.borderColor || '#d1d5db'}
+                                    onChange={(e) => updateField(selectedField.id, {
+                                        styling: { ...selectedField.styling, borderColor: e.target.value }
+                                    })}
+                                />
+                            </div>
 
-                    <div className="space-y-2">
-                        <Label>Font Size (px)</Label>
-                        <Input
-                            type="number"
-                            value={selectedField.styling?.fontSize || 14}
-                            onChange={(e) => updateField(selectedField.id, {
-                                styling: { ...selectedField.styling, fontSize: parseInt(e.target.value) || 14 }
-                            })}
-                        />
-                    </div>
+                            <div className="space-y-2">
+                                <Label>Text Color</Label>
+                                <Input
+                                    type="color"
+                                    value={selectedField.styling?.textColor || '#000000'}
+                                    onChange={(e) => updateField(selectedField.id, {
+                                        styling: { ...selectedField.styling, textColor: e.target.value }
+                                    })}
+                                />
+                            </div>
 
-                    <div className="space-y-2">
-                        <Label>Padding (px)</Label>
-                        <Input
-                            type="number"
-                            value={selectedField.styling?.padding || 12}
-                            onChange={(e) => updateField(selectedField.id, {
-                                styling: { ...selectedField.styling, padding: parseInt(e.target.value) || 12 }
-                            })}
-                        />
-                    </div>
+                            <div className="space-y-2">
+                                <Label>Font Size (px)</Label>
+                                <Input
+                                    type="number"
+                                    value={selectedField.styling?.fontSize || 14}
+                                    onChange={(e) => updateField(selectedField.id, {
+                                        styling: { ...selectedField.styling, fontSize: parseInt(e.target.value) || 14 }
+                                    })}
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Padding (px)</Label>
+                                <Input
+                                    type="number"
+                                    value={selectedField.styling?.padding || 12}
+                                    onChange={(e) => updateField(selectedField.id, {
+                                        styling: { ...selectedField.styling, padding: parseInt(e.target.value) || 12 }
+                                    })}
+                                />
+                            </div>
+                        </>
+                    )}
 
                     <Separator />
 
@@ -754,11 +1624,11 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                             <div className="space-y-2">
                                 <div className="flex justify-between">
                                     <span className="text-sm text-muted-foreground">Total Fields:</span>
-                                    <Badge variant="secondary">{fields.length}</Badge>
+                                    <Badge variant="secondary">{allFields.length}</Badge>
                                 </div>
                                 <div className="flex justify-between">
                                     <span className="text-sm text-muted-foreground">Required Fields:</span>
-                                    <Badge variant="secondary">{fields.filter(f => f.required).length}</Badge>
+                                    <Badge variant="secondary">{allFields.filter(f => f.required).length}</Badge>
                                 </div>
                             </div>
 
@@ -829,7 +1699,7 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                             <div>
                                 <CardTitle>Form Canvas</CardTitle>
                                 <p className="text-sm text-muted-foreground">
-                                    Drag and drop fields to reorder them. Click on a field to edit its properties.
+                                    Drag and drop fields to reorder them or move them into groups, and drag their right edge to resize them. Add page breaks to split the form into steps, and groups to gather related fields or let users repeat them. Click on a field to edit its properties.
                                 </p>
                             </div>
                         </div>
@@ -842,7 +1712,7 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                                 }`}
                         >
                             <DragDropContext onDragEnd={handleDragEnd}>
-                                <Droppable droppableId="form-fields">
+                                <Droppable droppableId={CANVAS_LIST_ID}>
                                     {(provided) => (
                                         <div
                                             {...provided.droppableProps}
@@ -855,44 +1725,9 @@ export default function FormBuilder({ formId, initialFields = [], onSave, onFiel
                                                     <p className="text-gray-500">No fields added yet. Click "Add Field Type" to get started.</p>
                                                 </div>
                                             ) : (
-                                                fields.map((field, index) => (
-                                                    <Draggable key={field.id} draggableId={field.id} index={index}>
-                                                        {(provided, snapshot) => (
-                                                            <div
-                                                                ref={provided.innerRef}
-                                                                {...provided.draggableProps}
-                                                                className={`p-4 border rounded-lg cursor-pointer transition-all ${selectedField?.id === field.id
-                                                                    ? 'border-blue-500 bg-blue-50'
-                                                                    : 'border-gray-200 hover:border-gray-300'
-                                                                    } ${snapshot.isDragging ? 'shadow-lg' : ''}`}
-                                                                onClick={() => setSelectedField(field)}
-                                                            >
-                                                                <div className="flex items-center justify-between mb-3">
-                                                                    <div className="flex items-center gap-2">
-                                                                        <div {...provided.dragHandleProps}>
-                                                                            <GripVertical className="h-4 w-4 text-gray-400" />
-                                                                        </div>
-                                                                        <Badge variant="outline">{field.type}</Badge>
-                                                                        {field.required && (
-                                                                            <Badge variant="destructive" className="text-xs">Required</Badge>
-                                                                        )}
-                                                                    </div>
-                                                                    <Button
-                                                                        variant="ghost"
-                                                                        size="sm"
-                                                                        onClick={(e) => {
-                                                                            e.stopPropagation(); // Prevent selecting the field when deleting
-                                                                            removeField(field.id);
-                                                                        }}
-                                                                    >
-                                                                        <Trash2 className="h-4 w-4" />
-                                                                    </Button>
-                                                                </div>
-                                                                {renderFieldPreview(field)}
-                                                            </div>
-                                                        )}
-                                                    </Draggable>
-                                                ))
+                                                toCanvasRows(fields).map((row, index) => row.kind === 'field'
+                                                    ? renderFieldCard(row.field, index, row.nested)
+                                                    : renderGroupEnd(row.group, index))
                                             )}
                                             {provided.placeholder}
                                         </div>
@@ -0,0 +1,137 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+
+import { FieldMask, FormField, PHONE_FORMATS, resolveMask } from "@jonesstack/react-form-engine";
+
+interface MaskEditorProps {
+    field: FormField;
+    onChange: (mask: FieldMask | undefined) => void;
+}
+
+const MASK_TYPES: { id: FieldMask['type'] | 'none'; label: string }[] = [
+    { id: 'none', label: 'None' },
+    { id: 'pattern', label: 'Pattern' },
+    { id: 'phone', label: 'Phone number' },
+    { id: 'number', label: 'Number' },
+    { id: 'currency', label: 'Currency' },
+];
+
+/**
+ * Edits the input mask of the selected field: a pattern, a national phone
+ * format or number/currency formatting, and whether the formatted text is submitted.
+ */
+export default function MaskEditor({ field, onChange }: MaskEditorProps) {
+    const mask = resolveMask(field);
+
+    const updateMask = (updates: Partial<FieldMask>) => {
+        if (mask) onChange({ ...mask, ...updates });
+    };
+
+    const changeType = (type: string) => {
+        if (type === 'none') {
+            onChange(undefined);
+            return;
+        }
+        // Only the submit choice carries over to another kind of mask
+        onChange({
+            type: type as FieldMask['type'],
+            ...(type === 'pattern' && { pattern: '(999) 999-9999' }),
+            ...(type === 'phone' && { country: 'US' }),
+            ...(mask?.submit && { submit: mask.submit }),
+        });
+    };
+
+    const parseNumber = (value: string) => value ? parseInt(value) : undefined;
+
+    return (
+        <div className="space-y-2">
+            <Select value={mask?.type || 'none'} onValueChange={changeType}>
+                <SelectTrigger size="sm" className="w-full">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {MASK_TYPES.map(type => (
+                        <SelectItem key={type.id} value={type.id}>
+                            {type.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {mask?.type === 'pattern' && (
+                <div className="space-y-1">
+                    <Label className="text-xs">Pattern (9 = digit, a = letter, * = either)</Label>
+                    <Input
+                        placeholder="(999) 999-9999"
+                        value={mask.pattern || ''}
+                        onChange={(e) => updateMask({ pattern: e.target.value })}
+                    />
+                </div>
+            )}
+
+            {mask?.type === 'phone' && (
+                <div className="space-y-1">
+                    <Label className="text-xs">Country</Label>
+                    <Select value={mask.country || 'US'} onValueChange={(country) => updateMask({ country })}>
+                        <SelectTrigger size="sm" className="w-full">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(PHONE_FORMATS).map(([country, format]) => (
+                                <SelectItem key={country} value={country}>
+                                    {country} {format}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+
+            {(mask?.type === 'number' || mask?.type === 'currency') && (
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                        <Label className="text-xs">Locale</Label>
+                        <Input
+                            placeholder="en-US"
+                            value={mask.locale || ''}
+                            onChange={(e) => updateMask({ locale: e.target.value || undefined })}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs">Max Decimals</Label>
+                        <Input
+                            type="number"
+                            placeholder={mask.type === 'currency' ? '2' : 'Any'}
+                            value={mask.decimals ?? ''}
+                            onChange={(e) => updateMask({ decimals: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    {mask.type === 'currency' && (
+                        <div className="space-y-1">
+                            <Label className="text-xs">Currency</Label>
+                            <Input
+                                placeholder="USD"
+                                value={mask.currency || ''}
+                                onChange={(e) => updateMask({ currency: e.target.value.toUpperCase() || undefined })}
+                            />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {mask && (
+                <div className="flex items-center space-x-2">
+                    <Switch
+                        checked={mask.submit === 'formatted'}
+                        onCheckedChange={(checked) => updateMask({ submit: checked ? 'formatted' : undefined })}
+                    />
+                    <Label className="text-xs">Submit the formatted value</Label>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+import { BUILT_IN_MESSAGES, FormField, getValidationMessageKeys, MessageKey, MessageOverrides } from "@jonesstack/react-form-engine";
+
+interface MessageEditorProps {
+    field: FormField; // The selected field; only the messages of its checks are shown
+    formMessages: MessageOverrides; // Messages of every field, the schema's `messages`
+    onChange: (messages: MessageOverrides | undefined) => void; // The field's `validation.messages`
+    onFormMessagesChange: (messages: MessageOverrides) => void;
+}
+
+const MESSAGE_LABELS: Partial<Record<MessageKey, string>> = {
+    required: 'Required',
+    incomplete: 'Incomplete',
+    minLength: 'Too short',
+    maxLength: 'Too long',
+    number: 'Not a number',
+    min: 'Below minimum',
+    max: 'Above maximum',
+    email: 'Invalid email',
+    date: 'Invalid date',
+    url: 'Invalid URL',
+    phone: 'Invalid phone number',
+    pattern: 'Pattern mismatch',
+    minSelections: 'Too few choices',
+    maxSelections: 'Too many choices',
+    missingOther: '"Other" left blank',
+    invalidOption: 'Not one of the options',
+    invalidValue: 'Wrong kind of value',
+    maxFiles: 'Too many files',
+    fileType: 'File type not accepted',
+    fileSize: 'File too large',
+    minItems: 'Too few items',
+    maxItems: 'Too many items',
+    invalidCardNumber: 'Invalid card number',
+    missingCardName: 'Missing name on card',
+    invalidCardExpiry: 'Invalid expiry date',
+    cardExpired: 'Card expired',
+    invalidCardCvc: 'Invalid security code',
+};
+
+// The built-in English message, with the plural form for several things
+const getBuiltInMessage = (key: MessageKey) => {
+    const template = BUILT_IN_MESSAGES.en[key];
+    return typeof template === 'string' ? template : template?.other || '';
+};
+
+// Copy of `messages` with the message set, or removed when empty
+const withMessage = (messages: MessageOverrides, key: MessageKey, text: string): MessageOverrides => {
+    const next = { ...messages };
+    if (text) {
+        next[key] = text;
+    } else {
+        delete next[key];
+    }
+    return next;
+};
+
+/**
+ * Edits the error messages of the selected field's checks, either for this
+ * field only or for every field of the form. Empty inputs keep the message
+ * shown as placeholder.
+ */
+export default function MessageEditor({ field, formMessages, onChange, onFormMessagesChange }: MessageEditorProps) {
+    const [scope, setScope] = useState<'field' | 'form'>('field');
+    const fieldMessages = field.validation?.messages || {};
+    const keys = getValidationMessageKeys(field);
+
+    const updateMessage = (key: MessageKey, text: string) => {
+        if (scope === 'form') {
+            onFormMessagesChange(withMessage(formMessages, key, text));
+            return;
+        }
+        const next = withMessage(fieldMessages, key, text);
+        onChange(Object.keys(next).length > 0 ? next : undefined);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <Label className="text-xs">Error Messages</Label>
+                <div className="flex gap-1">
+                    <Button type="button" size="sm" variant={scope === 'field' ? 'default' : 'outline'} onClick={() => setScope('field')}>
+                        This field
+                    </Button>
+                    <Button type="button" size="sm" variant={scope === 'form' ? 'default' : 'outline'} onClick={() => setScope('form')}>
+                        All fields
+                    </Button>
+                </div>
+            </div>
+            {keys.map(key => {
+                const formMessage = formMessages[key] || getBuiltInMessage(key);
+                return (
+                    <div key={key} className="space-y-1">
+                        <Label className="text-xs text-gray-500">{MESSAGE_LABELS[key] || key}</Label>
+                        <Input
+                            placeholder={scope === 'field' ? formMessage : getBuiltInMessage(key)}
+                            value={(scope === 'field' ? fieldMessages[key] : formMessages[key]) || ''}
+                            onChange={(e) => updateMessage(key, e.target.value)}
+                        />
+                    </div>
+                );
+            })}
+            <p className="text-xs text-gray-500">
+                Placeholders: {'{label}'}, {'{min}'}, {'{max}'} and {'{actual}'}, the value that failed.
+                {scope === 'field' && field.validation?.customMessage && ' The custom error message applies to the checks left empty here.'}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
+
+import { FieldOption, FormField, normalizeOption, OptionsSource } from "@jonesstack/react-form-engine";
+
+interface OptionsEditorProps {
+    field: FormField; // A select, multi-select, radio or checkbox-group field
+    fields: FormField[]; // Other fields the loaded options can depend on
+    canLoadOptions?: boolean; // False for fields of repeaters, whose options can't be loaded at runtime
+    onChange: (updates: Partial<FormField>) => void;
+}
+
+// Field types offering an "Other (please specify)" choice
+const MULTI_CHOICE_TYPES = ['multi-select', 'checkbox-group'];
+
+// Options whose value equals their label are saved as plain strings
+const toOption = ({ label, value }: FieldOption): string | FieldOption =>
+    value === '' || value === label ? label : { label, value };
+
+const formatParams = (source?: OptionsSource) =>
+    source?.params ? JSON.stringify(source.params, null, 2) : '';
+
+/**
+ * Edits the choices of the selected field: static options with an optional
+ * value differing from the label, or a loader providing them at runtime.
+ */
+export default function OptionsEditor({ field, fields, canLoadOptions = true, onChange }: OptionsEditorProps) {
+    const options = (field.options || []).map(normalizeOption);
+    const source = field.optionsSource;
+
+    // Parameters are edited as JSON text and only saved once they parse. Render the
+    // editor with `key={field.id}` so the text is reset for another field.
+    const [paramsText, setParamsText] = useState(() => formatParams(source));
+    const [paramsError, setParamsError] = useState<string | null>(null);
+
+    const updateOption = (index: number, updates: Partial<FieldOption>) => {
+        const newOptions = [...(field.options || [])];
+        newOptions[index] = toOption({ ...options[index], ...updates });
+        onChange({ options: newOptions });
+    };
+
+    const updateSource = (updates: Partial<OptionsSource>) => {
+        onChange({ optionsSource: { loader: '', ...source, ...updates } });
+    };
+
+    const updateParams = (text: string) => {
+        setParamsText(text);
+        if (text.trim() === '') {
+            setParamsError(null);
+            updateSource({ params: undefined });
+            return;
+        }
+        try {
+            const params = JSON.parse(text);
+            if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+                throw new Error('not an object');
+            }
+            setParamsError(null);
+            updateSource({ params });
+        } catch {
+            setParamsError('Parameters must be a JSON object');
+        }
+    };
+
+    const toggleDependency = (fieldId: string, checked: boolean) => {
+        const dependsOn = (source?.dependsOn || []).filter(id => id !== fieldId);
+        updateSource({ dependsOn: checked ? [...dependsOn, fieldId] : dependsOn.length ? dependsOn : undefined });
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label>Options</Label>
+
+            {(canLoadOptions || source) && (
+                <div className="flex items-center space-x-2">
+                    <Switch
+                        checked={!!source}
+                        onCheckedChange={(checked) => onChange({ optionsSource: checked ? { loader: '' } : undefined })}
+                    />
+                    <Label className="text-xs">Load options at runtime</Label>
+                </div>
+            )}
+
+            {source ? (
+                <div className="space-y-2 p-2 border rounded-md">
+                    <div className="space-y-1">
+                        <Label className="text-xs">Loader Name</Label>
+                        <Input
+                            placeholder="e.g., countries"
+                            value={source.loader}
+                            onChange={(e) => updateSource({ loader: e.target.value })}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            Provide the loader under this name in the <code>optionLoaders</code> prop.
+                        </p>
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs">Parameters (JSON, optional)</Label>
+                        <Textarea
+                            placeholder='{ "category": "hardware" }'
+                            value={paramsText}
+                            onChange={(e) => updateParams(e.target.value)}
+                            className="font-mono text-xs"
+                        />
+                        {paramsError && <p className="text-xs text-destructive">{paramsError}</p>}
+                    </div>
+                    {fields.length > 0 && (
+                        <div className="space-y-1">
+                            <Label className="text-xs">Reload when these fields change</Label>
+                            {fields.map(other => (
+                                <div key={other.id} className="flex items-center justify-between gap-2">
+                                    <span className="text-sm truncate">{other.label || other.id}</span>
+                                    <Switch
+                                        checked={!!source.dependsOn?.includes(other.id)}
+                                        onCheckedChange={(checked) => toggleDependency(other.id, checked)}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {options.map((option, index) => (
+                        <div key={index} className="flex gap-2">
+                            <Input
+                                placeholder="Label"
+                                value={option.label}
+                                onChange={(e) => updateOption(index, { label: e.target.value })}
+                            />
+                            <Input
+                                placeholder="Value (same as label)"
+                                value={option.value === option.label ? '' : option.value}
+                                onChange={(e) => updateOption(index, { value: e.target.value })}
+                            />
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => onChange({ options: field.options?.filter((_, i) => i !== index) })}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onChange({ options: [...(field.options || []), `Option ${options.length + 1}`] })}
+                    >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Option
+                    </Button>
+                </div>
+            )}
+
+            {MULTI_CHOICE_TYPES.includes(field.type) && (
+                <div className="flex items-center space-x-2">
+                    <Switch
+                        checked={!!field.allowOther}
+                        onCheckedChange={(checked) => onChange({ allowOther: checked || undefined })}
+                    />
+                    <Label>Allow &quot;Other (please specify)&quot;</Label>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+
+import { AtLeastOneRule, CompareRule, ComparisonOperator, FormField, FormRule } from "@jonesstack/react-form-engine";
+
+interface RuleEditorProps {
+    field: FormField; // The selected field; only rules involving it are shown
+    rules: FormRule[];
+    fields: FormField[]; // Other fields the rules can refer to
+    onChange: (rules: FormRule[]) => void;
+}
+
+const OPERATORS: { id: ComparisonOperator; label: string }[] = [
+    { id: 'equals', label: 'must equal' },
+    { id: 'not-equals', label: 'must differ from' },
+    { id: 'greater-than', label: 'must be greater than / after' },
+    { id: 'greater-than-or-equal', label: 'must be at least / on or after' },
+    { id: 'less-than', label: 'must be less than / before' },
+    { id: 'less-than-or-equal', label: 'must be at most / on or before' },
+];
+
+const involvesField = (rule: FormRule, fieldId: string) =>
+    rule.type === 'compare' ? rule.fieldId === fieldId : rule.fieldIds.includes(fieldId);
+
+/**
+ * Edits the cross-field validation rules of the selected field: comparisons with
+ * another field, and "at least one of these fields" groups.
+ */
+export default function RuleEditor({ field, rules, fields, onChange }: RuleEditorProps) {
+    const updateRule = (rule: FormRule, updates: Partial<CompareRule> | Partial<AtLeastOneRule>) => {
+        onChange(rules.map(item => item === rule ? { ...rule, ...updates } as FormRule : item));
+    };
+
+    const removeRule = (rule: FormRule) => {
+        onChange(rules.filter(item => item !== rule));
+    };
+
+    const addCompareRule = () => {
+        const rule: CompareRule = { type: 'compare', fieldId: field.id, operator: 'equals', otherFieldId: fields[0]?.id || '' };
+        onChange([...rules, rule]);
+    };
+
+    const addAtLeastOneRule = () => {
+        const rule: AtLeastOneRule = { type: 'at-least-one', fieldIds: [field.id] };
+        onChange([...rules, rule]);
+    };
+
+    const toggleAtLeastOneField = (rule: AtLeastOneRule, fieldId: string, checked: boolean) => {
+        updateRule(rule, {
+            fieldIds: checked ? [...rule.fieldIds, fieldId] : rule.fieldIds.filter(id => id !== fieldId),
+        });
+    };
+
+    const renderMessageInput = (rule: FormRule) => (
+        <Input
+            placeholder="Custom error message (optional)"
+            value={rule.message || ''}
+            onChange={(e) => updateRule(rule, { message: e.target.value || undefined })}
+        />
+    );
+
+    return (
+        <div className="space-y-2">
+            {rules.filter(rule => involvesField(rule, field.id)).map((rule, index) => {
+                if (rule.type === 'compare') {
+                    return (
+                        <div key={index} className="space-y-2 p-2 border rounded-md">
+                            <div className="flex gap-2">
+                                <Select
+                                    value={rule.operator}
+                                    onValueChange={(value) => updateRule(rule, { operator: value as ComparisonOperator })}
+                                >
+                                    <SelectTrigger size="sm" className="flex-1 min-w-0">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {OPERATORS.map(operator => (
+                                            <SelectItem key={operator.id} value={operator.id}>
+                                                {operator.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Button variant="outline" size="sm" onClick={() => removeRule(rule)}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            <Select
+                                value={rule.otherFieldId || undefined}
+                                onValueChange={(value) => updateRule(rule, { otherFieldId: value })}
+                            >
+                                <SelectTrigger size="sm" className="w-full">
+                                    <SelectValue placeholder="Select a field" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {fields.map(other => (
+                                        <SelectItem key={other.id} value={other.id}>
+                                            {other.label || other.id}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {renderMessageInput(rule)}
+                        </div>
+                    );
+                }
+
+                return (
+                    <div key={index} className="space-y-2 p-2 border rounded-md">
+                        <div className="flex items-center justify-between gap-2">
+                            <Label className="text-xs">At least one of this field and:</Label>
+                            <Button variant="outline" size="sm" onClick={() => removeRule(rule)}>
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        {fields.map(other => (
+                            <div key={other.id} className="flex items-center justify-between gap-2">
+                                <span className="text-sm truncate">{other.label || other.id}</span>
+                                <Switch
+                                    checked={rule.fieldIds.includes(other.id)}
+                                    onCheckedChange={(checked) => toggleAtLeastOneField(rule, other.id, checked)}
+                                />
+                            </div>
+                        ))}
+                        {renderMessageInput(rule)}
+                    </div>
+                );
+            })}
+
+            <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={addCompareRule} disabled={fields.length === 0}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Compare With Field
+                </Button>
+                <Button variant="outline" size="sm" onClick={addAtLeastOneRule} disabled={fields.length === 0}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    At Least One Of
+                </Button>
+            </div>
+        </div>
+    );
+}
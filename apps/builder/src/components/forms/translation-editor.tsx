@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
+
+import { FormSchema, FormTranslation, getMissingTranslations, getTranslatableTexts } from "@jonesstack/react-form-engine";
+
+interface TranslationEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    schema: FormSchema; // The form being built, in its own language
+    sourceLocale: string;
+    onSourceLocaleChange: (locale: string) => void;
+    translations: Record<string, FormTranslation>;
+    onChange: (translations: Record<string, FormTranslation>) => void;
+}
+
+// Readable name of a translation key, e.g. 'fields.email.label' → 'email › label'
+const describeKey = (key: string) => key.replace(/^fields\./, '').split('.').join(' › ');
+
+/**
+ * Edits the translations of the form's texts, one language at a time, and
+ * shows how many texts each language is missing.
+ */
+export default function TranslationEditor({ isOpen, onClose, schema, sourceLocale, onSourceLocaleChange, translations, onChange }: TranslationEditorProps) {
+    const locales = Object.keys(translations);
+    const [selectedLocale, setSelectedLocale] = useState<string | null>(null);
+    const [newLocale, setNewLocale] = useState('');
+    const [missingOnly, setMissingOnly] = useState(false);
+
+    const activeLocale = selectedLocale && locales.includes(selectedLocale) ? selectedLocale : locales[0];
+    const texts = getTranslatableTexts(schema);
+    const missing = activeLocale ? getMissingTranslations(schema, activeLocale) : [];
+    const keys = missingOnly ? missing : Object.keys(texts);
+
+    const addLocale = () => {
+        const locale = newLocale.trim().replace(/_/g, '-');
+        if (!locale || locale === sourceLocale || locales.includes(locale)) return;
+        onChange({ ...translations, [locale]: {} });
+        setSelectedLocale(locale);
+        setNewLocale('');
+    };
+
+    const removeLocale = (locale: string) => {
+        const next = { ...translations };
+        delete next[locale];
+        onChange(next);
+    };
+
+    const updateText = (key: string, text: string) => {
+        if (!activeLocale) return;
+        const next = { ...translations[activeLocale] };
+        if (text) {
+            next[key] = text;
+        } else {
+            delete next[key];
+        }
+        onChange({ ...translations, [activeLocale]: next });
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onClose}>
+            <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Translations</DialogTitle>
+                    <DialogDescription>
+                        Texts left untranslated are shown in the form language. Built-in messages are translated by the engine.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-wrap items-end gap-4">
+                    <div className="space-y-1">
+                        <Label htmlFor="source-locale">Form language</Label>
+                        <Input
+                            id="source-locale"
+                            className="w-28"
+                            placeholder="en"
+                            value={sourceLocale}
+                            onChange={(e) => onSourceLocaleChange(e.target.value.trim())}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="new-locale">Add a language</Label>
+                        <div className="flex gap-2">
+                            <Input
+                                id="new-locale"
+                                className="w-28"
+                                placeholder="fr-CA"
+                                value={newLocale}
+                                onChange={(e) => setNewLocale(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && addLocale()}
+                            />
+                            <Button type="button" variant="outline" size="sm" onClick={addLocale}>
+                                <Plus className="h-4 w-4 mr-1" /> Add
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+
+                {locales.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No translations yet. Add a language to start translating.</p>
+                ) : (
+                    <>
+                        <div className="flex flex-wrap gap-2">
+                            {locales.map(locale => {
+                                const missingCount = getMissingTranslations(schema, locale).length;
+                                return (
+                                    <Button
+                                        key={locale}
+                                        type="button"
+                                        variant={locale === activeLocale ? 'default' : 'outline'}
+                                        size="sm"
+                                        onClick={() => setSelectedLocale(locale)}
+                                    >
+                                        {locale}
+                                        <Badge variant={missingCount > 0 ? 'destructive' : 'secondary'}>
+                                            {missingCount > 0 ? `${missingCount} missing` : 'complete'}
+                                        </Badge>
+                                    </Button>
+                                );
+                            })}
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                                <Switch id="missing-only" checked={missingOnly} onCheckedChange={setMissingOnly} />
+                                <Label htmlFor="missing-only">Missing only</Label>
+                            </div>
+                            <Button type="button" variant="ghost" size="sm" onClick={() => removeLocale(activeLocale)}>
+                                <Trash2 className="h-4 w-4 mr-1" /> Remove {activeLocale}
+                            </Button>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto max-h-[50vh] space-y-3 pr-1">
+                            {keys.length === 0 && (
+                                <p className="text-center text-gray-500 py-8">Every text is translated.</p>
+                            )}
+                            {keys.map(key => {
+                                const value = translations[activeLocale]?.[key] || '';
+                                return (
+                                    <div key={key} className="grid grid-cols-2 gap-2 items-start">
+                                        <div className="min-w-0">
+                                            <p className="text-xs font-mono text-gray-500 truncate" title={key}>{describeKey(key)}</p>
+                                            <p className="text-sm whitespace-pre-wrap break-words">{texts[key]}</p>
+                                        </div>
+                                        {key.endsWith('.content') ? (
+                                            <Textarea
+                                                rows={3}
+                                                aria-label={`${describeKey(key)} (${activeLocale})`}
+                                                value={value}
+                                                onChange={(e) => updateText(key, e.target.value)}
+                                            />
+                                        ) : (
+                                            <Input
+                                                aria-label={`${describeKey(key)} (${activeLocale})`}
+                                                value={value}
+                                                onChange={(e) => updateText(key, e.target.value)}
+                                                className={value ? undefined : 'border-destructive'}
+                                            />
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
+                )}
+
+                <div className="flex justify-end pt-4">
+                    <Button onClick={onClose}>Done</Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
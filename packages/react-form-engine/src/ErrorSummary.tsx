@@ -0,0 +1,70 @@
+import React from 'react';
+import { FormErrors, FormField } from './core/types.js';
+import { flattenFields } from './core/layout.js';
+import { isErrorOfField } from './core/repeaters.js';
+import { cx, useFormTheme } from './theme.js';
+import { useFormMessages } from './locale.js';
+
+export interface ErrorSummaryProps {
+    errors: FormErrors;
+    fields: readonly FormField[]; // The fields shown; errors of other fields are left out
+}
+
+// Elements that can take the focus for a field made of several inputs
+const FOCUSABLE_INPUTS = 'input, select, textarea, button';
+
+/**
+ * Moves the focus to the input of a field, or to the first input of a field
+ * made of several, such as a radio group or an address.
+ */
+export const focusField = (fieldId: string): void => {
+    const element = document.getElementById(fieldId);
+    if (!element) return;
+    const input = element.matches(FOCUSABLE_INPUTS) ? element : element.querySelector<HTMLElement>(FOCUSABLE_INPUTS);
+    if (input) {
+        input.focus();
+    } else {
+        element.scrollIntoView({ block: 'center' });
+    }
+};
+
+/**
+ * List of the errors of the shown fields, in the order of the fields, each
+ * linking to its field. Renders nothing when they have no errors. FormRenderer
+ * focuses it after a failed submit; it is focusable for that purpose only.
+ */
+export const ErrorSummary = React.forwardRef<HTMLDivElement, ErrorSummaryProps>(({ errors, fields }, ref) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    const titleId = React.useId();
+
+    // Errors of repeater items come after the error of their repeater
+    const errorKeys = Object.keys(errors);
+    const entries = flattenFields(fields).flatMap(field => errorKeys.filter(key => isErrorOfField(key, field.id)));
+    if (entries.length === 0) return null;
+
+    return (
+        <div ref={ref} role="group" tabIndex={-1} aria-labelledby={titleId} className={cx(classNames.errorSummary)}>
+            <p id={titleId} className={cx(classNames.errorSummaryTitle)}>{t('errorSummary', { count: entries.length })}</p>
+            <ul className={cx(classNames.errorSummaryList)}>
+                {entries.map(key => (
+                    <li key={key}>
+                        <a
+                            href={`#${key}`}
+                            onClick={e => {
+                                // Focusing the input is enough; the URL is left alone
+                                e.preventDefault();
+                                focusField(key);
+                            }}
+                            className={cx(classNames.errorSummaryLink)}
+                        >
+                            {errors[key]}
+                        </a>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+});
+
+ErrorSummary.displayName = 'ErrorSummary';
@@ -0,0 +1,267 @@
+import { FormField, FormValues } from './types.js';
+import { resolveFields } from './conditions.js';
+import { coerceValue } from './coercion.js';
+import { checkExpressionTypes, evaluateExpression, ExpressionNode, ExpressionType, ExpressionValue, parseExpression } from './expressions.js';
+import { flattenFields } from './layout.js';
+import { resolveMask } from './masks.js';
+import { isRepeater } from './repeaters.js';
+import { isInputField } from './values.js';
+
+/**
+ * A field an expression can refer to, by `name`: its ID, or `repeater.field`
+ * for the values of a field across the items of a repeater.
+ */
+export interface ExpressionReference {
+    name: string;
+    field: FormField;
+    repeater?: FormField; // Set for the values of a field across the items of this repeater
+}
+
+/**
+ * Outcome of checking the expression of a calculated field.
+ */
+export interface ExpressionCheck {
+    type: ExpressionType | null; // Type of the calculated value; null when the expression doesn't parse
+    errors: string[];
+}
+
+/**
+ * Returns true for read-only fields whose value the engine computes from other
+ * fields with `expression`, e.g. an order total or an age.
+ */
+export const isCalculatedField = (field: FormField): boolean => field.type === 'calculated';
+
+// Parsed expressions by source; null for invalid ones. The builder parses every draft
+// typed into an expression, so only the most recently used ones are kept.
+const MAX_PARSED_EXPRESSIONS = 200;
+const parsedExpressions = new Map<string, ExpressionNode | null>();
+
+const parseCached = (expression: string): ExpressionNode | null => {
+    let node = parsedExpressions.get(expression);
+    if (node === undefined) {
+        node = null;
+        try {
+            node = expression.trim() ? parseExpression(expression) : null;
+        } catch {
+            // Reported by checkCalculatedField; the field stays empty
+        }
+    } else {
+        // Moved to the end, as maps keep insertion order
+        parsedExpressions.delete(expression);
+    }
+    parsedExpressions.set(expression, node);
+    if (parsedExpressions.size > MAX_PARSED_EXPRESSIONS) {
+        parsedExpressions.delete(parsedExpressions.keys().next().value!);
+    }
+    return node;
+};
+
+// The repeater whose items contain the field, if any
+const findRepeaterOf = (fields: readonly FormField[], fieldId: string): FormField | undefined =>
+    flattenFields(fields).find(field => isRepeater(field) && flattenFields(field.fields || []).some(child => child.id === fieldId));
+
+/**
+ * Returns the fields the expression of a calculated field can refer to: the
+ * input fields of the form and, for a field of a repeater, the fields of the
+ * same item, which win on a shared ID. The values of a field across the items
+ * of a repeater go by `repeater.field`. `fields` are the fields of the whole form.
+ */
+export const getExpressionReferences = (fields: readonly FormField[], field: FormField): ExpressionReference[] => {
+    const references = new Map<string, ExpressionReference>();
+    flattenFields(fields).filter(isInputField).forEach(candidate => {
+        references.set(candidate.id, { name: candidate.id, field: candidate });
+        if (isRepeater(candidate)) {
+            flattenFields(candidate.fields || []).filter(isInputField).forEach(child => {
+                const name = `${candidate.id}.${child.id}`;
+                references.set(name, { name, field: child, repeater: candidate });
+            });
+        }
+    });
+
+    const repeater = findRepeaterOf(fields, field.id);
+    flattenFields(repeater?.fields || []).filter(isInputField).forEach(child => {
+        references.set(child.id, { name: child.id, field: child });
+    });
+
+    references.delete(field.id);
+    return Array.from(references.values());
+};
+
+// Type of the values of a field in expressions; `calculatedType` infers the type of calculated fields
+const getFieldType = (field: FormField, calculatedType: (field: FormField) => ExpressionType): ExpressionType => {
+    if (resolveMask(field)?.submit === 'formatted') return 'text';
+
+    switch (field.type) {
+        case 'number':
+        case 'rating':
+            return 'number';
+        case 'checkbox':
+            return 'boolean';
+        case 'date':
+            return 'date';
+        case 'text':
+        case 'textarea':
+        case 'email':
+        case 'phone':
+        case 'url':
+        case 'select':
+        case 'radio':
+            return 'text';
+        case 'checkbox-group':
+        case 'multi-select':
+        case 'file':
+        case 'repeater':
+            return 'list';
+        case 'calculated':
+            return calculatedType(field);
+        default:
+            // Custom field types can hold any value
+            return 'any';
+    }
+};
+
+/**
+ * Checks the expression of a calculated field: its syntax, that it only refers
+ * to fields it can reach (see getExpressionReferences) without going in a
+ * circle, and that operators and functions get values of the right type.
+ * Also returns the type of the calculated value. `fields` are the fields of the whole form.
+ */
+export const checkCalculatedField = (field: FormField, fields: readonly FormField[]): ExpressionCheck => {
+    const inferring: string[] = [];
+    const fieldErrors: string[] = [];
+
+    const infer = (current: FormField, errors: string[]): ExpressionType | null => {
+        if (!current.expression?.trim()) {
+            errors.push('The expression is empty');
+            return null;
+        }
+        let node: ExpressionNode;
+        try {
+            node = parseExpression(current.expression);
+        } catch (error) {
+            errors.push((error as Error).message);
+            return null;
+        }
+
+        inferring.push(current.id);
+        const references = new Map(getExpressionReferences(fields, current).map(reference => [reference.name, reference]));
+        const type = checkExpressionTypes(node, name => {
+            const reference = references.get(name);
+            if (!reference) return undefined;
+            if (reference.repeater) return 'list';
+
+            return getFieldType(reference.field, calculated => {
+                if (inferring.includes(calculated.id)) {
+                    // Circles not passing through the checked field are reported on the fields in them
+                    if (calculated.id === field.id) fieldErrors.push(`Circular reference: ${[...inferring, calculated.id].join(' → ')}`);
+                    return 'any';
+                }
+                // Errors of other calculated fields are reported on those fields
+                return infer(calculated, []) ?? 'any';
+            });
+        }, errors);
+        inferring.pop();
+        return type;
+    };
+
+    const type = infer(field, fieldErrors);
+    return { type, errors: Array.from(new Set(fieldErrors)) };
+};
+
+type Resolver = (name: string) => ExpressionValue;
+
+// The form around a repeater item: its values and how to read them in expressions
+interface OuterScope {
+    values: FormValues;
+    resolve: Resolver;
+}
+
+// Reads the values of `fields`, the fields of the form or of a repeater item,
+// for expressions, computing calculated fields on demand. Names that aren't
+// fields of a repeater item are looked up in the form with `outer`.
+const createResolver = (fields: readonly FormField[], values: FormValues, outer?: OuterScope) => {
+    const allFields = flattenFields(fields).filter(isInputField);
+    const byId = new Map(allFields.map(field => [field.id, field]));
+    // Hidden fields count as empty, like in conditions
+    const visibleIds = new Set(flattenFields(resolveFields(fields, { ...outer?.values, ...values })).map(field => field.id));
+    const results = new Map<string, ExpressionValue>();
+    const computing = new Set<string>();
+
+    const valueOf = (field: FormField): ExpressionValue => {
+        if (!visibleIds.has(field.id)) return null;
+        if (!isCalculatedField(field)) return coerceValue(field, values[field.id]) as ExpressionValue;
+        if (!results.has(field.id)) {
+            // A field taking part in a circular reference stays empty
+            if (computing.has(field.id)) return null;
+            computing.add(field.id);
+            const node = parseCached(field.expression || '');
+            results.set(field.id, node ? evaluateExpression(node, resolve) : null);
+            computing.delete(field.id);
+        }
+        return results.get(field.id) ?? null;
+    };
+
+    const resolve: Resolver = name => {
+        const field = byId.get(name);
+        if (field) return valueOf(field);
+
+        const [repeaterId, childId] = name.split('.');
+        const repeater = childId !== undefined ? byId.get(repeaterId) : undefined;
+        if (repeater && isRepeater(repeater)) {
+            if (!visibleIds.has(repeater.id)) return null;
+            const child = flattenFields(repeater.fields || []).find(candidate => candidate.id === childId);
+            const items: FormValues[] = Array.isArray(values[repeater.id]) ? values[repeater.id] : [];
+            return child ? items.map(item => coerceValue(child, item?.[child.id])) : null;
+        }
+        return outer ? outer.resolve(name) : null;
+    };
+
+    return { calculatedFields: allFields.filter(isCalculatedField), valueOf, resolve };
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+    Object.is(a, b) || (Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) === JSON.stringify(b));
+
+// Computes the calculated fields among `fields` into a copy of `values`, or
+// returns `values` itself when nothing changed
+const calculate = (fields: readonly FormField[], values: FormValues, outer?: OuterScope): FormValues => {
+    if (!flattenFields(fields).some(isCalculatedField)) return values;
+    const { calculatedFields, valueOf } = createResolver(fields, values, outer);
+
+    let next = values;
+    calculatedFields.forEach(field => {
+        const value = valueOf(field);
+        if (!sameValue(next[field.id], value)) {
+            next = next === values ? { ...values } : next;
+            next[field.id] = value;
+        }
+    });
+    return next;
+};
+
+/**
+ * Returns the values with every calculated field computed from the other
+ * fields, including those of repeater items. Hidden fields count as empty, and
+ * an expression that doesn't parse or goes in a circle leaves its field empty.
+ * The same `values` object is returned when no calculated value changed, and
+ * so is every unchanged repeater item.
+ */
+export const applyCalculations = (fields: readonly FormField[], values: FormValues): FormValues => {
+    const repeaters = flattenFields(fields).filter(field => isRepeater(field) && flattenFields(field.fields || []).some(isCalculatedField));
+
+    let next = calculate(fields, values);
+    if (repeaters.length === 0) return next;
+
+    repeaters.forEach(repeater => {
+        const items = next[repeater.id];
+        if (!Array.isArray(items)) return;
+        // Items can refer to fields outside the repeater; their own fields win on a shared ID
+        const outer = { values: next, resolve: createResolver(fields, next).resolve };
+        const nextItems = items.map(item => calculate(repeater.fields || [], item || {}, outer));
+        if (nextItems.some((item, idx) => item !== items[idx])) {
+            next = { ...next, [repeater.id]: nextItems };
+        }
+    });
+    // Once more, for totals over the calculated fields of the items
+    return calculate(fields, next);
+};
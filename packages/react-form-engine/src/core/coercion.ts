@@ -0,0 +1,147 @@
+import { FormField, FormValues } from './types.js';
+import { isChecked, isEmptyValue, isInputField } from './values.js';
+import { formatMaskedValue, resolveMask } from './masks.js';
+import { flattenFields } from './layout.js';
+import { isRepeater, resolveItemFields } from './repeaters.js';
+
+/**
+ * How optional fields that were left empty appear in the submission:
+ * 'null' keeps the key with a null value, 'omit' leaves the key out.
+ */
+export type EmptyValueMode = 'null' | 'omit';
+
+export interface CoercionOptions {
+    emptyValues?: EmptyValueMode; // Defaults to 'null'
+}
+
+// Field types whose value is always submitted as an array, even when empty
+const MULTI_VALUE_TYPES = ['checkbox-group', 'multi-select', 'file'];
+
+// Marks a value that counts as "not filled in" after coercion
+const EMPTY = Symbol('empty');
+
+const trimParts = (value: unknown): Record<string, unknown> | typeof EMPTY => {
+    if (typeof value !== 'object' || value === null) return EMPTY;
+    const parts: Record<string, unknown> = {};
+    Object.entries(value).forEach(([part, partValue]) => {
+        parts[part] = typeof partValue === 'string' ? partValue.trim() : partValue;
+    });
+    return isEmptyValue(parts) ? EMPTY : parts;
+};
+
+const isLeapYear = (year: number): boolean => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// YYYY-MM-DD, optionally followed by the time and timezone of a full ISO timestamp
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Returns the ISO date (YYYY-MM-DD) of a date text, or null when it is not a
+ * valid date. Native date inputs produce ISO dates, which are only checked.
+ * Full ISO timestamps, e.g. '2024-03-14T09:30:00Z', give the date written in
+ * them, so no timezone shifts the day. Other texts, such as '03/14/2024', are
+ * not dates here, as their reading depends on the locale.
+ */
+export const toIsoDate = (value: string): string | null => {
+    const match = ISO_DATE_REGEX.exec(value);
+    if (!match) return null;
+
+    const [year, month, day, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+    const daysInMonth = month === 2 && isLeapYear(year) ? 29 : DAYS_IN_MONTH[month - 1];
+    const isValidDay = month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth;
+    const isValidTime = hours < 24 && minutes < 60 && seconds < 60;
+    return isValidDay && isValidTime ? value.slice(0, 10) : null;
+};
+
+// Conditions of repeater items can refer to fields outside the repeater, hence `values`
+const coerce = (field: FormField, value: unknown, values: FormValues, options: CoercionOptions): unknown => {
+    if (isRepeater(field)) {
+        const items: unknown[] = Array.isArray(value) ? value : [];
+        return items.map(item => {
+            const itemValues: FormValues = typeof item === 'object' && item !== null ? item : {};
+            return coerceSubmission(resolveItemFields(field, itemValues, values), itemValues, options);
+        });
+    }
+
+    if (MULTI_VALUE_TYPES.includes(field.type)) {
+        if (value === undefined || value === null) return [];
+        const items: unknown[] = Array.isArray(value) ? value : [value];
+        return items
+            .map(item => typeof item === 'string' ? item.trim() : item)
+            .filter(item => item !== '');
+    }
+
+    // Masked values are raw unless the mask asks for the formatted text
+    const mask = resolveMask(field);
+    if (mask?.submit === 'formatted' && (typeof value === 'string' || typeof value === 'number')) {
+        const raw = String(value).trim();
+        return raw === '' ? EMPTY : formatMaskedValue(mask, raw);
+    }
+
+    switch (field.type) {
+        case 'checkbox':
+            // Unchecked is a meaningful answer, not an empty value
+            return isChecked(value);
+        case 'number':
+        case 'rating': {
+            if (typeof value === 'number') return isNaN(value) ? EMPTY : value;
+            const text = String(value ?? '').trim();
+            const number = Number(text);
+            return text === '' || !isFinite(number) ? EMPTY : number;
+        }
+        case 'date': {
+            const text = String(value ?? '').trim();
+            // Texts that are not dates are kept for validation to report
+            return text === '' ? EMPTY : toIsoDate(text) ?? text;
+        }
+        case 'address':
+        case 'credit-card':
+            return trimParts(value);
+        case 'calculated':
+            // Computed values already have their type; false is a result, not an empty value
+            return value === null || value === undefined || value === '' ? EMPTY : value;
+        default:
+            if (typeof value === 'string') {
+                const text = value.trim();
+                return text === '' ? EMPTY : text;
+            }
+            // Custom field types keep their value as it is
+            return isEmptyValue(value) ? EMPTY : value;
+    }
+};
+
+/**
+ * Converts a single raw field value into its submitted form: numbers as
+ * numbers, dates as ISO strings (YYYY-MM-DD), trimmed text, arrays for
+ * multi-value fields, formatted text for masks with `submit: 'formatted'`,
+ * coerced items for repeaters and null for anything left empty.
+ */
+export const coerceValue = (field: FormField, value: unknown): unknown => {
+    const coerced = coerce(field, value, {}, {});
+    return coerced === EMPTY ? null : coerced;
+};
+
+/**
+ * Converts raw form values into the submission payload passed to onSubmit.
+ * Only input fields in `fields` are included, so pass the visible fields
+ * (see resolveFields); fields grouped in fieldsets are included at the top level.
+ * Repeaters are submitted as a list of items with the visible fields of each.
+ * Empty fields become null or are omitted, depending on `emptyValues`.
+ */
+export const coerceSubmission = (fields: readonly FormField[], values: FormValues, options: CoercionOptions = {}): FormValues => {
+    const { emptyValues = 'null' } = options;
+    const data: FormValues = {};
+
+    flattenFields(fields).forEach(field => {
+        if (!isInputField(field)) return;
+        const coerced = coerce(field, values[field.id], values, options);
+        if (coerced !== EMPTY) {
+            data[field.id] = coerced;
+        } else if (emptyValues === 'null') {
+            data[field.id] = null;
+        }
+    });
+
+    return data;
+};
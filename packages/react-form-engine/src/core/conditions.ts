@@ -0,0 +1,89 @@
+import { Condition, ConditionRule, FormField, FormValues } from './types.js';
+import { isEmptyValue } from './values.js';
+import { flattenFields, isFieldset } from './layout.js';
+
+// Schema values are authored as strings in the builder, so compare loosely
+const valuesEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (Array.isArray(a)) return a.some(item => valuesEqual(item, b));
+    return String(a ?? '') === String(b ?? '');
+};
+
+const evaluateRule = (rule: ConditionRule, values: FormValues): boolean => {
+    const actual = values[rule.fieldId];
+
+    switch (rule.operator) {
+        case 'equals':
+            return valuesEqual(actual, rule.value);
+        case 'not-equals':
+            return !valuesEqual(actual, rule.value);
+        case 'in': {
+            const allowed = Array.isArray(rule.value) ? rule.value : [rule.value];
+            return allowed.some(item => valuesEqual(actual, item));
+        }
+        case 'greater-than': {
+            if (isEmptyValue(actual)) return false;
+            const numValue = typeof actual === 'number' ? actual : parseFloat(String(actual));
+            return !isNaN(numValue) && numValue > Number(rule.value);
+        }
+        case 'is-empty':
+            return isEmptyValue(actual);
+        default:
+            return false;
+    }
+};
+
+/**
+ * Evaluates a condition (a single rule or an all/any group) against form values.
+ * An empty group holds.
+ */
+export const evaluateCondition = (condition: Condition, values: FormValues): boolean => {
+    if ('combinator' in condition) {
+        return condition.combinator === 'any'
+            ? condition.rules.length === 0 || condition.rules.some(rule => evaluateCondition(rule, values))
+            : condition.rules.every(rule => evaluateCondition(rule, values));
+    }
+    return evaluateRule(condition, values);
+};
+
+/**
+ * Returns true when the field should be shown for the given values.
+ */
+export const isFieldVisible = (field: FormField, values: FormValues): boolean =>
+    !field.conditions?.visible || evaluateCondition(field.conditions.visible, values);
+
+/**
+ * Returns true when the field is required, either always or through its
+ * `conditions.required` rule.
+ */
+export const isFieldRequired = (field: FormField, values: FormValues): boolean =>
+    field.required || !!(field.conditions?.required && evaluateCondition(field.conditions.required, values));
+
+/**
+ * Returns the fields that are currently visible, with `required` resolved from
+ * their conditions. Fields are evaluated in schema order and the values of hidden
+ * fields are ignored, so a field depending on a hidden field sees it as empty.
+ * Fieldsets keep their visible children in `fields`, and hiding a fieldset hides
+ * all of them; flattenFields turns the result into a flat list.
+ */
+export const resolveFields = (fields: readonly FormField[], values: FormValues): FormField[] => {
+    const visibleValues: FormValues = { ...values };
+
+    const resolve = (list: readonly FormField[]): FormField[] => {
+        const resolved: FormField[] = [];
+        list.forEach(field => {
+            if (!isFieldVisible(field, visibleValues)) {
+                flattenFields([field]).forEach(hidden => delete visibleValues[hidden.id]);
+                return;
+            }
+            resolved.push({
+                ...field,
+                required: isFieldRequired(field, visibleValues),
+                ...(isFieldset(field) && field.fields && { fields: resolve(field.fields) }),
+            });
+        });
+        return resolved;
+    };
+
+    return resolve(fields);
+};
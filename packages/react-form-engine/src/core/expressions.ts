@@ -0,0 +1,562 @@
+/**
+ * Type of the value of an expression. Dates are ISO strings (YYYY-MM-DD) at
+ * runtime, lists hold the values of multi-value fields or of a field across the
+ * items of a repeater, and 'any' stands for values of unknown type, such as
+ * those of custom fields.
+ */
+export type ExpressionType = 'number' | 'text' | 'boolean' | 'date' | 'list' | 'any';
+
+/**
+ * Runtime value of an expression; null stands for an empty value.
+ */
+export type ExpressionValue = number | string | boolean | null | readonly unknown[];
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+/**
+ * Parsed expression, see parseExpression.
+ */
+export type ExpressionNode =
+    | { type: 'literal'; value: number | string | boolean | null }
+    | { type: 'reference'; name: string }
+    | { type: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+    | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+    | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+    | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type Token =
+    | { kind: 'number'; value: number; position: number }
+    | { kind: 'text' | 'name' | 'reference' | 'operator'; value: string; position: number }
+    | { kind: 'end'; position: number };
+
+// Longest first, so '<=' isn't read as '<' followed by '='
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '^', '!', '(', ')', ',', '?', ':'];
+
+const NAME = /[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)?/y;
+const NUMBER = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+// Binding power of infix operators: higher binds tighter. '^' binds tighter
+// than a leading minus, so -2^2 is -4.
+const BINDING_POWER: Record<string, number> = {
+    '?': 1,
+    '||': 2,
+    '&&': 3,
+    '==': 4, '!=': 4,
+    '<': 5, '<=': 5, '>': 5, '>=': 5,
+    '+': 6, '-': 6,
+    '*': 7, '/': 7, '%': 7,
+    '^': 9,
+};
+const UNARY_BINDING_POWER = 8;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    const matchAt = (pattern: RegExp): string | null => {
+        pattern.lastIndex = position;
+        return pattern.exec(source)?.[0] ?? null;
+    };
+
+    while (position < source.length) {
+        const char = source[position];
+        if (/\s/.test(char)) {
+            position++;
+            continue;
+        }
+
+        const number = matchAt(NUMBER);
+        if (number) {
+            tokens.push({ kind: 'number', value: parseFloat(number), position });
+            position += number.length;
+            continue;
+        }
+
+        const name = matchAt(NAME);
+        if (name) {
+            tokens.push({ kind: 'name', value: name, position });
+            position += name.length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            // A backslash escapes the next character, e.g. a quote
+            let text = '';
+            let end = position + 1;
+            while (end < source.length && source[end] !== char) {
+                if (source[end] === '\\' && end + 1 < source.length) end++;
+                text += source[end++];
+            }
+            if (end >= source.length) throw new Error(`Missing closing ${char} for the text at position ${position + 1}`);
+            tokens.push({ kind: 'text', value: text, position });
+            position = end + 1;
+            continue;
+        }
+
+        if (char === '{') {
+            // Braces refer to fields whose ID isn't a plain name, e.g. {first-name}
+            const end = source.indexOf('}', position);
+            if (end === -1) throw new Error(`Missing closing } for the field at position ${position + 1}`);
+            tokens.push({ kind: 'reference', value: source.slice(position + 1, end).trim(), position });
+            position = end + 1;
+            continue;
+        }
+
+        const operator = OPERATORS.find(candidate => source.startsWith(candidate, position));
+        if (!operator) {
+            const hint = char === '=' ? '; use == to compare values' : '';
+            throw new Error(`Unexpected "${char}" at position ${position + 1}${hint}`);
+        }
+        tokens.push({ kind: 'operator', value: operator, position });
+        position += operator.length;
+    }
+
+    tokens.push({ kind: 'end', position });
+    return tokens;
+};
+
+/**
+ * Parses an expression of calculated fields. Throws an Error describing the
+ * first syntax error.
+ *
+ * Expressions are made of numbers, text in quotes, true, false and null, field
+ * IDs (in braces when they aren't plain names, e.g. {first-name}), the operators
+ * + - * / % ^, == != < <= > >=, && || !, `test ? a : b`, parentheses, and calls
+ * of the functions listed in EXPRESSION_FUNCTIONS. `repeater.field` refers to
+ * the values of a field across the items of a repeater.
+ */
+export const parseExpression = (source: string): ExpressionNode => {
+    const tokens = tokenize(source);
+    let index = 0;
+
+    const next = () => tokens[index++];
+    const peek = () => tokens[index];
+    const isOperator = (token: Token, value: string) => token.kind === 'operator' && token.value === value;
+
+    const unexpected = (token: Token) => new Error(token.kind === 'end'
+        ? 'Unexpected end of expression'
+        : `Unexpected "${token.kind === 'text' ? JSON.stringify(token.value) : token.value}" at position ${token.position + 1}`);
+
+    const expect = (value: string) => {
+        const token = next();
+        if (!isOperator(token, value)) throw unexpected(token);
+    };
+
+    const parsePrefix = (): ExpressionNode => {
+        const token = next();
+        switch (token.kind) {
+            case 'number':
+            case 'text':
+                return { type: 'literal', value: token.value };
+            case 'reference':
+                return { type: 'reference', name: token.value };
+            case 'name': {
+                if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true' };
+                if (token.value === 'null') return { type: 'literal', value: null };
+                if (!isOperator(peek(), '(')) return { type: 'reference', name: token.value };
+
+                next();
+                const args: ExpressionNode[] = [];
+                if (!isOperator(peek(), ')')) {
+                    do {
+                        args.push(parseInfix(0));
+                    } while (isOperator(peek(), ',') && next());
+                }
+                expect(')');
+                return { type: 'call', name: token.value, args };
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    const node = parseInfix(0);
+                    expect(')');
+                    return node;
+                }
+                if (token.value === '-' || token.value === '!') {
+                    return { type: 'unary', operator: token.value, operand: parseInfix(UNARY_BINDING_POWER) };
+                }
+        }
+        throw unexpected(token);
+    };
+
+    const parseInfix = (minBindingPower: number): ExpressionNode => {
+        let left = parsePrefix();
+        for (;;) {
+            const token = peek();
+            const bindingPower = token.kind === 'operator' ? BINDING_POWER[token.value] : undefined;
+            if (token.kind !== 'operator' || bindingPower === undefined || bindingPower <= minBindingPower) return left;
+            next();
+
+            if (token.value === '?') {
+                const consequent = parseInfix(0);
+                expect(':');
+                left = { type: 'conditional', test: left, consequent, alternate: parseInfix(bindingPower - 1) };
+            } else {
+                // '^' is right-associative: 2^3^2 is 2^(3^2)
+                const right = parseInfix(token.value === '^' ? bindingPower - 1 : bindingPower);
+                left = { type: 'binary', operator: token.value as BinaryOperator, left, right };
+            }
+        }
+    };
+
+    const node = parseInfix(0);
+    if (peek().kind !== 'end') throw unexpected(peek());
+    return node;
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isTrue = (value: unknown): boolean => value === true;
+
+const parseDate = (value: unknown): number | null => {
+    const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+    return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+const today = (): string => {
+    const now = new Date();
+    const pad = (part: number) => String(part).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// Values of numbers and lists of numbers, skipping empty and non-numeric ones
+const numbersOf = (args: ExpressionValue[]): number[] =>
+    args.flatMap(arg => Array.isArray(arg) ? arg : [arg]).filter(isNumber);
+
+const numeric = (compute: (value: number) => number) => ([value]: ExpressionValue[]): ExpressionValue =>
+    isNumber(value) ? compute(value) : null;
+
+interface ExpressionFunction {
+    params: readonly (readonly ExpressionType[])[]; // Accepted types of each parameter; the last one repeats when `variadic`
+    minArgs: number;
+    variadic?: boolean;
+    returns: ExpressionType;
+    evaluate: (args: ExpressionValue[]) => ExpressionValue;
+}
+
+const NUMBER_PARAM: readonly ExpressionType[] = ['number'];
+const DATE_PARAM: readonly ExpressionType[] = ['date'];
+const NUMBERS_PARAM: readonly ExpressionType[] = ['number', 'list'];
+
+/**
+ * The functions expressions can call. Functions return null (empty) when a
+ * value they need is empty, except sum, min, max and avg, which skip empty values.
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+    round: {
+        // round(value, decimals = 0)
+        params: [NUMBER_PARAM, NUMBER_PARAM],
+        minArgs: 1,
+        returns: 'number',
+        evaluate: ([value, decimals]) => {
+            if (!isNumber(value)) return null;
+            const factor = 10 ** (isNumber(decimals) ? Math.round(decimals) : 0);
+            return Math.round((value + Number.EPSILON) * factor) / factor;
+        },
+    },
+    floor: { params: [NUMBER_PARAM], minArgs: 1, returns: 'number', evaluate: numeric(Math.floor) },
+    ceil: { params: [NUMBER_PARAM], minArgs: 1, returns: 'number', evaluate: numeric(Math.ceil) },
+    abs: { params: [NUMBER_PARAM], minArgs: 1, returns: 'number', evaluate: numeric(Math.abs) },
+    sqrt: { params: [NUMBER_PARAM], minArgs: 1, returns: 'number', evaluate: numeric(Math.sqrt) },
+    sum: {
+        params: [NUMBERS_PARAM],
+        minArgs: 1,
+        variadic: true,
+        returns: 'number',
+        evaluate: args => numbersOf(args).reduce((total, value) => total + value, 0),
+    },
+    avg: {
+        params: [NUMBERS_PARAM],
+        minArgs: 1,
+        variadic: true,
+        returns: 'number',
+        evaluate: args => {
+            const values = numbersOf(args);
+            return values.length ? values.reduce((total, value) => total + value, 0) / values.length : null;
+        },
+    },
+    min: {
+        params: [NUMBERS_PARAM],
+        minArgs: 1,
+        variadic: true,
+        returns: 'number',
+        evaluate: args => numbersOf(args).length ? Math.min(...numbersOf(args)) : null,
+    },
+    max: {
+        params: [NUMBERS_PARAM],
+        minArgs: 1,
+        variadic: true,
+        returns: 'number',
+        evaluate: args => numbersOf(args).length ? Math.max(...numbersOf(args)) : null,
+    },
+    number: {
+        // Reads a number from text, e.g. the value of a select
+        params: [['text', 'number']],
+        minArgs: 1,
+        returns: 'number',
+        evaluate: ([value]) => {
+            if (isNumber(value)) return value;
+            const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+            return isNumber(parsed) ? parsed : null;
+        },
+    },
+    len: {
+        // Length of a text or number of values of a list; empty is 0
+        params: [['text', 'list']],
+        minArgs: 1,
+        returns: 'number',
+        evaluate: ([value]) => typeof value === 'string' || Array.isArray(value) ? value.length : 0,
+    },
+    contains: {
+        // contains(list or text, value): a chosen option or a piece of text
+        params: [['list', 'text'], ['text', 'number', 'boolean']],
+        minArgs: 2,
+        returns: 'boolean',
+        evaluate: ([container, value]) => {
+            if (value === null) return false;
+            if (Array.isArray(container)) return container.some(item => String(item) === String(value));
+            return typeof container === 'string' && container.includes(String(value));
+        },
+    },
+    if: {
+        // if(test, then, else), the same as test ? then : else
+        params: [['boolean'], ['any'], ['any']],
+        minArgs: 3,
+        returns: 'any',
+        evaluate: ([test, consequent, alternate]) => isTrue(test) ? consequent : alternate,
+    },
+    today: { params: [], minArgs: 0, returns: 'date', evaluate: () => today() },
+    days: {
+        // days(from, to = today): whole days from one date to another
+        params: [DATE_PARAM, DATE_PARAM],
+        minArgs: 1,
+        returns: 'number',
+        evaluate: ([from, to]) => {
+            const start = parseDate(from);
+            const end = parseDate(to === undefined ? today() : to);
+            return start === null || end === null ? null : Math.round((end - start) / MS_PER_DAY);
+        },
+    },
+    years: {
+        // years(from, to = today): whole years from one date to another, e.g. an age
+        params: [DATE_PARAM, DATE_PARAM],
+        minArgs: 1,
+        returns: 'number',
+        evaluate: ([from, to]) => {
+            const start = parseDate(from);
+            const end = parseDate(to === undefined ? today() : to);
+            if (start === null || end === null) return null;
+            const startDate = new Date(start);
+            const endDate = new Date(end);
+            const years = endDate.getUTCFullYear() - startDate.getUTCFullYear();
+            const beforeAnniversary = endDate.getUTCMonth() < startDate.getUTCMonth()
+                || (endDate.getUTCMonth() === startDate.getUTCMonth() && endDate.getUTCDate() < startDate.getUTCDate());
+            return beforeAnniversary ? years - 1 : years;
+        },
+    },
+};
+
+const typeOfLiteral = (value: number | string | boolean | null): ExpressionType => {
+    if (value === null) return 'any';
+    if (typeof value === 'number') return 'number';
+    return typeof value === 'boolean' ? 'boolean' : 'text';
+};
+
+const describe = (type: ExpressionType): string => type === 'any' ? 'a value' : type === 'list' ? 'a list' : type === 'date' ? 'a date' : type;
+
+const accepts = (allowed: readonly ExpressionType[], type: ExpressionType): boolean =>
+    type === 'any' || allowed.includes('any') || allowed.includes(type);
+
+/**
+ * Returns the type of the value of a parsed expression, adding a message to
+ * `errors` for every unknown field or function, wrong number of arguments and
+ * value of the wrong type. `typeOf` returns the type of a referenced field, or
+ * undefined when there is no such field.
+ */
+export const checkExpressionTypes = (
+    node: ExpressionNode,
+    typeOf: (name: string) => ExpressionType | undefined,
+    errors: string[],
+): ExpressionType => {
+    const check = (child: ExpressionNode) => checkExpressionTypes(child, typeOf, errors);
+
+    switch (node.type) {
+        case 'literal':
+            return typeOfLiteral(node.value);
+        case 'reference': {
+            const type = typeOf(node.name);
+            if (type === undefined) {
+                errors.push(`Unknown field "${node.name}"`);
+                return 'any';
+            }
+            return type;
+        }
+        case 'unary': {
+            const type = check(node.operand);
+            const expected: ExpressionType = node.operator === '-' ? 'number' : 'boolean';
+            if (!accepts([expected], type)) errors.push(`"${node.operator}" needs ${describe(expected)}, got ${describe(type)}`);
+            return expected;
+        }
+        case 'conditional': {
+            const test = check(node.test);
+            if (!accepts(['boolean'], test)) errors.push(`The condition before "?" needs to be a boolean, got ${describe(test)}`);
+            const consequent = check(node.consequent);
+            const alternate = check(node.alternate);
+            return consequent === alternate ? consequent : 'any';
+        }
+        case 'binary': {
+            const left = check(node.left);
+            const right = check(node.right);
+            const mismatch = () => {
+                errors.push(`"${node.operator}" can't combine ${describe(left)} and ${describe(right)}`);
+            };
+
+            switch (node.operator) {
+                case '==':
+                case '!=':
+                    return 'boolean';
+                case '&&':
+                case '||':
+                    if (!accepts(['boolean'], left) || !accepts(['boolean'], right)) mismatch();
+                    return 'boolean';
+                case '<':
+                case '<=':
+                case '>':
+                case '>=':
+                    // Dates compare with dates written as text, e.g. '2000-01-01'
+                    if (!accepts(['number', 'text', 'date'], left) || !accepts(['number', 'text', 'date'], right)
+                        || (left !== 'any' && right !== 'any' && (left === 'number') !== (right === 'number'))) mismatch();
+                    return 'boolean';
+                case '+':
+                    // Adding text to anything joins them into text
+                    if (left === 'text' || right === 'text') return 'text';
+                    if (!accepts(['number'], left) || !accepts(['number'], right)) mismatch();
+                    return left === 'any' || right === 'any' ? 'any' : 'number';
+                default:
+                    if (!accepts(['number'], left) || !accepts(['number'], right)) mismatch();
+                    return 'number';
+            }
+        }
+        case 'call': {
+            const definition = Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, node.name)
+                ? EXPRESSION_FUNCTIONS[node.name]
+                : undefined;
+            const types = node.args.map(check);
+            if (!definition) {
+                errors.push(`Unknown function "${node.name}"`);
+                return 'any';
+            }
+
+            const maxArgs = definition.variadic ? Infinity : definition.params.length;
+            if (types.length < definition.minArgs || types.length > maxArgs) {
+                const expected = definition.minArgs === maxArgs ? `${maxArgs}`
+                    : maxArgs === Infinity ? `at least ${definition.minArgs}` : `${definition.minArgs} to ${maxArgs}`;
+                errors.push(`${node.name}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${types.length}`);
+            }
+            types.forEach((type, idx) => {
+                const allowed = definition.params[Math.min(idx, definition.params.length - 1)];
+                if (allowed && !accepts(allowed, type)) {
+                    errors.push(`${node.name}() needs ${allowed.map(describe).join(' or ')} as argument ${idx + 1}, got ${describe(type)}`);
+                }
+            });
+            // if() takes the type of its branches, like test ? a : b
+            if (node.name === 'if' && types.length === 3) return types[1] === types[2] ? types[1] : 'any';
+            return definition.returns;
+        }
+    }
+};
+
+const valuesEqual = (left: ExpressionValue, right: ExpressionValue): boolean => {
+    if (left === right) return true;
+    if (left === null || right === null || Array.isArray(left) || Array.isArray(right)) return false;
+    // Choices are text, so "2" equals 2
+    return String(left) === String(right);
+};
+
+const compare = (left: ExpressionValue, right: ExpressionValue): number | null => {
+    if (isNumber(left) && isNumber(right)) return left - right;
+    if (typeof left === 'string' && typeof right === 'string') return left < right ? -1 : left > right ? 1 : 0;
+    return null;
+};
+
+const arithmetic = (operator: BinaryOperator, left: number, right: number): number | null => {
+    switch (operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+        case '%': return right === 0 ? null : left % right;
+        case '^': return left ** right;
+        default: return null;
+    }
+};
+
+const evaluate = (node: ExpressionNode, resolve: (name: string) => ExpressionValue): ExpressionValue => {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'reference':
+            return resolve(node.name);
+        case 'unary': {
+            const operand = evaluate(node.operand, resolve);
+            if (node.operator === '!') return !isTrue(operand);
+            return isNumber(operand) ? -operand : null;
+        }
+        case 'conditional':
+            return isTrue(evaluate(node.test, resolve)) ? evaluate(node.consequent, resolve) : evaluate(node.alternate, resolve);
+        case 'binary': {
+            const left = evaluate(node.left, resolve);
+            // The right side of && and || is only evaluated when needed
+            if (node.operator === '&&') return isTrue(left) && isTrue(evaluate(node.right, resolve));
+            if (node.operator === '||') return isTrue(left) || isTrue(evaluate(node.right, resolve));
+
+            const right = evaluate(node.right, resolve);
+            switch (node.operator) {
+                case '==': return valuesEqual(left, right);
+                case '!=': return !valuesEqual(left, right);
+                case '<':
+                case '<=':
+                case '>':
+                case '>=': {
+                    const order = compare(left, right);
+                    if (order === null) return null;
+                    return node.operator === '<' ? order < 0 : node.operator === '<=' ? order <= 0 : node.operator === '>' ? order > 0 : order >= 0;
+                }
+                case '+':
+                    if ((typeof left === 'string' || typeof right === 'string') && left !== null && right !== null && !Array.isArray(left) && !Array.isArray(right)) {
+                        return `${left}${right}`;
+                    }
+                    return isNumber(left) && isNumber(right) ? left + right : null;
+                default:
+                    return isNumber(left) && isNumber(right) ? arithmetic(node.operator, left, right) : null;
+            }
+        }
+        case 'call': {
+            const definition = Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, node.name)
+                ? EXPRESSION_FUNCTIONS[node.name]
+                : undefined;
+            return definition ? definition.evaluate(node.args.map(arg => evaluate(arg, resolve))) : null;
+        }
+    }
+};
+
+/**
+ * Evaluates a parsed expression. `resolve` returns the value of a referenced
+ * field, null when it is empty. Arithmetic and comparisons with an empty value,
+ * division by zero and values of the wrong type result in null; logical
+ * operators and conditions treat anything but true as false.
+ */
+export const evaluateExpression = (node: ExpressionNode, resolve: (name: string) => ExpressionValue): ExpressionValue => {
+    const value = evaluate(node, resolve);
+    return typeof value === 'number' && !isFinite(value) ? null : value;
+};
+
+/**
+ * Returns how a field ID is written in an expression: as it is when it is a
+ * plain name, in braces otherwise, e.g. {first-name}.
+ */
+export const formatReference = (fieldId: string): string =>
+    /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(fieldId) && !['true', 'false', 'null'].includes(fieldId)
+        ? fieldId
+        : `{${fieldId}}`;
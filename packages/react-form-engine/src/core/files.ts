@@ -0,0 +1,53 @@
+import { FormField } from './types.js';
+
+// What validation needs to know about a file, true for File and UploadedFile alike
+interface FileInfo {
+    name: string;
+    size: number;
+    type: string;
+}
+
+const UNITS = ['bytes', 'KB', 'MB', 'GB'];
+
+/**
+ * Formats a size in bytes for messages, e.g. 5242880 as '5 MB'.
+ */
+export const formatFileSize = (bytes: number): string => {
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < UNITS.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? size : Number(size.toFixed(1))} ${UNITS[unit]}`;
+};
+
+/**
+ * Returns true when a file or uploaded file has the shape validation needs.
+ */
+export const isFileInfo = (value: unknown): value is FileInfo =>
+    typeof value === 'object' && value !== null
+    && typeof (value as FileInfo).name === 'string' && typeof (value as FileInfo).size === 'number';
+
+/**
+ * Checks a file against an `accept` list as used by file inputs: extensions
+ * such as '.pdf', MIME types such as 'application/pdf' and wildcards such as 'image/*'.
+ */
+export const matchesAccept = (file: FileInfo, accept: string): boolean => {
+    const tokens = accept.split(',').map(token => token.trim().toLowerCase()).filter(Boolean);
+    if (tokens.length === 0) return true;
+
+    const name = file.name.toLowerCase();
+    const type = (file.type || '').toLowerCase();
+    return tokens.some(token => {
+        if (token.startsWith('.')) return name.endsWith(token);
+        if (token.endsWith('/*')) return type.startsWith(token.slice(0, -1));
+        return type === token;
+    });
+};
+
+/**
+ * Returns true when the field accepts more than one file.
+ */
+export const acceptsMultipleFiles = (field: FormField): boolean =>
+    Boolean(field.multiple) && field.validation?.maxFiles !== 1;
@@ -0,0 +1,36 @@
+/**
+ * Framework-agnostic part of the engine: schema types, migrations, conditions,
+ * validation, messages, translations, expressions, masks, coercion and markdown. Nothing in here imports React, so it can run in Node, e.g.
+ * to validate submissions in an API route.
+ */
+export type { AddressValue, AtLeastOneRule, CompareRule, ComparisonOperator, Condition, ConditionGroup, ConditionOperator, ConditionRule, CreditCardValue, FieldLayout, FieldMask, FieldOption, FormErrors, FormField, FormRule, FormSchema, FormTranslation, FormValues, InferFormData, LayoutBreakpoint, OptionsSource, UploadedFile } from './types.js';
+export { evaluateCondition, isFieldRequired, isFieldVisible, resolveFields } from './conditions.js';
+export type { ValidationOptions } from './validation.js';
+export { getValidationMessageKeys, validateField, validateForm } from './validation.js';
+export type { MessageCatalog, MessageFormatter, MessageKey, MessageOverrides, MessageParams, MessageTemplate } from './messages.js';
+export { BUILT_IN_MESSAGES, createMessageFormatter, formatMessage, getLocaleChain, getMessage, registerMessages } from './messages.js';
+export { getMissingTranslations, getTranslatableTexts, translateSchema } from './translations.js';
+export { getRuleFieldIds, validateRules } from './rules.js';
+export { flattenFields, GRID_COLUMNS, isFieldset, LAYOUT_BREAKPOINTS, resolveSpans } from './layout.js';
+export { checkItemField, createRepeaterItem, getItemFieldId, isErrorOfField, isRepeater, moveItemErrors, resolveItemFields } from './repeaters.js';
+export type { BinaryOperator, ExpressionNode, ExpressionType, ExpressionValue } from './expressions.js';
+export { checkExpressionTypes, evaluateExpression, EXPRESSION_FUNCTIONS, formatReference, parseExpression } from './expressions.js';
+export type { ExpressionCheck, ExpressionReference } from './calculations.js';
+export { applyCalculations, checkCalculatedField, getExpressionReferences, isCalculatedField } from './calculations.js';
+export type { FormStep } from './steps.js';
+export { isPageBreak, splitIntoSteps } from './steps.js';
+export type { MigrateSchemaOptions, SchemaMigration } from './schema.js';
+export { migrateSchema, SCHEMA_VERSION } from './schema.js';
+export type { FromJsonSchemaOptions, JsonSchema } from './jsonSchema.js';
+export { fromJsonSchema, toJsonSchema } from './jsonSchema.js';
+export { formatMaskedValue, isMaskComplete, PHONE_FORMATS, resolveMask, unmaskValue, unmaskValues } from './masks.js';
+export type { OptionsLoader, OptionsRequest } from './options.js';
+export { clearOptionsCache, getFieldOptions, getOptionsRequest, getOptionValues, loadOptions, normalizeOption } from './options.js';
+export { acceptsMultipleFiles, formatFileSize, matchesAccept } from './files.js';
+export { getDefaultValue, getInitialValues, isContentBlock, isEmptyValue, isInputField, OTHER_OPTION_LABEL } from './values.js';
+export type { MarkdownBlock, MarkdownInline } from './markdown.js';
+export { isSafeUrl, parseMarkdown } from './markdown.js';
+export type { CoercionOptions, EmptyValueMode } from './coercion.js';
+export { coerceSubmission, coerceValue, toIsoDate } from './coercion.js';
+export type { SubmissionResult, ValidateSubmissionOptions } from './submission.js';
+export { validateSubmission } from './submission.js';
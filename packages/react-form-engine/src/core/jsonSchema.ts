@@ -0,0 +1,478 @@
+import { AddressValue, CreditCardValue, FieldOption, FormField, FormSchema, UploadedFile } from './types.js';
+import { isInputField } from './values.js';
+import { PHONE_REGEX } from './validation.js';
+import { SCHEMA_VERSION } from './schema.js';
+import { resolveMask } from './masks.js';
+import { getFieldOptions } from './options.js';
+import { acceptsMultipleFiles } from './files.js';
+import { flattenFields } from './layout.js';
+import { checkCalculatedField } from './calculations.js';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) keywords the converters read and write.
+ */
+export interface JsonSchema {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    $defs?: Record<string, JsonSchema>;
+    definitions?: Record<string, JsonSchema>; // Pre-2019 name of $defs, still common in the wild
+    title?: string;
+    description?: string;
+    examples?: unknown[];
+    type?: string | string[];
+    enum?: readonly unknown[];
+    const?: unknown;
+    format?: string;
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    allOf?: JsonSchema[];
+    [keyword: string]: unknown;
+}
+
+export interface FromJsonSchemaOptions {
+    // Called for every property that is skipped: one with no matching field type,
+    // or a list whose items refer back to an enclosing definition. Defaults to console.warn.
+    onWarning?: (message: string) => void;
+}
+
+const CARD_EXPIRY_PATTERN = '^(0[1-9]|1[0-2])\\s*/\\s*\\d{2}$';
+const CARD_CVC_PATTERN = '^\\d{3,4}$';
+const CARD_NUMBER_PATTERN = '^[\\d\\s-]{12,23}$';
+
+// Key order matches the inputs rendered by AddressField and CreditCardField
+const ADDRESS_PARTS: (keyof AddressValue)[] = ['street', 'city', 'state', 'postalCode', 'country'];
+const CREDIT_CARD_PARTS: (keyof CreditCardValue)[] = ['number', 'name', 'expiry', 'cvc'];
+const UPLOADED_FILE_PARTS: (keyof UploadedFile)[] = ['name', 'size', 'type', 'reference'];
+
+// Strings longer than this are edited in a textarea when importing
+const TEXTAREA_MIN_LENGTH = 200;
+
+const isFieldRequiredStatically = (field: FormField): boolean =>
+    Boolean(field.required || field.validation?.required);
+
+const objectSchema = (parts: string[], partSchema: (part: string) => JsonSchema): JsonSchema => ({
+    type: 'object',
+    properties: parts.reduce((properties, part) => {
+        properties[part] = partSchema(part);
+        return properties;
+    }, {} as Record<string, JsonSchema>),
+    required: parts,
+    additionalProperties: false,
+});
+
+// Optional fields left empty are submitted as null (see coerceSubmission),
+// except checkboxes and lists, which always have a value
+const nullable = (field: FormField, schema: JsonSchema): JsonSchema => {
+    if (field.type === 'checkbox' || schema.type === 'array' || schema.type === undefined) return schema;
+    return {
+        ...schema,
+        type: [schema.type as string, 'null'],
+        ...(schema.enum && { enum: [...schema.enum, null] }),
+        ...(schema.oneOf && { oneOf: [...schema.oneOf, { const: null }] }),
+    };
+};
+
+const stringSchema = (field: FormField, required: boolean): JsonSchema => {
+    const rules = field.validation || {};
+    const schema: JsonSchema = { type: 'string' };
+    const patterns: string[] = [];
+
+    if (field.type === 'date') schema.format = 'date';
+    if (field.type === 'email' || rules.email) schema.format = 'email';
+    if (field.type === 'url' || rules.url) schema.format = 'uri';
+    if (field.type === 'phone' || rules.phone) patterns.push(PHONE_REGEX.source);
+    if (rules.pattern) patterns.push(rules.pattern);
+
+    // The engine treats a blank string as "not filled in"
+    const minLength = Math.max(rules.minLength ?? 0, required ? 1 : 0);
+    if (minLength > 0) schema.minLength = minLength;
+    if (rules.maxLength !== undefined) schema.maxLength = rules.maxLength;
+
+    // Only one `pattern` keyword is allowed per schema, further ones go into allOf
+    if (patterns.length > 0) schema.pattern = patterns[0];
+    if (patterns.length > 1) schema.allOf = patterns.slice(1).map(pattern => ({ pattern }));
+
+    return schema;
+};
+
+// Options as `const` values titled with their labels, which fromJsonSchema reads back.
+// Loaded options are only known at runtime, so any text is allowed then.
+const optionsSchema = (field: FormField): JsonSchema => field.optionsSource
+    ? { type: 'string' }
+    : { type: 'string', oneOf: getFieldOptions(field).map(option => ({ const: option.value, title: option.label })) };
+
+// `rootFields` are the fields of the whole form, which calculated fields can refer to
+const fieldToJsonSchema = (field: FormField, required: boolean, rootFields: readonly FormField[]): JsonSchema => {
+    const rules = field.validation || {};
+
+    const schema: JsonSchema = (() => {
+        // Formatted text has no fixed shape to describe
+        if (resolveMask(field)?.submit === 'formatted') {
+            return required ? { type: 'string', minLength: 1 } : { type: 'string' };
+        }
+
+        switch (field.type) {
+            case 'number':
+                return {
+                    type: 'number',
+                    ...(rules.min !== undefined && { minimum: rules.min }),
+                    ...(rules.max !== undefined && { maximum: rules.max }),
+                };
+            case 'select':
+            case 'radio':
+                return optionsSchema(field);
+            case 'checkbox-group':
+            case 'multi-select':
+                // An optional field may stay empty even with minSelections, which minItems can't express
+                return {
+                    type: 'array',
+                    items: field.allowOther ? { type: 'string' } : optionsSchema(field),
+                    uniqueItems: true,
+                    ...(required && { minItems: Math.max(rules.minSelections ?? 1, 1) }),
+                    ...(rules.maxSelections !== undefined && { maxItems: rules.maxSelections }),
+                };
+            case 'checkbox':
+                return required ? { type: 'boolean', const: true } : { type: 'boolean' };
+            case 'rating':
+                return {
+                    type: 'integer',
+                    minimum: rules.min ?? 1,
+                    maximum: rules.max ?? 5,
+                };
+            case 'file':
+                // JSON can't carry File objects, so this describes files after the uploader stored them
+                return {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string' },
+                            size: { type: 'integer', ...(rules.maxFileSize !== undefined && { maximum: rules.maxFileSize }) },
+                            type: { type: 'string' },
+                            reference: {},
+                        },
+                        required: UPLOADED_FILE_PARTS,
+                    },
+                    ...(required && { minItems: 1 }),
+                    ...(!acceptsMultipleFiles(field) ? { maxItems: 1 } : rules.maxFiles !== undefined && { maxItems: rules.maxFiles }),
+                };
+            case 'repeater':
+                // Like choices, an optional repeater may stay empty even with minItems
+                return {
+                    type: 'array',
+                    items: fieldsToJsonSchema(field.fields || [], rootFields),
+                    ...(required && { minItems: Math.max(rules.minItems ?? 1, 1) }),
+                    ...(rules.maxItems !== undefined && { maxItems: rules.maxItems }),
+                };
+            case 'address':
+                // Every part is always submitted; the state is optional as in the renderer
+                return objectSchema(ADDRESS_PARTS, part => (
+                    required && part !== 'state' ? { type: 'string', minLength: 1 } : { type: 'string' }
+                ));
+            case 'credit-card':
+                return objectSchema(CREDIT_CARD_PARTS, part => {
+                    if (!required) return { type: 'string' };
+                    switch (part) {
+                        case 'number': return { type: 'string', pattern: CARD_NUMBER_PATTERN };
+                        case 'expiry': return { type: 'string', pattern: CARD_EXPIRY_PATTERN };
+                        case 'cvc': return { type: 'string', pattern: CARD_CVC_PATTERN };
+                        default: return { type: 'string', minLength: 1 };
+                    }
+                });
+            case 'calculated': {
+                // Computed by the engine, so only the type of the result is known
+                const { type } = checkCalculatedField(field, rootFields);
+                const schema: JsonSchema = type === 'number' ? { type: 'number' }
+                    : type === 'text' ? { type: 'string' }
+                    : type === 'date' ? { type: 'string', format: 'date' }
+                    : type === 'boolean' ? { type: 'boolean' }
+                    : type === 'list' ? { type: 'array' }
+                    : {};
+                return { ...schema, readOnly: true };
+            }
+            case 'text':
+            case 'textarea':
+            case 'email':
+            case 'url':
+            case 'phone':
+            case 'date':
+                return stringSchema(field, required);
+            default:
+                // Custom field types can hold any value
+                return {};
+        }
+    })();
+
+    return { title: field.label, ...(required ? schema : nullable(field, schema)) };
+};
+
+// The submitted object of a list of fields: the whole form, or an item of a repeater
+const fieldsToJsonSchema = (fields: readonly FormField[], rootFields: readonly FormField[] = fields): JsonSchema => {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    flattenFields(fields).filter(isInputField).forEach(field => {
+        const isRequired = isFieldRequiredStatically(field) && !field.conditions?.visible;
+        properties[field.id] = fieldToJsonSchema(field, isRequired, rootFields);
+        if (isRequired) {
+            required.push(field.id);
+        }
+    });
+
+    return { type: 'object', properties, required, additionalProperties: false };
+};
+
+/**
+ * Converts a form schema into a JSON Schema (draft 2020-12) describing the
+ * object passed to onSubmit, e.g. to validate submissions on a server.
+ * Repeaters are arrays of objects with a property per field of the repeater,
+ * and calculated fields are `readOnly` properties typed after their expression.
+ *
+ * Conditions cannot be expressed statically: a field with a visibility
+ * condition may be left out of the submission, so it is never listed as
+ * required, and conditional requiredness is not enforced. Neither are the
+ * cross-field `rules`.
+ */
+export const toJsonSchema = (formSchema: FormSchema): JsonSchema => ({
+    $schema: JSON_SCHEMA_DIALECT,
+    title: formSchema.formName,
+    ...fieldsToJsonSchema(formSchema.formFields),
+});
+
+// Turns "postalCode" or "postal_code" into "Postal Code"
+const humanize = (key: string): string =>
+    key
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/[_-]+/g, ' ')
+        .trim()
+        .replace(/\b\w/g, letter => letter.toUpperCase());
+
+// `refs` collects the references followed, which tells recursive definitions apart
+const resolveRef = (schema: JsonSchema, root: JsonSchema, refs: string[] = []): JsonSchema => {
+    if (!schema.$ref) return schema;
+    if (refs.includes(schema.$ref)) {
+        throw new Error(`Circular JSON Schema reference "${schema.$ref}"`);
+    }
+
+    // Only local references into $defs/definitions are supported
+    const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(schema.$ref);
+    const target = match ? root[match[1]] as Record<string, JsonSchema> | undefined : undefined;
+    const resolved = match && target?.[decodeURIComponent(match[2])];
+    if (!resolved) {
+        throw new Error(`Unsupported JSON Schema reference "${schema.$ref}"`);
+    }
+
+    const { $ref, ...rest } = schema;
+    refs.push($ref);
+    return resolveRef({ ...resolved, ...rest }, root, refs);
+};
+
+// Unwraps `anyOf: [X, { type: 'null' }]` and `type: [X, 'null']` into X
+const stripNull = (schema: JsonSchema): JsonSchema => {
+    const variants = schema.anyOf || schema.oneOf;
+    if (variants) {
+        const nonNull = variants.filter(variant => variant.type !== 'null');
+        if (nonNull.length === 1) {
+            const { anyOf, oneOf, ...rest } = schema;
+            return stripNull({ ...rest, ...nonNull[0] });
+        }
+    }
+
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter(type => type !== 'null');
+        return { ...schema, type: types.length === 1 ? types[0] : types };
+    }
+
+    return schema;
+};
+
+const isNullable = (schema: JsonSchema): boolean =>
+    (Array.isArray(schema.type) && schema.type.includes('null'))
+    || Boolean((schema.anyOf || schema.oneOf)?.some(variant => variant.type === 'null'));
+
+const hasParts = (schema: JsonSchema, parts: string[]): boolean =>
+    Boolean(schema.properties) && parts.every(part => part in schema.properties!);
+
+// Reads `enum`, or a `oneOf`/`anyOf` list of `const` values whose `title` becomes the label
+const getEnumOptions = (schema: JsonSchema): (string | FieldOption)[] | null => {
+    if (Array.isArray(schema.enum)) {
+        return schema.enum.filter(option => option !== null).map(String);
+    }
+
+    const variants = (schema.oneOf || schema.anyOf)?.filter(variant => variant.type !== 'null' && variant.const !== null);
+    if (!variants?.length || !variants.every(variant => 'const' in variant)) return null;
+    return variants.map(variant => {
+        const value = String(variant.const);
+        return variant.title && variant.title !== value ? { label: variant.title, value } : value;
+    });
+};
+
+// Picks the field type and validation rules for a property, or null when there is none
+const propertyToField = (schema: JsonSchema): Pick<FormField, 'type' | 'options' | 'validation' | 'multiple'> | null => {
+    const validation: NonNullable<FormField['validation']> = {};
+
+    const options = getEnumOptions(schema);
+    if (options) {
+        return { type: 'select', options };
+    }
+
+    switch (schema.type) {
+        case 'boolean':
+            return { type: 'checkbox' };
+        case 'integer':
+        case 'number':
+            if (schema.minimum !== undefined) validation.min = schema.minimum;
+            if (schema.maximum !== undefined) validation.max = schema.maximum;
+            return { type: 'number', validation };
+        case 'string': {
+            if (schema.format === 'binary') return { type: 'file' };
+            if (schema.minLength !== undefined && schema.minLength > 1) validation.minLength = schema.minLength;
+            if (schema.maxLength !== undefined) validation.maxLength = schema.maxLength;
+
+            if (schema.pattern === PHONE_REGEX.source) return { type: 'phone', validation };
+            if (schema.pattern) validation.pattern = schema.pattern;
+
+            switch (schema.format) {
+                case 'email':
+                case 'idn-email':
+                    return { type: 'email', validation };
+                case 'uri':
+                case 'iri':
+                case 'url':
+                    return { type: 'url', validation };
+                case 'date':
+                    return { type: 'date', validation };
+            }
+            const isLongText = schema.maxLength !== undefined && schema.maxLength > TEXTAREA_MIN_LENGTH;
+            return { type: isLongText ? 'textarea' : 'text', validation };
+        }
+        case 'array':
+            if (schema.items?.format === 'binary' || (schema.items && hasParts(schema.items, UPLOADED_FILE_PARTS))) {
+                const maxFileSize = schema.items?.properties?.size?.maximum;
+                if (maxFileSize !== undefined) validation.maxFileSize = maxFileSize;
+                if (schema.maxItems !== undefined && schema.maxItems > 1) validation.maxFiles = schema.maxItems;
+                return { type: 'file', validation, ...(schema.maxItems !== 1 && { multiple: true }) };
+            }
+            const itemOptions = schema.items && getEnumOptions(schema.items);
+            if (itemOptions) {
+                // A required list needs one item anyway, so only larger minimums are kept
+                if (schema.minItems !== undefined && schema.minItems > 1) validation.minSelections = schema.minItems;
+                if (schema.maxItems !== undefined) validation.maxSelections = schema.maxItems;
+                return { type: 'checkbox-group', options: itemOptions, validation };
+            }
+            // Lists of objects become repeaters; their fields are read from `items`
+            if (schema.items?.properties) {
+                if (schema.minItems !== undefined && schema.minItems > 1) validation.minItems = schema.minItems;
+                if (schema.maxItems !== undefined) validation.maxItems = schema.maxItems;
+                return { type: 'repeater', validation };
+            }
+            return null;
+        case 'object':
+            if (hasParts(schema, ADDRESS_PARTS)) return { type: 'address' };
+            if (hasParts(schema, CREDIT_CARD_PARTS)) return { type: 'credit-card' };
+            return null;
+        default:
+            return null;
+    }
+};
+
+// One field per property of an object schema; `path` prefixes the property names in warnings,
+// and `ancestors` are the references resolved to reach the object, e.g. through repeaters
+const propertiesToFields = (
+    objectSchema: JsonSchema,
+    root: JsonSchema,
+    onWarning: (message: string) => void,
+    path: string,
+    ancestors: readonly string[],
+): FormField[] => {
+    const required = new Set(objectSchema.required || []);
+    const fields: FormField[] = [];
+
+    Object.entries(objectSchema.properties || {}).forEach(([key, property]) => {
+        const refs: string[] = [];
+        const itemRefs: string[] = [];
+        const resolved = resolveRef(property, root, refs);
+        const schema = stripNull(resolved);
+        const items = schema.items && resolveRef(schema.items, root, itemRefs);
+        const fieldType = propertyToField(items ? { ...schema, items } : schema);
+
+        if (!fieldType) {
+            onWarning(`Property "${path}${key}" has no matching field type and was skipped`);
+            return;
+        }
+
+        // A tree of items, such as a category with subcategories, would nest repeaters endlessly
+        const recursiveRef = fieldType.type === 'repeater' && [...refs, ...itemRefs].find(ref => ancestors.includes(ref));
+        if (recursiveRef) {
+            onWarning(`Property "${path}${key}" refers back to "${recursiveRef}" and was skipped`);
+            return;
+        }
+
+        const field: FormField = {
+            id: key,
+            type: fieldType.type,
+            label: schema.title || humanize(key),
+            required: required.has(key),
+        };
+
+        // Small nullable integer ranges are what toJsonSchema writes for ratings
+        if (field.type === 'number' && schema.type === 'integer' && isNullable(resolved)
+            && schema.maximum !== undefined && schema.maximum <= 10) {
+            field.type = 'rating';
+        }
+
+        if (schema.examples?.length) field.placeholder = String(schema.examples[0]);
+        if (fieldType.options) field.options = fieldType.options;
+        if (fieldType.multiple) field.multiple = true;
+        if (fieldType.validation && Object.keys(fieldType.validation).length > 0) {
+            field.validation = fieldType.validation;
+        }
+        if (field.type === 'repeater' && items) {
+            field.fields = propertiesToFields(items, root, onWarning, `${path}${key}.`, [...ancestors, ...refs, ...itemRefs]);
+        }
+
+        fields.push(field);
+    });
+
+    return fields;
+};
+
+/**
+ * Builds a form schema from a JSON Schema describing an object, one field per
+ * property in property order. Field types are derived from `type`, `enum` and
+ * `format`, labels from `title` (or the property name), placeholders from
+ * `examples`, and a submit button is added at the end. Arrays of objects become
+ * repeaters with a field per property of their items. Properties without a matching field type are skipped and
+ * reported through `onWarning`, like lists whose items refer back to an enclosing definition.
+ */
+export const fromJsonSchema = (jsonSchema: JsonSchema, { onWarning = console.warn }: FromJsonSchemaOptions = {}): FormSchema => {
+    const refs: string[] = [];
+    const root = typeof jsonSchema === 'object' && jsonSchema !== null ? resolveRef(jsonSchema, jsonSchema, refs) : {};
+    if (!root.properties || (root.type !== undefined && root.type !== 'object')) {
+        throw new Error('Invalid JSON Schema: expected an object schema with properties');
+    }
+
+    const formFields = propertiesToFields(root, jsonSchema, onWarning, '', refs);
+    formFields.push({ id: 'submit', type: 'submit-button', label: 'Submit', required: false });
+
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        formName: root.title || 'Imported Form',
+        formFields,
+    };
+};
@@ -0,0 +1,70 @@
+import { Condition, FieldLayout, FormField, LayoutBreakpoint } from './types.js';
+
+/**
+ * Number of columns of the layout grid.
+ */
+export const GRID_COLUMNS = 12;
+
+/**
+ * Breakpoints of the layout grid, from the smallest screen up.
+ */
+export const LAYOUT_BREAKPOINTS: readonly LayoutBreakpoint[] = ['base', 'sm', 'md', 'lg'];
+
+/**
+ * Returns true when the field groups other fields under a legend.
+ */
+export const isFieldset = (field: FormField): boolean => field.type === 'fieldset';
+
+// Children of a conditionally shown fieldset are only shown along with it
+const withParentCondition = (field: FormField, parentCondition: Condition): FormField => {
+    const visible = field.conditions?.visible;
+    return {
+        ...field,
+        conditions: {
+            ...field.conditions,
+            visible: visible ? { combinator: 'all', rules: [parentCondition, visible] } : parentCondition,
+        },
+    };
+};
+
+/**
+ * Returns the fields together with the fields grouped in fieldsets, each
+ * fieldset followed by its children, e.g. to look up a field by ID. Fieldsets
+ * only group fields visually, so values are keyed by the IDs of all of them.
+ * A child of a fieldset with a `conditions.visible` rule gets that rule too.
+ */
+export const flattenFields = (fields: readonly FormField[]): FormField[] => {
+    const flat: FormField[] = [];
+
+    fields.forEach(field => {
+        flat.push(field);
+        if (!isFieldset(field) || !field.fields) return;
+
+        const parentCondition = field.conditions?.visible;
+        flattenFields(field.fields).forEach(child => {
+            flat.push(parentCondition ? withParentCondition(child, parentCondition) : child);
+        });
+    });
+
+    return flat;
+};
+
+/**
+ * Resolves the columns a field spans at every breakpoint: a breakpoint without
+ * a span takes the one of the next smaller breakpoint, and fields take the
+ * full width by default. Spans are rounded and kept between 1 and 12.
+ */
+export const resolveSpans = (layout?: FieldLayout): Record<LayoutBreakpoint, number> => {
+    const spans = {} as Record<LayoutBreakpoint, number>;
+    let span = GRID_COLUMNS;
+
+    LAYOUT_BREAKPOINTS.forEach(breakpoint => {
+        const value = typeof layout?.span === 'number' ? layout.span : layout?.span?.[breakpoint];
+        if (typeof value === 'number' && !isNaN(value)) {
+            span = Math.min(GRID_COLUMNS, Math.max(1, Math.round(value)));
+        }
+        spans[breakpoint] = span;
+    });
+
+    return spans;
+};
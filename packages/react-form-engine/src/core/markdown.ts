@@ -0,0 +1,100 @@
+/**
+ * Inline content of formatted text. Text is never interpreted as HTML.
+ */
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'strong' | 'emphasis'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | { type: 'break' };
+
+export type MarkdownBlock =
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+// In order: escaped character, `code`, **strong**, *emphasis*, [text](url), line break
+const INLINE_TOKENS = /\\([\\`*_[\]()])|`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]]+)\]\(([^)\s]+)\)|\n/g;
+
+const LIST_ITEM = /^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/;
+
+/**
+ * Returns true for URLs that are safe to link to: http(s), mailto and tel URLs,
+ * and relative ones. Anything else, such as javascript: URLs, is shown as text.
+ */
+export const isSafeUrl = (url: string): boolean =>
+    !/^[a-z][a-z\d+.-]*:/i.test(url.trim()) || /^(https?|mailto|tel):/i.test(url.trim());
+
+const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    const pushText = (value: string) => {
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'text') last.text += value;
+        else if (value) nodes.push({ type: 'text', text: value });
+    };
+
+    const pattern = new RegExp(INLINE_TOKENS.source, 'g');
+    let end = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+        const [token, escaped, code, strong, emphasis, linkText, href] = match;
+        pushText(text.slice(end, match.index));
+        end = match.index + token.length;
+
+        if (escaped !== undefined) pushText(escaped);
+        else if (code !== undefined) nodes.push({ type: 'code', text: code });
+        else if (strong !== undefined) nodes.push({ type: 'strong', children: parseInline(strong) });
+        else if (emphasis !== undefined) nodes.push({ type: 'emphasis', children: parseInline(emphasis) });
+        else if (linkText !== undefined) {
+            if (isSafeUrl(href)) nodes.push({ type: 'link', href, children: parseInline(linkText) });
+            else pushText(linkText);
+        } else nodes.push({ type: 'break' });
+    }
+    pushText(text.slice(end));
+
+    return nodes;
+};
+
+/**
+ * Parses the markdown subset of content blocks: paragraphs separated by blank
+ * lines, line breaks, **bold**, *italic*, `code`, [links](https://example.com)
+ * and bulleted or numbered lists. Other markdown, including HTML, stays plain text.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+    let list: { ordered: boolean; items: string[] } | null = null;
+
+    const flush = () => {
+        if (paragraph.length > 0) {
+            blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+            paragraph = [];
+        }
+        if (list) {
+            blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+            list = null;
+        }
+    };
+
+    source.split(/\r?\n/).forEach(line => {
+        if (line.trim() === '') {
+            flush();
+            return;
+        }
+
+        const item = LIST_ITEM.exec(line);
+        if (item) {
+            const ordered = item[1] !== undefined;
+            if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+            list = list || { ordered, items: [] };
+            list.items.push(item[2]);
+        } else if (list) {
+            // A line right below an item continues it
+            list.items[list.items.length - 1] += `\n${line.trim()}`;
+        } else {
+            paragraph.push(line.trim());
+        }
+    });
+    flush();
+
+    return blocks;
+};
@@ -0,0 +1,228 @@
+import { FieldMask, FormField, FormValues } from './types.js';
+import { flattenFields } from './layout.js';
+import { isRepeater } from './repeaters.js';
+
+/**
+ * National phone number formats used by `{ type: 'phone', country }` masks.
+ * Numbers typed with a leading '+' are kept as digits without a format.
+ */
+export const PHONE_FORMATS: Readonly<Record<string, string>> = Object.freeze({
+    US: '(999) 999-9999',
+    CA: '(999) 999-9999',
+    MX: '99 9999 9999',
+    BR: '(99) 99999-9999',
+    GB: '99999 999999',
+    IE: '999 999 9999',
+    FR: '99 99 99 99 99',
+    DE: '9999 9999999',
+    ES: '999 99 99 99',
+    IT: '999 999 9999',
+    NL: '999 999 9999',
+    IN: '99999 99999',
+    JP: '999-9999-9999',
+    AU: '9999 999 999',
+});
+
+// Characters standing for one typed character in a pattern
+const SLOTS: Record<string, RegExp> = {
+    '9': /\d/,
+    a: /[a-z]/i,
+    '*': /[a-z\d]/i,
+};
+
+// Card numbers have at most 19 digits; American Express groups them differently
+const MAX_CARD_DIGITS = 19;
+const AMEX_GROUPS = [4, 6, 5];
+const CARD_GROUPS = [4, 4, 4, 4, 3];
+
+// E.164 allows at most 15 digits
+const MAX_PHONE_DIGITS = 15;
+
+// Number masks without a locale use this one rather than the runtime's, so formatted
+// values read the same in the browser and on the server
+const DEFAULT_NUMBER_LOCALE = 'en-US';
+
+/**
+ * Returns the mask of a field in its object form, or undefined when it has none.
+ */
+export const resolveMask = (field: FormField): FieldMask | undefined => {
+    if (!field.mask) return undefined;
+    return typeof field.mask === 'string' ? { type: 'pattern', pattern: field.mask } : field.mask;
+};
+
+// Fits the characters of `text` into the slots of `pattern` in order, skipping
+// characters that fit no slot. Literals are inserted, or consumed when typed.
+const applyPattern = (pattern: string, text: string): { formatted: string; raw: string } => {
+    let formatted = '';
+    let raw = '';
+    let end = 0; // Length of `formatted` up to the last filled slot
+    let index = 0;
+
+    for (const token of pattern) {
+        if (index >= text.length) break;
+        const slot = SLOTS[token];
+        if (!slot) {
+            formatted += token;
+            if (text[index] === token) index++;
+            continue;
+        }
+        while (index < text.length && !slot.test(text[index])) index++;
+        if (index >= text.length) break;
+        formatted += text[index];
+        raw += text[index];
+        end = formatted.length;
+        index++;
+    }
+
+    // Literals are only shown once a character follows them
+    return { formatted: formatted.slice(0, end), raw };
+};
+
+const getPhonePattern = (mask: FieldMask): string | undefined => PHONE_FORMATS[(mask.country || 'US').toUpperCase()];
+
+const isInternational = (text: string): boolean => text.trim().startsWith('+');
+
+const getSeparators = (locale?: string): { decimal: string } => {
+    const parts = new Intl.NumberFormat(locale || DEFAULT_NUMBER_LOCALE).formatToParts(1.5);
+    return { decimal: parts.find(part => part.type === 'decimal')?.value || '.' };
+};
+
+const getMaxDecimals = (mask: FieldMask): number | undefined =>
+    mask.decimals ?? (mask.type === 'currency' ? 2 : undefined);
+
+// Raw numbers are plain decimals such as '-1234.5', whatever the locale
+const unmaskNumber = (mask: FieldMask, text: string): string => {
+    const { decimal } = getSeparators(mask.locale);
+    const maxDecimals = getMaxDecimals(mask);
+    const firstDigit = text.search(/\d/);
+    const negative = text.slice(0, firstDigit === -1 ? text.length : firstDigit).includes('-');
+
+    let integer = '';
+    let fraction: string | undefined;
+    for (const char of text) {
+        if (/\d/.test(char)) {
+            if (fraction === undefined) integer += char;
+            else if (maxDecimals === undefined || fraction.length < maxDecimals) fraction += char;
+        } else if (char === decimal && fraction === undefined && maxDecimals !== 0) {
+            fraction = '';
+        }
+    }
+
+    return (negative ? '-' : '') + integer + (fraction !== undefined ? `.${fraction}` : '');
+};
+
+const formatNumber = (mask: FieldMask, raw: string): string => {
+    const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(raw);
+    if (!match) return raw;
+    const [, sign, integer, fraction] = match;
+    if (!integer && fraction === undefined) return sign;
+
+    const formatter = new Intl.NumberFormat(mask.locale || DEFAULT_NUMBER_LOCALE, {
+        ...(mask.type === 'currency' && { style: 'currency', currency: mask.currency || 'USD' }),
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+    });
+
+    // The integer part is formatted by Intl; decimals are kept exactly as typed
+    let formatted = '';
+    let integerEnd = 0;
+    formatter.formatToParts(Number(sign + (integer || '0'))).forEach(part => {
+        formatted += part.value;
+        if (part.type === 'integer' || part.type === 'group') integerEnd = formatted.length;
+    });
+    if (fraction === undefined) return formatted;
+    return formatted.slice(0, integerEnd) + getSeparators(mask.locale).decimal + fraction + formatted.slice(integerEnd);
+};
+
+const formatCardNumber = (digits: string): string => {
+    const groups = /^3[47]/.test(digits) ? AMEX_GROUPS : CARD_GROUPS;
+    const parts: string[] = [];
+    let start = 0;
+    for (const size of groups) {
+        if (start >= digits.length) break;
+        parts.push(digits.slice(start, start + size));
+        start += size;
+    }
+    return parts.join(' ');
+};
+
+/**
+ * Extracts the raw value from text typed into a masked input, or from a
+ * formatted value. Characters that fit the mask nowhere are dropped.
+ */
+export const unmaskValue = (mask: FieldMask, text: string): string => {
+    switch (mask.type) {
+        case 'pattern':
+            return applyPattern(mask.pattern || '', text).raw;
+        case 'phone': {
+            const digits = text.replace(/\D/g, '').slice(0, MAX_PHONE_DIGITS);
+            if (isInternational(text)) return `+${digits}`;
+            const pattern = getPhonePattern(mask);
+            return pattern ? applyPattern(pattern, digits).raw : digits;
+        }
+        case 'card':
+            return text.replace(/\D/g, '').slice(0, MAX_CARD_DIGITS);
+        case 'number':
+        case 'currency':
+            return unmaskNumber(mask, text);
+        default:
+            return text;
+    }
+};
+
+/**
+ * Formats a raw value for display, e.g. '5551234567' as '(555) 123-4567' or
+ * '1234.5' as '$1,234.5'. Incomplete values are formatted as far as they go.
+ */
+export const formatMaskedValue = (mask: FieldMask, raw: string): string => {
+    if (raw === '') return '';
+    switch (mask.type) {
+        case 'pattern':
+            return applyPattern(mask.pattern || '', raw).formatted;
+        case 'phone': {
+            const pattern = getPhonePattern(mask);
+            return pattern && !isInternational(raw) ? applyPattern(pattern, raw).formatted : raw;
+        }
+        case 'card':
+            return formatCardNumber(raw.replace(/\D/g, ''));
+        case 'number':
+        case 'currency':
+            return formatNumber(mask, raw);
+        default:
+            return raw;
+    }
+};
+
+/**
+ * Returns false when a raw value leaves slots of a pattern or national phone
+ * format unfilled. Other masks don't have a fixed length.
+ */
+export const isMaskComplete = (mask: FieldMask, raw: string): boolean => {
+    const pattern = mask.type === 'pattern' ? mask.pattern
+        : mask.type === 'phone' && !isInternational(raw) ? getPhonePattern(mask)
+        : undefined;
+    if (!pattern) return true;
+    const slotCount = Array.from(pattern).filter(token => token in SLOTS).length;
+    return unmaskValue(mask, raw).length >= slotCount;
+};
+
+/**
+ * Turns the formatted values of fields whose mask has `submit: 'formatted'`
+ * back into raw values, e.g. to validate an onSubmit payload on the server.
+ */
+export const unmaskValues = (fields: readonly FormField[], values: FormValues): FormValues => {
+    const raw: FormValues = { ...values };
+    flattenFields(fields).forEach(field => {
+        // Items of repeaters are unmasked field by field too
+        if (isRepeater(field) && Array.isArray(raw[field.id])) {
+            raw[field.id] = raw[field.id].map((item: FormValues) =>
+                typeof item === 'object' && item !== null ? unmaskValues(field.fields || [], item) : item);
+            return;
+        }
+        const mask = resolveMask(field);
+        if (mask?.submit === 'formatted' && typeof raw[field.id] === 'string') {
+            raw[field.id] = unmaskValue(mask, raw[field.id]);
+        }
+    });
+    return raw;
+};
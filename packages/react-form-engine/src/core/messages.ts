@@ -0,0 +1,446 @@
+/**
+ * Text of a built-in message with `{name}` placeholders, e.g. '{label} is required'.
+ * Messages about a number of things have a form per plural category of the
+ * language, picked by the `count` parameter.
+ */
+export type MessageTemplate = string | Readonly<Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }>;
+
+/**
+ * Values of the placeholders of a message.
+ */
+export type MessageParams = Readonly<Record<string, string | number>>;
+
+/**
+ * Returns a built-in message, see getMessage.
+ */
+export type MessageFormatter = (key: MessageKey, params?: MessageParams) => string;
+
+const EN_MESSAGES = {
+    // Validation of a single field; `label` is the field's label
+    required: '{label} is required',
+    incomplete: '{label} is incomplete',
+    invalidCardNumber: '{label} must be a valid card number',
+    missingCardName: '{label} is missing the name on the card',
+    invalidCardExpiry: '{label} expiry date must be in MM/YY format',
+    cardExpired: '{label} has expired',
+    invalidCardCvc: '{label} security code is invalid',
+    missingOther: '{label} is missing the "Other" answer',
+    invalidOption: '{label} has a choice that is not one of its options',
+    invalidValue: '{label} has a value of the wrong kind',
+    minSelections: { one: '{label} needs at least {min} selection', other: '{label} needs at least {min} selections' },
+    maxSelections: { one: '{label} allows at most {max} selection', other: '{label} allows at most {max} selections' },
+    maxFiles: { one: '{label} allows at most {max} file', other: '{label} allows at most {max} files' },
+    fileType: '{label}: "{file}" is not an accepted file type',
+    fileSize: '{label}: "{file}" is larger than {size}',
+    uploadFailed: '{label}: "{file}" could not be uploaded',
+    minItems: { one: '{label} needs at least {min} item', other: '{label} needs at least {min} items' },
+    maxItems: { one: '{label} allows at most {max} item', other: '{label} allows at most {max} items' },
+    minLength: { one: '{label} must be at least {min} character', other: '{label} must be at least {min} characters' },
+    maxLength: { one: '{label} must be no more than {max} character', other: '{label} must be no more than {max} characters' },
+    number: '{label} must be a number',
+    min: '{label} must be at least {min}',
+    max: '{label} must be no more than {max}',
+    email: '{label} must be a valid email address',
+    date: '{label} must be a valid date',
+    url: '{label} must be a valid URL',
+    phone: '{label} must be a valid phone number',
+    pattern: '{label} format is invalid',
+    invalid: '{label} is invalid',
+
+    // Cross-field rules; `other` is the label of the compared field, `fields` lists labels
+    compareEquals: '{label} must match {other}',
+    compareNotEquals: '{label} must be different from {other}',
+    compareGreaterThan: '{label} must be greater than {other}',
+    compareAtLeast: '{label} must be at least {other}',
+    compareLessThan: '{label} must be less than {other}',
+    compareAtMost: '{label} must be at most {other}',
+    compareAfter: '{label} must be after {other}',
+    compareOnOrAfter: '{label} must be on or after {other}',
+    compareBefore: '{label} must be before {other}',
+    compareOnOrBefore: '{label} must be on or before {other}',
+    atLeastOne: 'Fill in at least one of: {fields}',
+
+    // Texts of the rendered form
+    checking: 'Checking…',
+    loadingOptions: 'Loading options…',
+    optionsFailed: 'The options could not be loaded',
+    optionsLoaderMissing: 'No options loader named "{loader}"',
+    retry: 'Retry',
+    selectPlaceholder: 'Select an option',
+    otherOption: 'Other (please specify)',
+    otherPlaceholder: 'Please specify',
+    addItem: 'Add item',
+    itemNumber: 'Item {index}',
+    moveItemUp: 'Move item {index} up',
+    moveItemDown: 'Move item {index} down',
+    removeItem: 'Remove item {index}',
+    dropFiles: 'or drop files here',
+    dropFile: 'or drop a file here',
+    uploadingFile: 'Uploading {file}',
+    cancelUpload: 'Cancel upload of {file}',
+    removeFile: 'Remove {file}',
+    uploadError: 'Upload failed',
+    ratingStar: '{star} of {max}',
+    stepProgress: 'Step {step} of {total}',
+    back: 'Back',
+    next: 'Next',
+    yes: 'Yes',
+    no: 'No',
+    addressStreet: 'Street address',
+    addressCity: 'City',
+    addressState: 'State / Province',
+    addressPostalCode: 'Postal code',
+    addressCountry: 'Country',
+    cardNumber: 'Card number',
+    cardName: 'Name on card',
+    cardExpiry: 'Expiry (MM/YY)',
+    cardCvc: 'CVC',
+    emptyForm: 'No fields defined in this form schema.',
+    unsupportedFieldType: 'Unsupported field type: {type}',
+    requiredHint: 'required',
+    errorSummary: { one: 'There is {count} problem with this form', other: 'There are {count} problems with this form' },
+    submitFailed: 'The form could not be sent. Please try again.',
+};
+
+/**
+ * Name of a built-in message, see BUILT_IN_MESSAGES.
+ */
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+/**
+ * Templates of built-in messages in one language; missing messages fall back
+ * to the next language of the locale chain, and finally to English.
+ */
+export type MessageCatalog = Partial<Record<MessageKey, MessageTemplate>>;
+
+/**
+ * Messages of a form or field replacing built-in ones, e.g.
+ * { minLength: '{label} is too short ({actual} of {min} characters)' }.
+ */
+export type MessageOverrides = Readonly<Partial<Record<MessageKey, string>>>;
+
+const FR_MESSAGES: MessageCatalog = {
+    required: '{label} : ce champ est obligatoire',
+    incomplete: '{label} : ce champ est incomplet',
+    invalidCardNumber: '{label} : le numéro de carte n’est pas valide',
+    missingCardName: '{label} : le nom figurant sur la carte est manquant',
+    invalidCardExpiry: '{label} : la date d’expiration doit être au format MM/AA',
+    cardExpired: '{label} : la carte a expiré',
+    invalidCardCvc: '{label} : le code de sécurité n’est pas valide',
+    missingOther: '{label} : veuillez préciser la réponse « Autre »',
+    invalidOption: '{label} : ce choix ne fait pas partie des options',
+    invalidValue: '{label} : cette valeur n’est pas du bon type',
+    minSelections: { one: '{label} : sélectionnez au moins {min} option', other: '{label} : sélectionnez au moins {min} options' },
+    maxSelections: { one: '{label} : sélectionnez au plus {max} option', other: '{label} : sélectionnez au plus {max} options' },
+    maxFiles: { one: '{label} : {max} fichier au maximum', other: '{label} : {max} fichiers au maximum' },
+    fileType: '{label} : « {file} » n’est pas un type de fichier accepté',
+    fileSize: '{label} : « {file} » dépasse {size}',
+    uploadFailed: '{label} : « {file} » n’a pas pu être envoyé',
+    minItems: { one: '{label} : ajoutez au moins {min} élément', other: '{label} : ajoutez au moins {min} éléments' },
+    maxItems: { one: '{label} : {max} élément au maximum', other: '{label} : {max} éléments au maximum' },
+    minLength: { one: '{label} : au moins {min} caractère', other: '{label} : au moins {min} caractères' },
+    maxLength: { one: '{label} : {max} caractère au maximum', other: '{label} : {max} caractères au maximum' },
+    number: '{label} : ce champ doit contenir un nombre',
+    min: '{label} : la valeur doit être supérieure ou égale à {min}',
+    max: '{label} : la valeur doit être inférieure ou égale à {max}',
+    email: '{label} : l’adresse e-mail n’est pas valide',
+    date: '{label} : la date n’est pas valide',
+    url: '{label} : l’URL n’est pas valide',
+    phone: '{label} : le numéro de téléphone n’est pas valide',
+    pattern: '{label} : le format n’est pas valide',
+    invalid: '{label} : ce champ n’est pas valide',
+    compareEquals: '{label} doit correspondre à {other}',
+    compareNotEquals: '{label} ne doit pas correspondre à {other}',
+    compareGreaterThan: '{label} : la valeur doit être supérieure à {other}',
+    compareAtLeast: '{label} : la valeur doit être supérieure ou égale à {other}',
+    compareLessThan: '{label} : la valeur doit être inférieure à {other}',
+    compareAtMost: '{label} : la valeur doit être inférieure ou égale à {other}',
+    compareAfter: '{label} : la date doit être postérieure à {other}',
+    compareOnOrAfter: '{label} : la date doit être identique ou postérieure à {other}',
+    compareBefore: '{label} : la date doit être antérieure à {other}',
+    compareOnOrBefore: '{label} : la date doit être identique ou antérieure à {other}',
+    atLeastOne: 'Remplissez au moins l’un des champs suivants : {fields}',
+    checking: 'Vérification…',
+    loadingOptions: 'Chargement des options…',
+    optionsFailed: 'Les options n’ont pas pu être chargées',
+    optionsLoaderMissing: 'Aucun chargeur d’options nommé « {loader} »',
+    retry: 'Réessayer',
+    selectPlaceholder: 'Sélectionnez une option',
+    otherOption: 'Autre (veuillez préciser)',
+    otherPlaceholder: 'Veuillez préciser',
+    addItem: 'Ajouter un élément',
+    itemNumber: 'Élément {index}',
+    moveItemUp: 'Monter l’élément {index}',
+    moveItemDown: 'Descendre l’élément {index}',
+    removeItem: 'Supprimer l’élément {index}',
+    dropFiles: 'ou déposez des fichiers ici',
+    dropFile: 'ou déposez un fichier ici',
+    uploadingFile: 'Envoi de {file}',
+    cancelUpload: 'Annuler l’envoi de {file}',
+    removeFile: 'Supprimer {file}',
+    uploadError: 'Échec de l’envoi',
+    ratingStar: '{star} sur {max}',
+    stepProgress: 'Étape {step} sur {total}',
+    back: 'Retour',
+    next: 'Suivant',
+    yes: 'Oui',
+    no: 'Non',
+    addressStreet: 'Adresse',
+    addressCity: 'Ville',
+    addressState: 'État / Province',
+    addressPostalCode: 'Code postal',
+    addressCountry: 'Pays',
+    cardNumber: 'Numéro de carte',
+    cardName: 'Nom sur la carte',
+    cardExpiry: 'Expiration (MM/AA)',
+    cardCvc: 'CVC',
+    emptyForm: 'Aucun champ n’est défini dans ce formulaire.',
+    unsupportedFieldType: 'Type de champ non pris en charge : {type}',
+    requiredHint: 'obligatoire',
+    errorSummary: { one: 'Le formulaire contient {count} erreur', other: 'Le formulaire contient {count} erreurs' },
+    submitFailed: 'Le formulaire n’a pas pu être envoyé. Veuillez réessayer.',
+};
+
+const DE_MESSAGES: MessageCatalog = {
+    required: '{label} ist erforderlich',
+    incomplete: '{label} ist unvollständig',
+    invalidCardNumber: '{label}: Die Kartennummer ist ungültig',
+    missingCardName: '{label}: Der Name auf der Karte fehlt',
+    invalidCardExpiry: '{label}: Das Ablaufdatum muss im Format MM/JJ angegeben werden',
+    cardExpired: '{label}: Die Karte ist abgelaufen',
+    invalidCardCvc: '{label}: Die Prüfnummer ist ungültig',
+    missingOther: '{label}: Die Angabe zu „Sonstiges“ fehlt',
+    invalidOption: '{label}: Diese Auswahl gehört nicht zu den Optionen',
+    invalidValue: '{label}: Dieser Wert hat nicht den richtigen Typ',
+    minSelections: { one: '{label}: Bitte mindestens {min} Option auswählen', other: '{label}: Bitte mindestens {min} Optionen auswählen' },
+    maxSelections: { one: '{label}: Höchstens {max} Option erlaubt', other: '{label}: Höchstens {max} Optionen erlaubt' },
+    maxFiles: { one: '{label}: Höchstens {max} Datei erlaubt', other: '{label}: Höchstens {max} Dateien erlaubt' },
+    fileType: '{label}: „{file}“ hat keinen zulässigen Dateityp',
+    fileSize: '{label}: „{file}“ ist größer als {size}',
+    uploadFailed: '{label}: „{file}“ konnte nicht hochgeladen werden',
+    minItems: { one: '{label}: Mindestens {min} Eintrag erforderlich', other: '{label}: Mindestens {min} Einträge erforderlich' },
+    maxItems: { one: '{label}: Höchstens {max} Eintrag erlaubt', other: '{label}: Höchstens {max} Einträge erlaubt' },
+    minLength: '{label} muss mindestens {min} Zeichen lang sein',
+    maxLength: '{label} darf höchstens {max} Zeichen lang sein',
+    number: '{label} muss eine Zahl sein',
+    min: '{label} muss mindestens {min} sein',
+    max: '{label} darf höchstens {max} sein',
+    email: '{label} muss eine gültige E-Mail-Adresse sein',
+    date: '{label} muss ein gültiges Datum sein',
+    url: '{label} muss eine gültige URL sein',
+    phone: '{label} muss eine gültige Telefonnummer sein',
+    pattern: '{label} hat ein ungültiges Format',
+    invalid: '{label} ist ungültig',
+    compareEquals: '{label} muss mit {other} übereinstimmen',
+    compareNotEquals: '{label} muss sich von {other} unterscheiden',
+    compareGreaterThan: '{label} muss größer als {other} sein',
+    compareAtLeast: '{label} muss mindestens {other} sein',
+    compareLessThan: '{label} muss kleiner als {other} sein',
+    compareAtMost: '{label} darf höchstens {other} sein',
+    compareAfter: '{label} muss nach {other} liegen',
+    compareOnOrAfter: '{label} darf nicht vor {other} liegen',
+    compareBefore: '{label} muss vor {other} liegen',
+    compareOnOrBefore: '{label} darf nicht nach {other} liegen',
+    atLeastOne: 'Bitte mindestens eines dieser Felder ausfüllen: {fields}',
+    checking: 'Wird geprüft…',
+    loadingOptions: 'Optionen werden geladen…',
+    optionsFailed: 'Die Optionen konnten nicht geladen werden',
+    optionsLoaderMissing: 'Kein Options-Loader namens „{loader}“',
+    retry: 'Erneut versuchen',
+    selectPlaceholder: 'Bitte auswählen',
+    otherOption: 'Sonstiges (bitte angeben)',
+    otherPlaceholder: 'Bitte angeben',
+    addItem: 'Eintrag hinzufügen',
+    itemNumber: 'Eintrag {index}',
+    moveItemUp: 'Eintrag {index} nach oben verschieben',
+    moveItemDown: 'Eintrag {index} nach unten verschieben',
+    removeItem: 'Eintrag {index} entfernen',
+    dropFiles: 'oder Dateien hierher ziehen',
+    dropFile: 'oder eine Datei hierher ziehen',
+    uploadingFile: '{file} wird hochgeladen',
+    cancelUpload: 'Hochladen von {file} abbrechen',
+    removeFile: '{file} entfernen',
+    uploadError: 'Hochladen fehlgeschlagen',
+    ratingStar: '{star} von {max}',
+    stepProgress: 'Schritt {step} von {total}',
+    back: 'Zurück',
+    next: 'Weiter',
+    yes: 'Ja',
+    no: 'Nein',
+    addressStreet: 'Straße und Hausnummer',
+    addressCity: 'Ort',
+    addressState: 'Bundesland / Region',
+    addressPostalCode: 'Postleitzahl',
+    addressCountry: 'Land',
+    cardNumber: 'Kartennummer',
+    cardName: 'Name auf der Karte',
+    cardExpiry: 'Gültig bis (MM/JJ)',
+    cardCvc: 'Prüfnummer',
+    emptyForm: 'In diesem Formular sind keine Felder definiert.',
+    unsupportedFieldType: 'Nicht unterstützter Feldtyp: {type}',
+    requiredHint: 'Pflichtfeld',
+    errorSummary: { one: 'Das Formular enthält {count} Fehler', other: 'Das Formular enthält {count} Fehler' },
+    submitFailed: 'Das Formular konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+};
+
+const ES_MESSAGES: MessageCatalog = {
+    required: '{label}: este campo es obligatorio',
+    incomplete: '{label}: este campo está incompleto',
+    invalidCardNumber: '{label}: el número de tarjeta no es válido',
+    missingCardName: '{label}: falta el nombre que figura en la tarjeta',
+    invalidCardExpiry: '{label}: la fecha de caducidad debe tener el formato MM/AA',
+    cardExpired: '{label}: la tarjeta ha caducado',
+    invalidCardCvc: '{label}: el código de seguridad no es válido',
+    missingOther: '{label}: falta la respuesta de «Otro»',
+    invalidOption: '{label}: la opción elegida no es válida',
+    invalidValue: '{label}: el valor no es del tipo correcto',
+    minSelections: { one: '{label}: selecciona al menos {min} opción', other: '{label}: selecciona al menos {min} opciones' },
+    maxSelections: { one: '{label}: selecciona como máximo {max} opción', other: '{label}: selecciona como máximo {max} opciones' },
+    maxFiles: { one: '{label}: se permite como máximo {max} archivo', other: '{label}: se permiten como máximo {max} archivos' },
+    fileType: '{label}: «{file}» no es un tipo de archivo aceptado',
+    fileSize: '{label}: «{file}» supera {size}',
+    uploadFailed: '{label}: no se ha podido subir «{file}»',
+    minItems: { one: '{label}: añade al menos {min} elemento', other: '{label}: añade al menos {min} elementos' },
+    maxItems: { one: '{label}: se permite como máximo {max} elemento', other: '{label}: se permiten como máximo {max} elementos' },
+    minLength: { one: '{label}: debe tener al menos {min} carácter', other: '{label}: debe tener al menos {min} caracteres' },
+    maxLength: { one: '{label}: debe tener como máximo {max} carácter', other: '{label}: debe tener como máximo {max} caracteres' },
+    number: '{label}: debe ser un número',
+    min: '{label}: debe ser como mínimo {min}',
+    max: '{label}: debe ser como máximo {max}',
+    email: '{label}: la dirección de correo electrónico no es válida',
+    date: '{label}: debe ser una fecha válida',
+    url: '{label}: la URL no es válida',
+    phone: '{label}: el número de teléfono no es válido',
+    pattern: '{label}: el formato no es válido',
+    invalid: '{label}: este campo no es válido',
+    compareEquals: '{label} debe coincidir con {other}',
+    compareNotEquals: '{label} no debe coincidir con {other}',
+    compareGreaterThan: '{label}: el valor debe ser mayor que {other}',
+    compareAtLeast: '{label}: el valor debe ser mayor o igual que {other}',
+    compareLessThan: '{label}: el valor debe ser menor que {other}',
+    compareAtMost: '{label}: el valor debe ser menor o igual que {other}',
+    compareAfter: '{label}: la fecha debe ser posterior a {other}',
+    compareOnOrAfter: '{label}: la fecha debe ser igual o posterior a {other}',
+    compareBefore: '{label}: la fecha debe ser anterior a {other}',
+    compareOnOrBefore: '{label}: la fecha debe ser igual o anterior a {other}',
+    atLeastOne: 'Rellena al menos uno de estos campos: {fields}',
+    checking: 'Comprobando…',
+    loadingOptions: 'Cargando opciones…',
+    optionsFailed: 'No se han podido cargar las opciones',
+    optionsLoaderMissing: 'No hay ningún cargador de opciones llamado «{loader}»',
+    retry: 'Reintentar',
+    selectPlaceholder: 'Selecciona una opción',
+    otherOption: 'Otro (especifica)',
+    otherPlaceholder: 'Especifica',
+    addItem: 'Añadir elemento',
+    itemNumber: 'Elemento {index}',
+    moveItemUp: 'Subir el elemento {index}',
+    moveItemDown: 'Bajar el elemento {index}',
+    removeItem: 'Eliminar el elemento {index}',
+    dropFiles: 'o arrastra archivos aquí',
+    dropFile: 'o arrastra un archivo aquí',
+    uploadingFile: 'Subiendo {file}',
+    cancelUpload: 'Cancelar la subida de {file}',
+    removeFile: 'Eliminar {file}',
+    uploadError: 'Error al subir el archivo',
+    ratingStar: '{star} de {max}',
+    stepProgress: 'Paso {step} de {total}',
+    back: 'Atrás',
+    next: 'Siguiente',
+    yes: 'Sí',
+    no: 'No',
+    addressStreet: 'Dirección',
+    addressCity: 'Ciudad',
+    addressState: 'Provincia / Estado',
+    addressPostalCode: 'Código postal',
+    addressCountry: 'País',
+    cardNumber: 'Número de tarjeta',
+    cardName: 'Nombre en la tarjeta',
+    cardExpiry: 'Caducidad (MM/AA)',
+    cardCvc: 'CVC',
+    emptyForm: 'Este formulario no tiene campos definidos.',
+    unsupportedFieldType: 'Tipo de campo no admitido: {type}',
+    requiredHint: 'obligatorio',
+    errorSummary: { one: 'El formulario tiene {count} error', other: 'El formulario tiene {count} errores' },
+    submitFailed: 'No se ha podido enviar el formulario. Inténtelo de nuevo.',
+};
+
+/**
+ * Built-in messages by language. Add a language, or replace messages of one,
+ * with registerMessages.
+ */
+export const BUILT_IN_MESSAGES: Readonly<Record<string, MessageCatalog>> = Object.freeze({
+    en: EN_MESSAGES,
+    fr: FR_MESSAGES,
+    de: DE_MESSAGES,
+    es: ES_MESSAGES,
+});
+
+const catalogs: Record<string, MessageCatalog> = { ...BUILT_IN_MESSAGES };
+
+/**
+ * Adds messages for a language, for every form in the app, on top of the
+ * built-in ones of that language if any.
+ */
+export const registerMessages = (locale: string, messages: MessageCatalog): void => {
+    catalogs[locale] = { ...catalogs[locale], ...messages };
+};
+
+/**
+ * Returns the languages to look texts up in, most specific first: each of the
+ * requested locales followed by its parents, e.g. ['fr-CA', 'fr'] for 'fr-CA',
+ * then the `fallbacks` the same way. Underscores are read as hyphens.
+ */
+export const getLocaleChain = (locale: string | readonly string[] | undefined, ...fallbacks: (string | undefined)[]): string[] => {
+    const chain: string[] = [];
+    const requested = typeof locale === 'string' ? [locale] : locale || [];
+    [...requested, ...fallbacks].forEach(tag => {
+        const parts = (tag || '').replace(/_/g, '-').split('-').filter(Boolean);
+        for (let length = parts.length; length > 0; length--) {
+            const candidate = parts.slice(0, length).join('-');
+            if (!chain.includes(candidate)) chain.push(candidate);
+        }
+    });
+    return chain;
+};
+
+const pluralCategory = (locale: string, count: number): Intl.LDMLPluralRule => {
+    try {
+        return new Intl.PluralRules(locale).select(count);
+    } catch {
+        // Locales the runtime doesn't know get English plurals
+        return count === 1 ? 'one' : 'other';
+    }
+};
+
+/**
+ * Fills in the placeholders of a message template. For templates with plural
+ * forms, `params.count` picks the form in the rules of `locale`. Placeholders
+ * without a value are kept as they are.
+ */
+export const formatMessage = (template: MessageTemplate, params: MessageParams = {}, locale = 'en'): string => {
+    const text = typeof template === 'string'
+        ? template
+        : template[pluralCategory(locale, Number(params.count ?? 0))] ?? template.other;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+};
+
+/**
+ * Returns a built-in message in the first language of `locales` that has it,
+ * falling back to English. See getLocaleChain for building `locales`.
+ */
+export const getMessage = (key: MessageKey, params: MessageParams = {}, locales: readonly string[] = []): string => {
+    const locale = locales.find(candidate => catalogs[candidate]?.[key] !== undefined) ?? 'en';
+    return formatMessage(catalogs[locale]?.[key] ?? EN_MESSAGES[key], params, locale);
+};
+
+/**
+ * Returns a function formatting built-in messages in `locales`, where the
+ * first of `overrides` that has a message, e.g. the `messages` of a schema,
+ * replaces the built-in one.
+ */
+export const createMessageFormatter = (locales: readonly string[] = [], ...overrides: (MessageOverrides | undefined)[]): MessageFormatter =>
+    (key, params = {}) => {
+        const template = overrides.map(messages => messages?.[key]).find(Boolean);
+        return template ? formatMessage(template, params, locales[0]) : getMessage(key, params, locales);
+    };
@@ -0,0 +1,93 @@
+import { FieldOption, FormField, FormValues, OptionsSource } from './types.js';
+import { isEmptyValue } from './values.js';
+
+/**
+ * Loads the options of fields whose `optionsSource` names it. `params` are the
+ * source's static parameters, `values` the current values of its `dependsOn` fields.
+ */
+export type OptionsLoader = (request: {
+    params: Record<string, unknown>;
+    values: FormValues;
+}) => Promise<readonly (string | FieldOption)[]>;
+
+export interface OptionsRequest {
+    key: string; // Identifies the result in the cache
+    source: OptionsSource;
+    values: FormValues;
+}
+
+// Loaded options by loader and request key, shared by every form on the page. Loaders
+// are told apart by identity, not by name, as forms may name different loaders alike.
+let cache = new WeakMap<OptionsLoader, Map<string, Promise<FieldOption[]>>>();
+
+/**
+ * Turns a string option into a label/value option.
+ */
+export const normalizeOption = (option: string | FieldOption): FieldOption =>
+    typeof option === 'string' ? { label: option, value: option } : option;
+
+/**
+ * The static options of a field as label/value pairs.
+ */
+export const getFieldOptions = (field: FormField): FieldOption[] => (field.options || []).map(normalizeOption);
+
+/**
+ * The values a field's static options submit.
+ */
+export const getOptionValues = (field: FormField): string[] => getFieldOptions(field).map(option => option.value);
+
+/**
+ * Describes the request loading a field's options for the given values, or
+ * returns null when the field has no `optionsSource` or one of the fields it
+ * depends on is still empty.
+ */
+export const getOptionsRequest = (field: FormField, values: FormValues): OptionsRequest | null => {
+    const source = field.optionsSource;
+    if (!source) return null;
+
+    const dependencyValues: FormValues = {};
+    for (const fieldId of source.dependsOn || []) {
+        if (isEmptyValue(values[fieldId])) return null;
+        dependencyValues[fieldId] = values[fieldId];
+    }
+
+    return {
+        key: JSON.stringify([source.params || {}, dependencyValues]),
+        source,
+        values: dependencyValues,
+    };
+};
+
+/**
+ * Runs a request through its loader. Results are cached per loader function and
+ * request, so repeated requests (and other forms using the same loader) reuse
+ * them; pass `reload` to bypass the cache. Failed requests are not cached.
+ */
+export const loadOptions = (loader: OptionsLoader, request: OptionsRequest, { reload = false } = {}): Promise<FieldOption[]> => {
+    const loaderCache = cache.get(loader) || new Map<string, Promise<FieldOption[]>>();
+    cache.set(loader, loaderCache);
+
+    const cached = loaderCache.get(request.key);
+    if (cached && !reload) return cached;
+
+    const pending = Promise.resolve()
+        .then(() => loader({ params: request.source.params || {}, values: request.values }))
+        .then(options => options.map(normalizeOption));
+    loaderCache.set(request.key, pending);
+    pending.catch(() => {
+        if (loaderCache.get(request.key) === pending) loaderCache.delete(request.key);
+    });
+    return pending;
+};
+
+/**
+ * Forgets cached options, of one loader or of all of them, e.g. after the
+ * data behind a loader changed.
+ */
+export const clearOptionsCache = (loader?: OptionsLoader): void => {
+    if (loader === undefined) {
+        cache = new WeakMap();
+    } else {
+        cache.delete(loader);
+    }
+};
@@ -0,0 +1,76 @@
+import { FormErrors, FormField, FormValues } from './types.js';
+import { resolveFields } from './conditions.js';
+import { getInitialValues } from './values.js';
+
+/**
+ * Returns true when the field repeats its fields for each item the user adds,
+ * e.g. "add another dependent". Its value is the list of items, each an object
+ * keyed by the IDs of the repeater's fields.
+ */
+export const isRepeater = (field: FormField): boolean => field.type === 'repeater';
+
+/**
+ * Returns the values of a newly added item of a repeater: the defaults of its fields.
+ */
+export const createRepeaterItem = (field: FormField): FormValues => getInitialValues(field.fields || []);
+
+/**
+ * Returns the ID a field of a repeater item goes by outside the item, e.g.
+ * 'dependents.0.name'. Errors of the field are keyed by it, and its component
+ * receives it as `field.id`, so the inputs of every item have distinct IDs.
+ */
+export const getItemFieldId = (repeaterId: string, index: number, fieldId: string): string =>
+    `${repeaterId}.${index}.${fieldId}`;
+
+/**
+ * Returns true when an error key belongs to the field: its own error or, for a
+ * repeater, the error of a field in one of its items.
+ */
+export const isErrorOfField = (errorKey: string, fieldId: string): boolean =>
+    errorKey === fieldId || errorKey.startsWith(`${fieldId}.`);
+
+/**
+ * Returns the visible fields of one item of a repeater with `required` resolved,
+ * like resolveFields. Conditions can refer to fields of the same item and to
+ * fields outside the repeater; the item's own values win on a shared ID.
+ */
+export const resolveItemFields = (field: FormField, item: FormValues, values: FormValues): FormField[] =>
+    resolveFields(field.fields || [], { ...values, ...item });
+
+/**
+ * Moves the errors of a repeater's items along with the items when they are
+ * removed or reordered, so they stay next to the item they were reported for.
+ * Items are matched by identity; an item that was replaced, i.e. edited, keeps
+ * its place when the number of items is unchanged. Errors of removed items are dropped.
+ */
+export const moveItemErrors = (errors: FormErrors, repeaterId: string, prevItems: unknown, nextItems: unknown): FormErrors => {
+    if (!Array.isArray(prevItems) || !Array.isArray(nextItems)) return errors;
+
+    const prefix = `${repeaterId}.`;
+    const moved: FormErrors = {};
+    Object.keys(errors).forEach(key => {
+        const match = key.startsWith(prefix) ? /^(\d+)\.(.+)$/.exec(key.slice(prefix.length)) : null;
+        if (!match) {
+            moved[key] = errors[key];
+            return;
+        }
+
+        const prevIndex = Number(match[1]);
+        const found = nextItems.indexOf(prevItems[prevIndex]);
+        const index = found !== -1 ? found : prevItems.length === nextItems.length ? prevIndex : -1;
+        if (index !== -1) {
+            moved[getItemFieldId(repeaterId, index, match[2])] = errors[key];
+        }
+    });
+    return moved;
+};
+
+/**
+ * Returns why a field can't be one of the fields of a repeater, or null when it can.
+ * Options are only loaded, and files only uploaded, for fields outside repeaters.
+ */
+export const checkItemField = (field: FormField): string | null => {
+    if (field.type === 'file') return 'File uploads can\'t be repeated';
+    if (field.optionsSource) return 'Options of repeated fields can\'t be loaded at runtime';
+    return null;
+};
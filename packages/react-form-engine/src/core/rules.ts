@@ -0,0 +1,102 @@
+import { ComparisonOperator, CompareRule, FormErrors, FormField, FormRule, FormValues } from './types.js';
+import { isEmptyValue } from './values.js';
+import { createMessageFormatter, formatMessage, getLocaleChain, MessageKey, MessageParams } from './messages.js';
+import { ValidationOptions } from './validation.js';
+
+// Numbers compare numerically; anything else, including ISO dates, as strings
+const compareValues = (a: unknown, b: unknown): number => {
+    const numA = typeof a === 'number' ? a : parseFloat(String(a));
+    const numB = typeof b === 'number' ? b : parseFloat(String(b));
+    if (!isNaN(numA) && !isNaN(numB) && String(numA) === String(a).trim() && String(numB) === String(b).trim()) {
+        return numA - numB;
+    }
+    const strA = typeof a === 'object' ? JSON.stringify(a) : String(a);
+    const strB = typeof b === 'object' ? JSON.stringify(b) : String(b);
+    return strA < strB ? -1 : strA > strB ? 1 : 0;
+};
+
+const compare = (operator: ComparisonOperator, a: unknown, b: unknown): boolean => {
+    const result = compareValues(a, b);
+    switch (operator) {
+        case 'equals': return result === 0;
+        case 'not-equals': return result !== 0;
+        case 'greater-than': return result > 0;
+        case 'greater-than-or-equal': return result >= 0;
+        case 'less-than': return result < 0;
+        case 'less-than-or-equal': return result <= 0;
+        default: return true;
+    }
+};
+
+const compareMessageKey = (rule: CompareRule, field: FormField): MessageKey => {
+    // Dates read better as before/after
+    const isDate = field.type === 'date';
+    switch (rule.operator) {
+        case 'equals': return 'compareEquals';
+        case 'not-equals': return 'compareNotEquals';
+        case 'greater-than': return isDate ? 'compareAfter' : 'compareGreaterThan';
+        case 'greater-than-or-equal': return isDate ? 'compareOnOrAfter' : 'compareAtLeast';
+        case 'less-than': return isDate ? 'compareBefore' : 'compareLessThan';
+        case 'less-than-or-equal': return isDate ? 'compareOnOrBefore' : 'compareAtMost';
+        default: return 'invalid';
+    }
+};
+
+/**
+ * Evaluates cross-field rules against the visible fields. Rules involving a
+ * hidden field are skipped, and compare rules only apply once both fields are
+ * filled in (requiredness is the field's own concern). Returns an error message
+ * per field ID, the first failing rule winning: the rule's `message`, the
+ * message in `options.messages` or the built-in message in `options.locale`.
+ * Placeholders are filled in in all of them: {label} and {actual} for the
+ * field, {other} for the compared field, {fields} for the fields of an
+ * at-least-one rule.
+ */
+export const validateRules = (rules: readonly FormRule[], visibleFields: readonly FormField[], values: FormValues, options: ValidationOptions = {}): FormErrors => {
+    const errors: FormErrors = {};
+    const locales = getLocaleChain(options.locale);
+    const formatter = createMessageFormatter(locales, options.messages);
+    const ruleMessage = (rule: FormRule, key: MessageKey, params: MessageParams) =>
+        rule.message ? formatMessage(rule.message, params, locales[0]) : formatter(key, params);
+    const fieldsById = new Map(visibleFields.map(field => [field.id, field]));
+
+    const addError = (fieldId: string, message: string) => {
+        if (!errors[fieldId]) {
+            errors[fieldId] = message;
+        }
+    };
+
+    rules.forEach(rule => {
+        if (rule.type === 'compare') {
+            const field = fieldsById.get(rule.fieldId);
+            const other = fieldsById.get(rule.otherFieldId);
+            if (!field || !other) return;
+
+            const value = values[field.id];
+            const otherValue = values[other.id];
+            if (isEmptyValue(value) || isEmptyValue(otherValue)) return;
+
+            if (!compare(rule.operator, value, otherValue)) {
+                addError(field.id, ruleMessage(rule, compareMessageKey(rule, field), {
+                    label: field.label,
+                    other: other.label,
+                    actual: typeof value === 'object' ? JSON.stringify(value) : String(value),
+                }));
+            }
+        } else if (rule.type === 'at-least-one') {
+            const fields = rule.fieldIds.map(fieldId => fieldsById.get(fieldId)).filter((field): field is FormField => !!field);
+            if (fields.length === 0 || fields.some(field => !isEmptyValue(values[field.id]))) return;
+
+            const message = ruleMessage(rule, 'atLeastOne', { fields: fields.map(field => field.label).join(', ') });
+            fields.forEach(field => addError(field.id, message));
+        }
+    });
+
+    return errors;
+};
+
+/**
+ * Returns the IDs of the fields a rule involves.
+ */
+export const getRuleFieldIds = (rule: FormRule): string[] =>
+    rule.type === 'compare' ? [rule.fieldId, rule.otherFieldId] : [...rule.fieldIds];
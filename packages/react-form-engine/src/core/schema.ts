@@ -0,0 +1,137 @@
+import { FormField, FormSchema } from './types.js';
+import { checkItemField } from './repeaters.js';
+
+/**
+ * Version of the schema format written by the current builder. Schemas
+ * without a `schemaVersion` are treated as version 1.
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * Upgrades a schema by exactly one version.
+ */
+export type SchemaMigration = (schema: any) => any;
+
+export interface MigrateSchemaOptions {
+    // Called for every problem that does not prevent the upgrade, e.g. unknown keys.
+    // Defaults to console.warn.
+    onWarning?: (message: string) => void;
+}
+
+// Step-wise migrations keyed by the version they upgrade from. Each one must
+// return a schema of the next version; never edit a migration once released.
+const migrations: Record<number, SchemaMigration> = {
+    // v1 (the unversioned builder export) could leave `required` out of a field
+    // and only set `validation.required`; v2 always has a boolean `required`.
+    1: (schema) => ({
+        ...schema,
+        schemaVersion: 2,
+        formFields: schema.formFields.map((field: any) => ({
+            ...field,
+            required: Boolean(field.required || field.validation?.required),
+        })),
+    }),
+};
+
+// Typed as a record over the keys of the interface so a new key cannot be forgotten here
+const KNOWN_SCHEMA_KEYS: Record<keyof FormSchema, true> = {
+    schemaVersion: true,
+    formName: true,
+    formFields: true,
+    rules: true,
+    messages: true,
+    locale: true,
+    translations: true,
+};
+
+const KNOWN_FIELD_KEYS: Record<keyof FormField, true> = {
+    id: true,
+    type: true,
+    label: true,
+    placeholder: true,
+    required: true,
+    options: true,
+    optionsSource: true,
+    allowOther: true,
+    multiple: true,
+    mask: true,
+    content: true,
+    level: true,
+    src: true,
+    fields: true,
+    expression: true,
+    layout: true,
+    validation: true,
+    conditions: true,
+    styling: true,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades a schema of any supported version to the current format.
+ * Throws when the input is not a form schema or was written by a newer version
+ * of the engine, or holds repeated fields the engine can't fill in (see checkItemField).
+ * Keys the current format does not know are kept, but reported through `onWarning`.
+ */
+export const migrateSchema = (input: unknown, { onWarning = console.warn }: MigrateSchemaOptions = {}): FormSchema => {
+    if (!isPlainObject(input) || !Array.isArray(input.formFields)) {
+        throw new Error('Invalid form schema: expected an object with a formFields array');
+    }
+
+    const version = input.schemaVersion ?? 1;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error(`Invalid form schema: unsupported schemaVersion ${JSON.stringify(version)}`);
+    }
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`Form schema version ${version} is newer than the supported version ${SCHEMA_VERSION}; upgrade @jonesstack/react-form-engine`);
+    }
+
+    // Migrations expect every field to be an object, so the structure is checked first.
+    // Fields nested in groups are checked like top-level ones.
+    const checkStructure = (fields: unknown[], path: string) => fields.forEach((field: any, index: number) => {
+        if (!isPlainObject(field)) {
+            throw new Error(`Invalid form schema: field at index ${path}${index} is not an object`);
+        }
+        if (field.fields !== undefined) {
+            if (!Array.isArray(field.fields)) {
+                throw new Error(`Invalid form schema: fields of field "${field.id ?? path + index}" is not an array`);
+            }
+            checkStructure(field.fields, `${path}${index}.`);
+        }
+    });
+    checkStructure(input.formFields, '');
+
+    let schema: any = input;
+    for (let from = version; from < SCHEMA_VERSION; from++) {
+        schema = migrations[from](schema);
+    }
+
+    Object.keys(schema).forEach(key => {
+        if (!(key in KNOWN_SCHEMA_KEYS)) {
+            onWarning(`Unknown schema key "${key}"`);
+        }
+    });
+    const checkFields = (fields: any[], path: string) => fields.forEach((field: any, index: number) => {
+        Object.keys(field).forEach(key => {
+            if (!(key in KNOWN_FIELD_KEYS)) {
+                onWarning(`Unknown key "${key}" on field "${field.id ?? path + index}"`);
+            }
+        });
+        if (field.fields) {
+            checkFields(field.fields, `${path}${index}.`);
+        }
+        if (field.type === 'repeater') {
+            field.fields?.forEach((child: any) => {
+                const problem = checkItemField(child);
+                if (problem) {
+                    throw new Error(`Invalid form schema: field "${child.id}" of repeater "${field.id}": ${problem}`);
+                }
+            });
+        }
+    });
+    checkFields(schema.formFields, '');
+
+    return schema;
+};
@@ -0,0 +1,34 @@
+import { FormField } from './types.js';
+
+/**
+ * One page of a multi-step form.
+ */
+export interface FormStep {
+    title?: string; // Label of the page break that starts the step; the first step has none
+    fields: FormField[];
+}
+
+/**
+ * Returns true when the field is a page break separating two steps.
+ */
+export const isPageBreak = (field: FormField): boolean => field.type === 'page-break';
+
+/**
+ * Splits a list of fields into steps at every page break. Steps left without
+ * fields (e.g. consecutive page breaks) are dropped, and a form without page
+ * breaks is a single step.
+ */
+export const splitIntoSteps = (fields: readonly FormField[]): FormStep[] => {
+    const steps: FormStep[] = [{ fields: [] }];
+
+    fields.forEach(field => {
+        if (isPageBreak(field)) {
+            steps.push({ title: field.label, fields: [] });
+        } else {
+            steps[steps.length - 1].fields.push(field);
+        }
+    });
+
+    const nonEmptySteps = steps.filter(step => step.fields.length > 0);
+    return nonEmptySteps.length > 0 ? nonEmptySteps : [{ fields: [] }];
+};
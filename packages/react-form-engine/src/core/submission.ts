@@ -0,0 +1,45 @@
+import { FormErrors, FormSchema, FormValues } from './types.js';
+import { resolveFields } from './conditions.js';
+import { migrateSchema, MigrateSchemaOptions } from './schema.js';
+import { validateForm, ValidationOptions } from './validation.js';
+import { coerceSubmission, CoercionOptions } from './coercion.js';
+import { unmaskValues } from './masks.js';
+import { applyCalculations } from './calculations.js';
+import { getLocaleChain } from './messages.js';
+import { translateSchema } from './translations.js';
+
+export interface SubmissionResult {
+    valid: boolean;
+    errors: FormErrors; // Same messages FormRenderer shows, keyed by field ID
+    data: FormValues; // The payload reduced to the visible fields and coerced like onSubmit data
+}
+
+export interface ValidateSubmissionOptions extends MigrateSchemaOptions, CoercionOptions, ValidationOptions {}
+
+/**
+ * Validates a submitted payload against a form schema, e.g. in an API route.
+ * Applies exactly the checks FormRenderer runs before calling onSubmit:
+ * requiredness, `validation` rules, conditions and cross-field rules, with
+ * calculated fields computed from the other values. Both raw and coerced
+ * payloads are accepted; `data` holds the visible fields coerced the way
+ * onSubmit receives them, without unknown keys. Async validators only exist
+ * in the browser and have to be re-run by the caller. Messages are in
+ * `options.locale`, like with FormRenderer's `locale`, or else in the
+ * schema's own language.
+ */
+export const validateSubmission = (schema: FormSchema, payload: FormValues, options: ValidateSubmissionOptions = {}): SubmissionResult => {
+    const latestSchema = translateSchema(migrateSchema(schema, options), options.locale);
+    // Fields submitting formatted text are validated in their raw form, like in the browser,
+    // and calculated fields are computed again rather than taken from the payload
+    const values = applyCalculations(
+        latestSchema.formFields,
+        unmaskValues(latestSchema.formFields, typeof payload === 'object' && payload !== null ? payload : {}),
+    );
+
+    const errors = validateForm(latestSchema.formFields, values, latestSchema.rules, {
+        locale: getLocaleChain(options.locale, latestSchema.locale),
+        messages: latestSchema.messages,
+    });
+    const data = coerceSubmission(resolveFields(latestSchema.formFields, values), values, options);
+    return { valid: Object.keys(errors).length === 0, errors, data };
+};
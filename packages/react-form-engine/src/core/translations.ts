@@ -0,0 +1,114 @@
+import { FormField, FormSchema } from './types.js';
+import { getLocaleChain, MessageOverrides } from './messages.js';
+import { normalizeOption } from './options.js';
+
+// Walks the fields of the form, including those of fieldsets and repeaters
+const forEachField = (fields: readonly FormField[], callback: (field: FormField) => void): void => {
+    fields.forEach(field => {
+        callback(field);
+        if (field.fields) forEachField(field.fields, callback);
+    });
+};
+
+/**
+ * Returns the texts of a schema that can be translated, keyed like in
+ * `translations` (see FormTranslation), in the language of the schema.
+ * Empty texts are left out.
+ */
+export const getTranslatableTexts = (schema: FormSchema): Record<string, string> => {
+    const texts: Record<string, string> = {};
+    const add = (key: string, text: string | undefined) => {
+        if (text) texts[key] = text;
+    };
+
+    add('formName', schema.formName);
+    forEachField(schema.formFields, field => {
+        const prefix = `fields.${field.id}`;
+        add(`${prefix}.label`, field.label);
+        add(`${prefix}.placeholder`, field.placeholder);
+        add(`${prefix}.content`, field.content);
+        add(`${prefix}.customMessage`, field.validation?.customMessage);
+        Object.entries(field.validation?.messages || {}).forEach(([name, message]) => add(`${prefix}.messages.${name}`, message));
+        (field.options || []).map(normalizeOption).forEach(option => add(`${prefix}.options.${option.value}`, option.label));
+    });
+    (schema.rules || []).forEach((rule, index) => add(`rules.${index}.message`, rule.message));
+    Object.entries(schema.messages || {}).forEach(([name, message]) => add(`messages.${name}`, message));
+    return texts;
+};
+
+/**
+ * Returns the keys of the texts of a schema that have no translation in
+ * `locale`, in the order of getTranslatableTexts.
+ */
+export const getMissingTranslations = (schema: FormSchema, locale: string): string[] => {
+    const translation = schema.translations?.[locale] || {};
+    return Object.keys(getTranslatableTexts(schema)).filter(key => !translation[key]?.trim());
+};
+
+/**
+ * Returns the schema with its texts in the first language of `locale` that has
+ * them: each requested locale, then its parents (see getLocaleChain), with
+ * the texts written in the schema when the language is the schema's own
+ * `locale` or none of the languages has a translation. Option values, IDs and
+ * everything else stay as they are.
+ */
+export const translateSchema = (schema: FormSchema, locale: string | readonly string[] | undefined): FormSchema => {
+    const translations = schema.translations || {};
+    const sourceLocales = getLocaleChain(schema.locale || 'en');
+    const chain = getLocaleChain(locale);
+    // Languages to look in before falling back to the schema's own texts
+    const sourceIndex = chain.findIndex(candidate => sourceLocales.includes(candidate));
+    const languages = (sourceIndex === -1 ? chain : chain.slice(0, sourceIndex)).filter(candidate => translations[candidate]);
+    if (languages.length === 0) return schema;
+
+    const translate = (key: string, text: string): string => {
+        for (const language of languages) {
+            const translated = translations[language][key];
+            if (translated?.trim()) return translated;
+        }
+        return text;
+    };
+    const translateOptional = (key: string, text: string | undefined) => (text ? translate(key, text) : text);
+    const translateMessages = (prefix: string, messages: MessageOverrides): MessageOverrides => Object.fromEntries(
+        Object.entries(messages).map(([name, message]) => [name, message && translate(`${prefix}.${name}`, message)]),
+    );
+
+    const translateField = (field: FormField): FormField => {
+        const prefix = `fields.${field.id}`;
+        const translated: FormField = {
+            ...field,
+            label: translate(`${prefix}.label`, field.label),
+            placeholder: translateOptional(`${prefix}.placeholder`, field.placeholder),
+            content: translateOptional(`${prefix}.content`, field.content),
+        };
+        // Keys that were not set stay unset
+        if (field.placeholder === undefined) delete translated.placeholder;
+        if (field.content === undefined) delete translated.content;
+        if (field.validation?.customMessage || field.validation?.messages) {
+            const { customMessage, messages } = field.validation;
+            translated.validation = {
+                ...field.validation,
+                ...(customMessage && { customMessage: translate(`${prefix}.customMessage`, customMessage) }),
+                ...(messages && { messages: translateMessages(`${prefix}.messages`, messages) }),
+            };
+        }
+        if (field.options) {
+            translated.options = field.options.map(normalizeOption).map(option => ({
+                ...option,
+                label: translate(`${prefix}.options.${option.value}`, option.label),
+            }));
+        }
+        if (field.fields) translated.fields = field.fields.map(translateField);
+        return translated;
+    };
+
+    return {
+        ...schema,
+        formName: translate('formName', schema.formName),
+        formFields: schema.formFields.map(translateField),
+        ...(schema.messages && { messages: translateMessages('messages', schema.messages) }),
+        ...(schema.rules && {
+            rules: schema.rules.map((rule, index) => (rule.message ? { ...rule, message: translate(`rules.${index}.message`, rule.message) } : rule)),
+        }),
+    };
+};
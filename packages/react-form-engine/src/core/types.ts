@@ -0,0 +1,303 @@
+import { MessageOverrides } from './messages.js';
+
+/**
+ * Defines the structure of a single form field within the FormCarve schema.
+ */
+export interface FormField {
+    id: string;
+    type: string; // e.g., 'text', 'email', 'textarea', 'select', 'multi-select', 'checkbox', 'checkbox-group', 'radio', 'submit-button', 'number', 'date', 'phone', 'url', 'address', 'credit-card', 'heading', 'paragraph', 'divider', 'image', 'fieldset', 'repeater', 'calculated'
+    label: string; // The text of 'heading' blocks, the alt text of 'image' blocks and the legend of 'fieldset' groups
+    placeholder?: string; // Optional text hint for input fields
+    required: boolean; // Is this field mandatory?
+    options?: readonly (string | FieldOption)[]; // For 'select', 'multi-select', 'radio', 'checkbox-group' types (e.g., ["Option A", "Option B"])
+    optionsSource?: OptionsSource; // Loads the options at runtime instead of `options`
+    allowOther?: boolean; // 'multi-select' and 'checkbox-group' only: adds an "Other (please specify)" choice with a text input
+    multiple?: boolean; // 'file' only: allows selecting several files
+    mask?: string | FieldMask; // Formats the input while typing; a string is a pattern such as '(999) 999-9999'
+    content?: string; // 'paragraph' only: text with a markdown subset (see parseMarkdown)
+    level?: number; // 'heading' only: 2 to 6 (default 3), below the form title
+    src?: string; // 'image' only: URL of the image
+    fields?: readonly FormField[]; // 'fieldset': the fields grouped under its legend; 'repeater': the fields of each item
+    expression?: string; // 'calculated' only: computes the value from other fields, e.g. 'price * quantity' (see parseExpression)
+    layout?: FieldLayout; // Place in the layout grid; fields take the full width by default
+    validation?: {
+        minLength?: number; // Minimum length for text/number inputs
+        maxLength?: number; // Maximum length for text/number inputs
+        min?: number; // Minimum value for number inputs
+        max?: number; // Maximum value for number inputs
+        minSelections?: number; // Minimum number of choices for multi-select/checkbox-group, once any is made
+        maxSelections?: number; // Maximum number of choices for multi-select/checkbox-group
+        accept?: string; // Accepted file types for file inputs, e.g. 'image/*,.pdf'
+        maxFileSize?: number; // Maximum size of each file in bytes
+        maxFiles?: number; // Maximum number of files for file inputs with `multiple`
+        minItems?: number; // Minimum number of items of a repeater, once any is added; it starts with as many
+        maxItems?: number; // Maximum number of items of a repeater
+        pattern?: string; // Regex pattern for validation (e.g., for email)
+        customMessage?: string; // Error message of every rule of the field, with placeholders like `messages`
+        messages?: MessageOverrides; // Error messages per rule, e.g. { minLength: '{label} needs {min} characters, not {actual}' }
+        email?: boolean; // Email validation
+        url?: boolean; // URL validation
+        phone?: boolean; // Phone validation
+        required?: boolean; // Required field validation (redundant with field.required but more explicit)
+    };
+    conditions?: {
+        visible?: Condition; // Field is only shown (and submitted/validated) when this holds
+        required?: Condition; // Field is required when this holds, in addition to `required`
+    };
+    styling?: {
+        borderRadius?: number;
+        backgroundColor?: string;
+        borderColor?: string;
+        textColor?: string;
+        fontSize?: number;
+        padding?: number;
+    };
+}
+
+/**
+ * Screen widths the layout grid adapts to, matching Tailwind's sm (640px),
+ * md (768px) and lg (1024px) breakpoints. 'base' applies below sm.
+ */
+export type LayoutBreakpoint = 'base' | 'sm' | 'md' | 'lg';
+
+/**
+ * Place of a field in the 12-column grid fields are laid out in. Fields fill
+ * a row from left to right and wrap once the next one doesn't fit.
+ */
+export interface FieldLayout {
+    // Columns the field takes (1-12). A number applies at every width; a breakpoint
+    // left out takes the span of the next smaller one, e.g. { base: 12, md: 6 }
+    span?: number | Partial<Record<LayoutBreakpoint, number>>;
+    newRow?: boolean; // Starts a new row even when the current one has room left
+}
+
+/**
+ * A choice with a label shown to the user and the value submitted for it.
+ * Plain strings in `options` are used as both.
+ */
+export interface FieldOption {
+    label: string;
+    value: string;
+}
+
+/**
+ * Options fetched at runtime, e.g. from an API, through the loader registered
+ * under `loader` in the `optionLoaders` option of FormRenderer.
+ */
+export interface OptionsSource {
+    loader: string; // Name of the loader, e.g. 'countries'
+    params?: Record<string, unknown>; // Passed to the loader as is
+    dependsOn?: readonly string[]; // Field IDs passed to the loader; the options reload when their values change
+}
+
+/**
+ * Formats a single-line input while the user types. The form keeps the raw
+ * value (the characters typed into the slots, digits for phone and card numbers,
+ * a plain decimal number for numbers); `submit` decides which one onSubmit receives.
+ */
+export interface FieldMask {
+    type: 'pattern' | 'phone' | 'card' | 'number' | 'currency';
+    pattern?: string; // 'pattern': 9 is a digit, a a letter, * a letter or digit; anything else is inserted as is
+    country?: string; // 'phone': ISO 3166 country code picking the national format (default 'US')
+    locale?: string; // 'number', 'currency': BCP 47 locale for the separators (default 'en-US')
+    currency?: string; // 'currency': ISO 4217 code (default 'USD')
+    decimals?: number; // 'number', 'currency': maximum number of decimals (default 2 for currencies)
+    submit?: 'raw' | 'formatted'; // Default 'raw'
+}
+
+/**
+ * Comparison operators available in condition rules.
+ */
+export type ConditionOperator = 'equals' | 'not-equals' | 'in' | 'greater-than' | 'is-empty';
+
+/**
+ * Compares the current value of another field with a fixed value.
+ */
+export interface ConditionRule {
+    fieldId: string; // ID of the field whose value is checked
+    operator: ConditionOperator;
+    value?: any; // Compared value; an array for 'in', unused for 'is-empty'
+}
+
+/**
+ * Combines several conditions: 'all' holds when every condition holds,
+ * 'any' when at least one does.
+ */
+export interface ConditionGroup {
+    combinator: 'all' | 'any';
+    rules: readonly Condition[];
+}
+
+export type Condition = ConditionRule | ConditionGroup;
+
+/**
+ * Operators comparing the values of two fields.
+ */
+export type ComparisonOperator = 'equals' | 'not-equals' | 'greater-than' | 'greater-than-or-equal' | 'less-than' | 'less-than-or-equal';
+
+/**
+ * Compares a field with another field, e.g. "confirm email equals email" or
+ * "end date greater than start date". The error is shown on `fieldId`.
+ */
+export interface CompareRule {
+    type: 'compare';
+    fieldId: string;
+    operator: ComparisonOperator;
+    otherFieldId: string;
+    message?: string; // Replaces the built-in error message
+}
+
+/**
+ * Requires at least one of several fields to be filled in, e.g. "phone or email".
+ * The error is shown on each of the fields.
+ */
+export interface AtLeastOneRule {
+    type: 'at-least-one';
+    fieldIds: readonly string[];
+    message?: string; // Replaces the built-in error message
+}
+
+/**
+ * A form-level validation rule spanning several fields.
+ */
+export type FormRule = CompareRule | AtLeastOneRule;
+
+/**
+ * Value of an 'address' field.
+ */
+export interface AddressValue {
+    street: string;
+    city: string;
+    state: string;
+    postalCode: string;
+    country: string;
+}
+
+/**
+ * Value of a 'credit-card' field.
+ */
+export interface CreditCardValue {
+    number: string; // Card number, digits only or grouped with spaces
+    name: string; // Cardholder name
+    expiry: string; // MM/YY
+    cvc: string;
+}
+
+/**
+ * A file of a 'file' field after the uploader stored it. Replaces the File in
+ * the submission data; `reference` is whatever the uploader resolved to, e.g.
+ * a URL or a storage key.
+ */
+export interface UploadedFile {
+    name: string;
+    size: number; // In bytes
+    type: string; // MIME type, empty when unknown
+    reference: unknown;
+}
+
+/**
+ * The schema object exported by the FormCarve builder.
+ */
+export interface FormSchema {
+    schemaVersion?: number; // Format version, see SCHEMA_VERSION; missing means version 1
+    formName: string;
+    formFields: readonly FormField[];
+    rules?: readonly FormRule[]; // Cross-field validation rules
+    messages?: MessageOverrides; // Replaces built-in messages in every field, e.g. { required: 'Please fill in {label}' }
+    locale?: string; // BCP 47 language of the texts of the schema (default 'en')
+    translations?: Readonly<Record<string, FormTranslation>>; // Texts in other languages, keyed by locale, e.g. 'fr' or 'fr-CA'
+}
+
+/**
+ * Texts of a schema in one language, keyed by where they go (see
+ * getTranslatableTexts): 'formName', 'fields.<id>.label', 'fields.<id>.placeholder',
+ * 'fields.<id>.content', 'fields.<id>.customMessage', 'fields.<id>.messages.<name>',
+ * 'fields.<id>.options.<value>', 'rules.<index>.message' and 'messages.<name>'. Texts left out are shown in the next language
+ * of the locale chain, and finally as written in the schema.
+ */
+export type FormTranslation = Readonly<Record<string, string>>;
+
+/**
+ * Current values of a form, keyed by field ID.
+ */
+export type FormValues = Record<string, any>;
+
+/**
+ * Validation errors of a form, keyed by field ID. Valid fields have no entry.
+ */
+export type FormErrors = Record<string, string>;
+
+// Field types that never carry a value, mirroring isInputField
+type NonInputFieldType = 'submit-button' | 'page-break' | 'fieldset' | ContentBlockType;
+
+// Mirrors isContentBlock
+type ContentBlockType = 'heading' | 'paragraph' | 'divider' | 'image';
+
+type IsRequiredField<F> =
+    F extends { required: true } ? true
+    : F extends { validation: { required: true } } ? true
+    : false;
+
+type OptionValue<O> = O extends { value: infer V } ? V : O;
+
+// Loaded options are only known at runtime
+type OptionOf<F> =
+    F extends { optionsSource: object } ? string
+    : F extends { options: readonly (infer O)[] } ? (string extends OptionValue<O> ? string : OptionValue<O>)
+    : string;
+
+// Submitted value of a filled-in field (see coerceSubmission)
+type FieldValue<F> =
+    F extends { mask: { submit: 'formatted' } } ? string
+    : F extends { type: 'checkbox' } ? boolean
+    : F extends { type: 'select' | 'radio' } ? OptionOf<F>
+    : F extends { type: 'checkbox-group' | 'multi-select' } ? (F extends { allowOther: true } ? string : OptionOf<F>)[]
+    : F extends { type: 'number' | 'rating' } ? number
+    : F extends { type: 'file' } ? (File | UploadedFile)[]
+    : F extends { type: 'address' } ? AddressValue
+    : F extends { type: 'credit-card' } ? CreditCardValue
+    : F extends { type: 'repeater'; fields: readonly (infer C)[] } ? FieldsData<C>[]
+    : F extends { type: 'calculated' } ? number | string | boolean | unknown[]
+    : F extends { type: 'text' | 'textarea' | 'email' | 'date' | 'phone' | 'url' } ? string
+    : unknown; // Custom field types
+
+// Checkboxes and multi-value fields are submitted even when left empty
+type AlwaysSubmittedFieldType = 'checkbox' | 'checkbox-group' | 'multi-select' | 'file' | 'repeater';
+
+type ConditionallyShown<F> = F extends unknown ? F & { conditions: { visible: Condition } } : never;
+
+// Fields grouped in fieldsets are fields of the form too; those of a conditionally
+// shown fieldset are conditionally shown themselves (see flattenFields)
+type FlatFieldOf<F> = F | (
+    F extends { type: 'fieldset'; fields: readonly (infer C)[] }
+        ? F extends { conditions: { visible: Condition } } ? ConditionallyShown<FlatFieldOf<C>> : FlatFieldOf<C>
+        : never
+);
+
+// The type parameters below are unions of field types, e.g. S['formFields'][number]
+type InputFieldOf<F> = Extract<Exclude<FlatFieldOf<F>, { type: NonInputFieldType }>, FormField>;
+
+// Fields that are always visible and either required or always submitted
+type PresentFieldOf<F> = Exclude<
+    Extract<InputFieldOf<F>, { required: true } | { validation: { required: true } } | { type: AlwaysSubmittedFieldType }>,
+    { conditions: { visible: Condition } }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Data of a list of fields: the whole form, or an item of a repeater
+type FieldsData<F> = Simplify<
+    { [P in PresentFieldOf<F> as P['id']]: FieldValue<P> }
+    & { [P in Exclude<InputFieldOf<F>, PresentFieldOf<F>> as P['id']]?: FieldValue<P> | null }
+>;
+
+/**
+ * The data passed to onSubmit for a schema declared `as const`, keyed by field
+ * ID. Optional fields may be empty (null, or left out with `emptyValues: 'omit'`)
+ * and fields with a visibility condition may be hidden, so both are optional keys.
+ * Schemas whose field IDs are not literal types fall back to FormValues.
+ */
+export type InferFormData<S extends FormSchema> =
+    string extends S['formFields'][number]['id']
+        ? FormValues
+        : FieldsData<S['formFields'][number]>;
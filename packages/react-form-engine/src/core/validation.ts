@@ -0,0 +1,430 @@
+import { AddressValue, CreditCardValue, FormErrors, FormField, FormRule, FormValues } from './types.js';
+import { resolveFields } from './conditions.js';
+import { flattenFields } from './layout.js';
+import { CHECKBOX_TEXTS, isChecked, isEmptyValue, isInputField } from './values.js';
+import { validateRules } from './rules.js';
+import { isMaskComplete, resolveMask } from './masks.js';
+import { getOptionValues } from './options.js';
+import { acceptsMultipleFiles, formatFileSize, isFileInfo, matchesAccept } from './files.js';
+import { getItemFieldId, isRepeater, resolveItemFields } from './repeaters.js';
+import { toIsoDate } from './coercion.js';
+import { createMessageFormatter, formatMessage, getLocaleChain, MessageKey, MessageOverrides, MessageParams } from './messages.js';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_REGEX = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
+export const PHONE_REGEX = /^\+?[0-9\s().-]{7,20}$/;
+
+/**
+ * Options of validateField, validateForm and validateRules.
+ */
+export interface ValidationOptions {
+    // Language of the built-in messages, or languages in order of preference, e.g. 'fr-CA'
+    // or navigator.languages. Missing messages fall back to English.
+    locale?: string | readonly string[];
+    messages?: MessageOverrides; // Replaces built-in messages, usually the `messages` of the schema
+}
+
+// Message of a failed check; `label` is added to the params
+type MessageFn = (key: MessageKey, params?: MessageParams) => string;
+
+// Messages of a field: its own `validation.messages` or `customMessage` win over the
+// form's messages, which win over the built-in ones
+export const createFieldMessage = (field: FormField, options: ValidationOptions = {}): MessageFn => {
+    const rules = field.validation || {};
+    const locales = getLocaleChain(options.locale);
+    const formatter = createMessageFormatter(locales, rules.messages, options.messages);
+    return (key, params) => {
+        const allParams = { label: field.label, ...params };
+        if (!rules.messages?.[key] && rules.customMessage) return formatMessage(rules.customMessage, allParams, locales[0]);
+        return formatter(key, allParams);
+    };
+};
+
+// Luhn checksum used by all major card networks
+const passesLuhn = (digits: string): boolean => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+const validateAddress = (value: AddressValue, message: MessageFn): string | null => {
+    // The state/province is optional as many countries don't use one
+    const requiredParts: (keyof AddressValue)[] = ['street', 'city', 'postalCode', 'country'];
+    if (requiredParts.some(part => isEmptyValue(value[part]))) {
+        return message('incomplete');
+    }
+    return null;
+};
+
+const validateCreditCard = (value: CreditCardValue, message: MessageFn): string | null => {
+    const digits = (value.number || '').replace(/[\s-]/g, '');
+    if (!/^\d{12,19}$/.test(digits) || !passesLuhn(digits)) {
+        return message('invalidCardNumber');
+    }
+
+    if (isEmptyValue(value.name)) {
+        return message('missingCardName');
+    }
+
+    const expiry = /^(0[1-9]|1[0-2])\s*\/\s*(\d{2})$/.exec((value.expiry || '').trim());
+    if (!expiry) {
+        return message('invalidCardExpiry');
+    }
+    // Cards are valid until the end of their expiry month
+    const expiresAt = new Date(2000 + Number(expiry[2]), Number(expiry[1]), 1);
+    if (expiresAt <= new Date()) {
+        return message('cardExpired');
+    }
+
+    if (!/^\d{3,4}$/.test((value.cvc || '').trim())) {
+        return message('invalidCardCvc');
+    }
+
+    return null;
+};
+
+const isPlainObject = (value: unknown): boolean =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Whether a value has the shape FormRenderer gives the field type's values. Other
+// shapes can only come from a tampered payload and would skip the checks below.
+const hasValueShape = (field: FormField, value: unknown): boolean => {
+    switch (field.type) {
+        case 'text':
+        case 'textarea':
+        case 'email':
+        case 'url':
+        case 'phone':
+        case 'date':
+        case 'select':
+        case 'radio':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'string' || typeof value === 'number';
+        case 'checkbox':
+            return typeof value === 'boolean';
+        case 'checkbox-group':
+        case 'multi-select':
+        case 'file':
+            return Array.isArray(value);
+        case 'repeater':
+            return Array.isArray(value) && value.every(isPlainObject);
+        case 'address':
+        case 'credit-card':
+            return isPlainObject(value);
+        default:
+            // Ratings check their values themselves; calculated and custom fields may hold anything
+            return true;
+    }
+};
+
+// Choice of a select or radio group. Options loaded from an `optionsSource`
+// are only known in the browser, so any text is accepted for those.
+const validateChoice = (field: FormField, value: unknown, message: MessageFn): string | null => {
+    if (typeof value !== 'string' || (!field.optionsSource && !getOptionValues(field).includes(value))) {
+        return message('invalidOption', { actual: String(value) });
+    }
+    return null;
+};
+
+// Choices of a multi-select or checkbox group; entries that are not one of the
+// options hold the "Other" answer, which is blank until the user types it.
+// Anything else, such as a second unknown entry, can only come from a tampered payload.
+const validateSelections = (field: FormField, value: unknown[], message: MessageFn): string | null => {
+    const rules = field.validation || {};
+    const options = getOptionValues(field);
+
+    const invalidItem = value.find(item => typeof item !== 'string');
+    if (invalidItem !== undefined) {
+        return message('invalidOption', { actual: String(invalidItem) });
+    }
+    const unknownItems = field.optionsSource ? [] : (value as string[]).filter(item => !options.includes(item));
+    if (unknownItems.length > (field.allowOther ? 1 : 0)) {
+        return message('invalidOption', { actual: unknownItems[unknownItems.length - 1] });
+    }
+
+    if (field.allowOther && unknownItems.some(item => isEmptyValue(item))) {
+        return message('missingOther');
+    }
+
+    if (rules.minSelections !== undefined && value.length < rules.minSelections) {
+        return message('minSelections', { min: rules.minSelections, count: rules.minSelections, actual: value.length });
+    }
+
+    if (rules.maxSelections !== undefined && value.length > rules.maxSelections) {
+        return message('maxSelections', { max: rules.maxSelections, count: rules.maxSelections, actual: value.length });
+    }
+
+    return null;
+};
+
+// Files of a file field, either File objects or files the uploader already stored
+const validateFiles = (field: FormField, value: unknown[], message: MessageFn): string | null => {
+    const rules = field.validation || {};
+
+    const maxFiles = acceptsMultipleFiles(field) ? rules.maxFiles : 1;
+    if (maxFiles !== undefined && value.length > maxFiles) {
+        return message('maxFiles', { max: maxFiles, count: maxFiles, actual: value.length });
+    }
+
+    for (const file of value.filter(isFileInfo)) {
+        if (rules.accept && !matchesAccept(file, rules.accept)) {
+            return message('fileType', { file: file.name, actual: file.type });
+        }
+        if (rules.maxFileSize !== undefined && file.size > rules.maxFileSize) {
+            return message('fileSize', { file: file.name, size: formatFileSize(rules.maxFileSize), actual: formatFileSize(file.size) });
+        }
+    }
+
+    return null;
+};
+
+// Whole number of stars, from `validation.min` (1 by default) to `validation.max` (5 by default)
+const validateRating = (field: FormField, value: unknown, message: MessageFn): string | null => {
+    const rules = field.validation || {};
+    const stars = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+    if (!isFinite(stars)) {
+        return message('number', { actual: String(value) });
+    }
+    if (!Number.isInteger(stars)) {
+        return message('invalidOption', { actual: stars });
+    }
+    const min = rules.min ?? 1;
+    const max = rules.max ?? 5;
+    if (stars < min) {
+        return message('min', { min, actual: stars });
+    }
+    if (stars > max) {
+        return message('max', { max, actual: stars });
+    }
+    return null;
+};
+
+// Number of items of a repeater; the fields of each item are checked by validateForm
+const validateItemCount = (field: FormField, value: unknown[], message: MessageFn): string | null => {
+    const rules = field.validation || {};
+
+    if (rules.minItems !== undefined && value.length < rules.minItems) {
+        return message('minItems', { min: rules.minItems, count: rules.minItems, actual: value.length });
+    }
+
+    if (rules.maxItems !== undefined && value.length > rules.maxItems) {
+        return message('maxItems', { max: rules.maxItems, count: rules.maxItems, actual: value.length });
+    }
+
+    return null;
+};
+
+/**
+ * Validates a single field value against the field's `required` flag and every
+ * rule in `field.validation`. Returns an error message, or null when valid:
+ * the message of the failed rule in `validation.messages`, the field's
+ * `customMessage`, the message in `options.messages` or the built-in message
+ * in `options.locale`, whichever comes first. Placeholders such as {label},
+ * {min}, {max} and {actual} (the length, number or count that failed) are
+ * filled in in all of them.
+ */
+export const validateField = (field: FormField, value: unknown, options: ValidationOptions = {}): string | null => {
+    if (!isInputField(field)) return null;
+
+    const rules = field.validation || {};
+    const message = createFieldMessage(field, options);
+
+    // Checkboxes posted by an HTML form hold text, where 'false' is unchecked
+    if (field.type === 'checkbox' && typeof value === 'string' && CHECKBOX_TEXTS.includes(value)) {
+        value = isChecked(value);
+    }
+
+    // Required validation
+    if (isEmptyValue(value)) {
+        return field.required || rules.required ? message('required') : null;
+    }
+
+    if (!hasValueShape(field, value)) {
+        return message('invalidValue', { actual: typeof value });
+    }
+
+    if (field.type === 'checkbox-group' || field.type === 'multi-select') {
+        return validateSelections(field, value as unknown[], message);
+    }
+
+    if (field.type === 'select' || field.type === 'radio') {
+        const choiceError = validateChoice(field, value, message);
+        if (choiceError) return choiceError;
+    }
+
+    if (field.type === 'rating') return validateRating(field, value, message);
+
+    if (Array.isArray(value) && field.type === 'file') {
+        return validateFiles(field, value, message);
+    }
+
+    if (Array.isArray(value) && isRepeater(field)) {
+        return validateItemCount(field, value, message);
+    }
+
+    // Checkboxes only have a required state
+    if (typeof value === 'boolean' || Array.isArray(value)) return null;
+
+    // Structured values are checked part by part
+    if (field.type === 'address') return validateAddress(value as AddressValue, message);
+    if (field.type === 'credit-card') return validateCreditCard(value as CreditCardValue, message);
+
+    const stringValue = String(value);
+
+    // Masked values are checked in their raw form, so only unfilled slots are reported here
+    const mask = resolveMask(field);
+    if (mask && !isMaskComplete(mask, stringValue)) {
+        return message('incomplete');
+    }
+
+    // Min/Max length validation
+    if (rules.minLength !== undefined && stringValue.length < rules.minLength) {
+        return message('minLength', { min: rules.minLength, count: rules.minLength, actual: stringValue.length });
+    }
+
+    if (rules.maxLength !== undefined && stringValue.length > rules.maxLength) {
+        return message('maxLength', { max: rules.maxLength, count: rules.maxLength, actual: stringValue.length });
+    }
+
+    // Min/Max value validation for numbers
+    if (rules.min !== undefined || rules.max !== undefined || field.type === 'number') {
+        // The whole text has to be a number, e.g. '12abc' is not 12
+        const numValue = typeof value === 'number' ? value : Number(stringValue);
+
+        if (!isFinite(numValue)) {
+            return message('number', { actual: stringValue });
+        }
+
+        if (rules.min !== undefined && numValue < rules.min) {
+            return message('min', { min: rules.min, actual: numValue });
+        }
+
+        if (rules.max !== undefined && numValue > rules.max) {
+            return message('max', { max: rules.max, actual: numValue });
+        }
+    }
+
+    // Format validation, either requested explicitly or implied by the field type
+    if (field.type === 'date' && toIsoDate(stringValue.trim()) === null) {
+        return message('date', { actual: stringValue });
+    }
+
+    if ((rules.email || field.type === 'email') && !EMAIL_REGEX.test(stringValue)) {
+        return message('email', { actual: stringValue });
+    }
+
+    if ((rules.url || field.type === 'url') && !URL_REGEX.test(stringValue)) {
+        return message('url', { actual: stringValue });
+    }
+
+    if ((rules.phone || field.type === 'phone') && !PHONE_REGEX.test(stringValue)) {
+        return message('phone', { actual: stringValue });
+    }
+
+    // Pattern validation
+    if (rules.pattern) {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(rules.pattern);
+        } catch {
+            // An invalid pattern in the schema should not make the field impossible to submit
+            return null;
+        }
+        if (!regex.test(stringValue)) {
+            return message('pattern', { actual: stringValue });
+        }
+    }
+
+    return null;
+};
+
+// Messages of the checks only some field types run
+const TYPE_MESSAGE_KEYS: Record<string, MessageKey[]> = {
+    'checkbox-group': ['invalidOption', 'minSelections', 'maxSelections'],
+    'multi-select': ['invalidOption', 'minSelections', 'maxSelections'],
+    file: ['maxFiles', 'fileType', 'fileSize'],
+    repeater: ['minItems', 'maxItems'],
+    address: ['incomplete'],
+    'credit-card': ['invalidCardNumber', 'missingCardName', 'invalidCardExpiry', 'cardExpired', 'invalidCardCvc'],
+    number: ['number', 'min', 'max'],
+    date: ['date'],
+    rating: ['number', 'invalidOption', 'min', 'max'],
+    select: ['invalidOption'],
+    radio: ['invalidOption'],
+    calculated: ['min', 'max'],
+};
+
+const TEXT_TYPES = ['text', 'textarea', 'email', 'url', 'phone'];
+
+/**
+ * Returns the names of the built-in messages validateField can report for a
+ * field, i.e. the keys of `validation.messages` that apply to it.
+ */
+export const getValidationMessageKeys = (field: FormField): MessageKey[] => {
+    if (!isInputField(field)) return [];
+    const rules = field.validation || {};
+    const keys: MessageKey[] = ['required', ...(TYPE_MESSAGE_KEYS[field.type] || [])];
+    // Field types with a fixed shape report values of another one
+    if (!hasValueShape(field, undefined)) keys.push('invalidValue');
+
+    if (field.allowOther) keys.push('missingOther');
+    if (resolveMask(field)) keys.push('incomplete');
+    if (TEXT_TYPES.includes(field.type)) {
+        keys.push('minLength', 'maxLength');
+        if (rules.min !== undefined || rules.max !== undefined) keys.push('number', 'min', 'max');
+        if (rules.email || field.type === 'email') keys.push('email');
+        if (rules.url || field.type === 'url') keys.push('url');
+        if (rules.phone || field.type === 'phone') keys.push('phone');
+        keys.push('pattern');
+    }
+    return Array.from(new Set(keys));
+};
+
+/**
+ * Validates every visible field of a form, honouring conditional requiredness,
+ * then applies the cross-field `rules` to fields that passed their own checks.
+ * The fields of each repeater item are validated the same way, with their
+ * errors keyed by getItemFieldId, e.g. 'dependents.0.name'.
+ * Returns an object containing an error message for each invalid field; an
+ * empty object means the form is valid.
+ */
+export const validateForm = (fields: readonly FormField[], values: FormValues, rules: readonly FormRule[] = [], options: ValidationOptions = {}): FormErrors => {
+    const errors: FormErrors = {};
+    const visibleFields = flattenFields(resolveFields(fields, values));
+
+    visibleFields.forEach(field => {
+        const error = validateField(field, values[field.id], options);
+        if (error) {
+            errors[field.id] = error;
+        }
+
+        const items = values[field.id];
+        if (!isRepeater(field) || !Array.isArray(items)) return;
+        items.forEach((item: FormValues, index) => {
+            const itemValues = item || {};
+            flattenFields(resolveItemFields(field, itemValues, values)).forEach(itemField => {
+                const itemError = validateField(itemField, itemValues[itemField.id], options);
+                if (itemError) {
+                    errors[getItemFieldId(field.id, index, itemField.id)] = itemError;
+                }
+            });
+        });
+    });
+
+    const ruleErrors = validateRules(rules, visibleFields, values, options);
+    Object.keys(ruleErrors).forEach(fieldId => {
+        if (!errors[fieldId]) {
+            errors[fieldId] = ruleErrors[fieldId];
+        }
+    });
+
+    return errors;
+};
@@ -0,0 +1,100 @@
+import { FormField, FormValues } from './types.js';
+import { flattenFields } from './layout.js';
+
+// Text, images and dividers shown between the fields
+const CONTENT_BLOCK_TYPES = ['heading', 'paragraph', 'divider', 'image'];
+
+// Field types that never carry a value: they are not validated or submitted
+const NON_INPUT_TYPES = ['submit-button', 'page-break', 'fieldset', ...CONTENT_BLOCK_TYPES];
+
+/**
+ * Label of the free-text choice of multi-select and checkbox-group fields with
+ * `allowOther`, in English; forms show the `otherOption` message of their language.
+ */
+export const OTHER_OPTION_LABEL = 'Other (please specify)';
+
+/**
+ * Returns true for blocks that only display content: headings, paragraphs,
+ * dividers and images.
+ */
+export const isContentBlock = (field: FormField): boolean => CONTENT_BLOCK_TYPES.includes(field.type);
+
+/**
+ * Returns true when the field collects a value from the user.
+ */
+export const isInputField = (field: FormField): boolean => !NON_INPUT_TYPES.includes(field.type);
+
+// Texts an HTML form posts for a checkbox; 'on' is the value of a checked one without a `value`
+export const CHECKBOX_TEXTS = ['true', 'on', 'false'];
+
+/**
+ * Returns true when a checkbox value means checked: true, or the text 'true'
+ * or 'on' that HTML forms post. Anything else, including 'false', is unchecked.
+ */
+export const isChecked = (value: unknown): boolean => value === true || value === 'true' || value === 'on';
+
+/**
+ * Returns true when a value should be treated as "not filled in".
+ * Note that `0` is a valid value for number and rating fields.
+ */
+export const isEmptyValue = (value: unknown): boolean => {
+    if (value === undefined || value === null || value === false) return true;
+    if (typeof value === 'string') return value.trim() === '';
+    if (Array.isArray(value)) return value.length === 0;
+    // Structured values such as addresses are empty when every part is empty
+    if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.values(value as object).every(isEmptyValue);
+    }
+    return false;
+};
+
+/**
+ * Returns the value a field starts with when no initial value is provided.
+ */
+export const getDefaultValue = (field: FormField): any => {
+    switch (field.type) {
+        case 'checkbox':
+            return false;
+        case 'radio':
+            return undefined;
+        case 'rating':
+        case 'calculated':
+            return null;
+        case 'checkbox-group':
+        case 'multi-select':
+        case 'file':
+            return [];
+        case 'address':
+            return { street: '', city: '', state: '', postalCode: '', country: '' };
+        case 'credit-card':
+            return { number: '', name: '', expiry: '', cvc: '' };
+        case 'repeater':
+            // As many blank items as the repeater needs at least
+            return Array.from({ length: field.validation?.minItems ?? 0 }, () => getInitialValues(field.fields || []));
+        default:
+            return '';
+    }
+};
+
+/**
+ * Builds the starting values of a form: the field defaults, overridden by any
+ * provided `initialValues`. Fields that carry no value are skipped; fields
+ * grouped in fieldsets are included. The items of repeaters are completed the
+ * same way, field by field.
+ */
+export const getInitialValues = (fields: readonly FormField[], initialValues: FormValues = {}): FormValues => {
+    const values: FormValues = {};
+
+    flattenFields(fields).forEach(field => {
+        if (!isInputField(field)) return;
+        if (!(field.id in initialValues)) {
+            values[field.id] = getDefaultValue(field);
+        } else if (field.type === 'repeater' && Array.isArray(initialValues[field.id])) {
+            values[field.id] = initialValues[field.id].map((item: FormValues) => getInitialValues(field.fields || [], item || {}));
+        } else {
+            values[field.id] = initialValues[field.id];
+        }
+    });
+
+    return values;
+};
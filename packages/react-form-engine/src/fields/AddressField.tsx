@@ -0,0 +1,55 @@
+import React from 'react';
+import { AddressValue } from '../core/types.js';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLegend, FieldWrapper, getFieldAriaProps } from './common.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+import { MessageKey } from '../core/messages.js';
+
+// `optional` parts may be left blank in a complete address (see validateAddress)
+const ADDRESS_PARTS: { key: keyof AddressValue; label: MessageKey; autoComplete: string; fullWidth?: boolean; optional?: boolean }[] = [
+    { key: 'street', label: 'addressStreet', autoComplete: 'street-address', fullWidth: true },
+    { key: 'city', label: 'addressCity', autoComplete: 'address-level2' },
+    { key: 'state', label: 'addressState', autoComplete: 'address-level1', optional: true },
+    { key: 'postalCode', label: 'addressPostalCode', autoComplete: 'postal-code' },
+    { key: 'country', label: 'addressCountry', autoComplete: 'country-name' },
+];
+
+/**
+ * Postal address made of one input per address part, in a fieldset whose
+ * legend is the label.
+ */
+export const AddressField: React.FC<FieldComponentProps<AddressValue>> = ({ field, value, onChange, error, validating }) => {
+    const theme = useFormTheme();
+    const t = useFormMessages();
+    const aria = getFieldAriaProps({ field, error, validating });
+    return (
+        <FieldWrapper>
+            <fieldset id={field.id} aria-describedby={aria['aria-describedby']} className={cx(theme.classNames.fieldGroup)}>
+                <FieldLegend field={field} />
+                <div className={cx(theme.classNames.partGrid)}>
+                    {ADDRESS_PARTS.map(part => (
+                        <div key={part.key} className={cx(part.fullWidth && theme.classNames.partFullWidth)}>
+                            <label htmlFor={`${field.id}-${part.key}`} className={cx(theme.classNames.subLabel)}>
+                                {t(part.label)}
+                            </label>
+                            <input
+                                id={`${field.id}-${part.key}`}
+                                name={`${field.id}.${part.key}`}
+                                type="text"
+                                autoComplete={part.autoComplete}
+                                aria-required={field.required && !part.optional}
+                                aria-invalid={aria['aria-invalid']}
+                                value={value?.[part.key] ?? ''}
+                                onChange={e => onChange({ ...value, [part.key]: e.target.value })}
+                                className={cx(theme.classNames.input)}
+                                style={getInputStyle(field, theme)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </fieldset>
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLabel, FieldWrapper, getFieldAriaProps } from './common.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+import { MessageFormatter } from '../core/messages.js';
+
+const formatValue = (value: unknown, t: MessageFormatter): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return value.toLocaleString();
+    if (typeof value === 'boolean') return t(value ? 'yes' : 'no');
+    if (Array.isArray(value)) return value.map(item => formatValue(item, t)).join(', ');
+    return String(value);
+};
+
+/**
+ * Read-only value the engine computes from other fields with the field's
+ * `expression`. Shows the placeholder while the value is empty.
+ */
+export const CalculatedField: React.FC<FieldComponentProps<unknown>> = ({ field, value, error }) => {
+    const theme = useFormTheme();
+    const t = useFormMessages();
+    const text = formatValue(value, t);
+
+    return (
+        <FieldWrapper>
+            <FieldLabel field={field} htmlFor={field.id} />
+            <output
+                id={field.id}
+                name={field.id}
+                aria-live="polite"
+                aria-describedby={getFieldAriaProps({ field, error })['aria-describedby']}
+                className={cx(theme.classNames.input)}
+                style={getInputStyle(field, theme)}
+            >
+                {/* A non-breaking space keeps the height of an empty box */}
+                {text || field.placeholder || ' '}
+            </output>
+            <FieldError fieldId={field.id} error={error} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLabel, FieldWrapper, getFieldAriaProps } from './common.js';
+import { cx, useFormTheme } from '../theme.js';
+
+/**
+ * Single checkbox with its label on the right. The value is a boolean.
+ */
+export const CheckboxField: React.FC<FieldComponentProps<boolean>> = ({ field, value, onChange, error, validating }) => {
+    const { classNames } = useFormTheme();
+    return (
+        <FieldWrapper>
+            <div className={cx(classNames.option)}>
+                <input
+                    id={field.id}
+                    name={field.id}
+                    type="checkbox"
+                    required={field.required}
+                    {...getFieldAriaProps({ field, error, validating })}
+                    checked={!!value}
+                    onChange={e => onChange(e.target.checked)}
+                    className={cx(classNames.checkbox)}
+                />
+                <FieldLabel field={field} htmlFor={field.id} slot="optionLabel" />
+            </div>
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLegend, FieldWrapper, getFieldAriaProps, joinSelection, OptionsStatusNote, OtherInput, splitSelection } from './common.js';
+import { getFieldOptions } from '../core/options.js';
+import { cx, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+
+/**
+ * One checkbox per entry in `field.options`, plus an "Other" checkbox with a
+ * text input when `field.allowOther` is set, in a fieldset whose legend is the
+ * label. The value is the list of choices.
+ */
+export const CheckboxGroupField: React.FC<FieldComponentProps<string[]>> = ({ field, value, onChange, error, validating, optionsStatus }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    const { selected, other } = splitSelection(field, value);
+    const aria = getFieldAriaProps({ field, error, validating, optionsStatus });
+
+    const toggleOption = (option: string, checked: boolean) => {
+        onChange(joinSelection(field, {
+            selected: checked ? [...selected, option] : selected.filter(item => item !== option),
+            other,
+        }));
+    };
+
+    return (
+        <FieldWrapper>
+            <fieldset id={field.id} aria-describedby={aria['aria-describedby']} className={cx(classNames.fieldGroup)}>
+                <FieldLegend field={field} />
+                <div className={cx(classNames.optionGroup)}>
+                    {getFieldOptions(field).map((option, idx) => (
+                        <div key={idx} className={cx(classNames.option)}>
+                            <input
+                                id={`${field.id}-${idx}`}
+                                name={field.id}
+                                type="checkbox"
+                                aria-invalid={aria['aria-invalid']}
+                                value={option.value}
+                                checked={selected.includes(option.value)}
+                                onChange={e => toggleOption(option.value, e.target.checked)}
+                                className={cx(classNames.checkbox)}
+                            />
+                            <label htmlFor={`${field.id}-${idx}`} className={cx(classNames.optionLabel)}>
+                                {option.label}
+                            </label>
+                        </div>
+                    ))}
+                    {field.allowOther && (
+                        <div className={cx(classNames.option)}>
+                            <input
+                                id={`${field.id}-other`}
+                                name={field.id}
+                                type="checkbox"
+                                aria-invalid={aria['aria-invalid']}
+                                checked={other !== undefined}
+                                onChange={e => onChange(joinSelection(field, { selected, other: e.target.checked ? '' : undefined }))}
+                                className={cx(classNames.checkbox)}
+                            />
+                            <label htmlFor={`${field.id}-other`} className={cx(classNames.optionLabel)}>
+                                {t('otherOption')}
+                            </label>
+                        </div>
+                    )}
+                    {other !== undefined && (
+                        <OtherInput field={field} value={other} onChange={text => onChange(joinSelection(field, { selected, other: text }))} />
+                    )}
+                </div>
+            </fieldset>
+            <OptionsStatusNote fieldId={field.id} status={optionsStatus} />
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { MarkdownInline, parseMarkdown } from '../core/markdown.js';
+import { FieldComponentProps } from './types.js';
+import { cx, useFormTheme } from '../theme.js';
+
+const DEFAULT_HEADING_LEVEL = 3;
+
+const InlineContent: React.FC<{ nodes: MarkdownInline[] }> = ({ nodes }) => {
+    const { classNames } = useFormTheme();
+    return (
+        <>
+            {nodes.map((node, idx) => {
+                switch (node.type) {
+                    case 'text':
+                        return <React.Fragment key={idx}>{node.text}</React.Fragment>;
+                    case 'strong':
+                        return <strong key={idx}><InlineContent nodes={node.children} /></strong>;
+                    case 'emphasis':
+                        return <em key={idx}><InlineContent nodes={node.children} /></em>;
+                    case 'code':
+                        return <code key={idx}>{node.text}</code>;
+                    case 'link':
+                        // Opened in a new tab so following a link doesn't discard the form
+                        return (
+                            <a key={idx} href={node.href} target="_blank" rel="noopener noreferrer" className={cx(classNames.link)}>
+                                <InlineContent nodes={node.children} />
+                            </a>
+                        );
+                    case 'break':
+                        return <br key={idx} />;
+                }
+            })}
+        </>
+    );
+};
+
+/**
+ * Renders text written in the markdown subset of paragraph blocks (see
+ * parseMarkdown). Reusable by custom field components.
+ */
+export const Markdown: React.FC<{ source: string; className?: string }> = ({ source, className }) => {
+    const blocks = React.useMemo(() => parseMarkdown(source), [source]);
+    return (
+        <div className={className}>
+            {blocks.map((block, idx) => {
+                if (block.type === 'paragraph') {
+                    return <p key={idx}><InlineContent nodes={block.children} /></p>;
+                }
+                const List = block.ordered ? 'ol' : 'ul';
+                return (
+                    <List key={idx}>
+                        {block.items.map((item, itemIdx) => <li key={itemIdx}><InlineContent nodes={item} /></li>)}
+                    </List>
+                );
+            })}
+        </div>
+    );
+};
+
+/**
+ * Section title; the label is its text and `level` picks the heading element.
+ */
+export const HeadingBlock: React.FC<FieldComponentProps<undefined>> = ({ field }) => {
+    const { classNames } = useFormTheme();
+    const level = Math.min(6, Math.max(2, Math.round(field.level ?? DEFAULT_HEADING_LEVEL)));
+    const Heading = `h${level}` as 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+    return <Heading className={cx(classNames.heading)}>{field.label}</Heading>;
+};
+
+/**
+ * Instructions or legal text, written in `content` with a markdown subset.
+ */
+export const ParagraphBlock: React.FC<FieldComponentProps<undefined>> = ({ field }) => {
+    const { classNames } = useFormTheme();
+    return <Markdown source={field.content || ''} className={cx(classNames.paragraph)} />;
+};
+
+/**
+ * Horizontal rule between groups of fields.
+ */
+export const DividerBlock: React.FC<FieldComponentProps<undefined>> = () => {
+    const { classNames } = useFormTheme();
+    return <hr className={cx(classNames.divider)} />;
+};
+
+/**
+ * Image such as a logo; the label is its alt text.
+ */
+export const ImageBlock: React.FC<FieldComponentProps<undefined>> = ({ field }) => {
+    const { classNames } = useFormTheme();
+    if (!field.src) return null;
+    return <img src={field.src} alt={field.label} className={cx(classNames.image)} />;
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { CreditCardValue, FieldMask } from '../core/types.js';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLegend, FieldWrapper, getFieldAriaProps } from './common.js';
+import { MaskedInput } from './MaskedInput.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+import { MessageKey } from '../core/messages.js';
+
+const CARD_PARTS: { key: keyof CreditCardValue; label: MessageKey; autoComplete: string; placeholder?: string; fullWidth?: boolean }[] = [
+    { key: 'number', label: 'cardNumber', autoComplete: 'cc-number', placeholder: '1234 5678 9012 3456', fullWidth: true },
+    { key: 'name', label: 'cardName', autoComplete: 'cc-name', fullWidth: true },
+    { key: 'expiry', label: 'cardExpiry', autoComplete: 'cc-exp', placeholder: 'MM/YY' },
+    { key: 'cvc', label: 'cardCvc', autoComplete: 'cc-csc', placeholder: '123' },
+];
+
+// The card number is shown in groups, e.g. '4242 4242 4242 4242', and kept as digits
+const CARD_NUMBER_MASK: FieldMask = { type: 'card' };
+
+/**
+ * Payment card details made of number, cardholder name, expiry and CVC inputs,
+ * in a fieldset whose legend is the label.
+ */
+export const CreditCardField: React.FC<FieldComponentProps<CreditCardValue>> = ({ field, value, onChange, error, validating }) => {
+    const theme = useFormTheme();
+    const t = useFormMessages();
+    const aria = getFieldAriaProps({ field, error, validating });
+    return (
+        <FieldWrapper>
+            <fieldset id={field.id} aria-describedby={aria['aria-describedby']} className={cx(theme.classNames.fieldGroup)}>
+                <FieldLegend field={field} />
+                <div className={cx(theme.classNames.partGrid)}>
+                    {CARD_PARTS.map(part => (
+                        <div key={part.key} className={cx(part.fullWidth && theme.classNames.partFullWidth)}>
+                            <label htmlFor={`${field.id}-${part.key}`} className={cx(theme.classNames.subLabel)}>
+                                {t(part.label)}
+                            </label>
+                            {part.key === 'number' ? (
+                                <MaskedInput
+                                    id={`${field.id}-${part.key}`}
+                                    name={`${field.id}.${part.key}`}
+                                    mask={CARD_NUMBER_MASK}
+                                    autoComplete={part.autoComplete}
+                                    aria-required={field.required}
+                                    aria-invalid={aria['aria-invalid']}
+                                    placeholder={part.placeholder}
+                                    value={value?.number}
+                                    onChange={number => onChange({ ...value, number })}
+                                    className={cx(theme.classNames.input)}
+                                    style={getInputStyle(field, theme)}
+                                />
+                            ) : (
+                                <input
+                                    id={`${field.id}-${part.key}`}
+                                    name={`${field.id}.${part.key}`}
+                                    type="text"
+                                    inputMode={part.key === 'name' ? 'text' : 'numeric'}
+                                    autoComplete={part.autoComplete}
+                                    aria-required={field.required}
+                                    aria-invalid={aria['aria-invalid']}
+                                    placeholder={part.placeholder}
+                                    value={value?.[part.key] ?? ''}
+                                    onChange={e => onChange({ ...value, [part.key]: e.target.value })}
+                                    className={cx(theme.classNames.input)}
+                                    style={getInputStyle(field, theme)}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </fieldset>
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { cx, useFormTheme } from '../theme.js';
+
+/**
+ * Groups fields under a legend; the label is the legend. The renderer passes
+ * the grouped fields as children, laid out in their own grid.
+ */
+export const FieldsetField: React.FC<FieldComponentProps<undefined>> = ({ field, children }) => {
+    const { classNames } = useFormTheme();
+    return (
+        <fieldset className={cx(classNames.fieldset)}>
+            {field.label && <legend className={cx(classNames.legend)}>{field.label}</legend>}
+            {children}
+        </fieldset>
+    );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import { UploadedFile } from '../core/types.js';
+import { acceptsMultipleFiles, formatFileSize } from '../core/files.js';
+import { FieldComponentProps, FileUploadStatus } from './types.js';
+import { FieldError, FieldLabel, FieldWrapper, getFieldAriaProps } from './common.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+
+type FieldFile = File | UploadedFile;
+
+// Object URL for the thumbnail of a picked image, revoked once the file leaves the list
+const useImagePreview = (file: FieldFile): string | null => {
+    const [url, setUrl] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        if (!(file instanceof File) || !file.type.startsWith('image/')) return;
+        const objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+        return () => {
+            URL.revokeObjectURL(objectUrl);
+            setUrl(null);
+        };
+    }, [file]);
+
+    return url;
+};
+
+const FileItem: React.FC<{ file: FieldFile; upload?: FileUploadStatus; onRemove: () => void }> = ({ file, upload, onRemove }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    const preview = useImagePreview(file);
+    const isUploading = upload?.status === 'uploading';
+
+    return (
+        <li className={cx(classNames.fileItem)}>
+            {preview && <img src={preview} alt="" className={cx(classNames.filePreview)} />}
+            <span>
+                {file.name} ({formatFileSize(file.size)})
+                {upload?.status === 'error' && <span className={cx(classNames.error)}> {t('uploadError')}</span>}
+            </span>
+            {isUploading && (
+                <progress
+                    value={upload.progress}
+                    max={1}
+                    aria-label={t('uploadingFile', { file: file.name })}
+                    className={cx(classNames.fileProgress)}
+                />
+            )}
+            <button
+                type="button"
+                onClick={onRemove}
+                aria-label={t(isUploading ? 'cancelUpload' : 'removeFile', { file: file.name })}
+                className={cx(classNames.fileRemove)}
+            >
+                ×
+            </button>
+        </li>
+    );
+};
+
+/**
+ * File picker with a drop zone. The value is the list of picked files; fields
+ * with `multiple` add to it, others replace their file. With an uploader, each
+ * file shows its upload progress and can be cancelled by removing it.
+ */
+export const FileField: React.FC<FieldComponentProps<FieldFile[]>> = ({ field, value, onChange, error, validating, uploads }) => {
+    const theme = useFormTheme();
+    const t = useFormMessages();
+    const [isDragging, setIsDragging] = React.useState(false);
+    const files = value || [];
+    const multiple = acceptsMultipleFiles(field);
+
+    const addFiles = (picked: File[]) => {
+        if (picked.length === 0) return;
+        onChange(multiple ? [...files, ...picked] : picked);
+    };
+
+    return (
+        <FieldWrapper>
+            <FieldLabel field={field} htmlFor={field.id} />
+            <div
+                className={cx(theme.classNames.dropZone, isDragging && theme.classNames.dropZoneActive)}
+                onDragOver={e => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                }}
+                onDragLeave={e => {
+                    // Moving over a child element also fires dragleave
+                    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+                }}
+                onDrop={e => {
+                    e.preventDefault();
+                    setIsDragging(false);
+                    addFiles(Array.from(e.dataTransfer.files));
+                }}
+            >
+                <input
+                    id={field.id}
+                    name={field.id}
+                    type="file"
+                    accept={field.validation?.accept}
+                    multiple={multiple}
+                    required={field.required}
+                    {...getFieldAriaProps({ field, error, validating })}
+                    onChange={e => {
+                        addFiles(Array.from(e.target.files || []));
+                        // The picked files live in the value, so the same file can be picked again
+                        e.target.value = '';
+                    }}
+                    className={cx(theme.classNames.input)}
+                    style={getInputStyle(field, theme)}
+                />
+                <span>{t(multiple ? 'dropFiles' : 'dropFile')}</span>
+            </div>
+            {files.length > 0 && (
+                <ul className={cx(theme.classNames.fileList)}>
+                    {files.map((file, idx) => (
+                        <FileItem
+                            key={idx}
+                            file={file}
+                            upload={uploads?.[idx]}
+                            onRemove={() => onChange(files.filter((_, i) => i !== idx))}
+                        />
+                    ))}
+                </ul>
+            )}
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { FieldMask } from '../core/types.js';
+import { formatMaskedValue, unmaskValue } from '../core/masks.js';
+
+export interface MaskedInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+    mask: FieldMask;
+    value: string | undefined; // Raw value
+    onChange: (value: string) => void; // Receives the raw value
+}
+
+const getInputMode = (mask: FieldMask): React.HTMLAttributes<HTMLInputElement>['inputMode'] => {
+    switch (mask.type) {
+        case 'phone':
+            return 'tel';
+        case 'card':
+            return 'numeric';
+        case 'number':
+        case 'currency':
+            return 'decimal';
+        default:
+            return /^[^a*]*$/.test(mask.pattern || '') ? 'numeric' : 'text';
+    }
+};
+
+// Position in the formatted text right after the given number of raw characters
+const getCaretPosition = (mask: FieldMask, formatted: string, rawLength: number): number => {
+    for (let position = 0; position < formatted.length; position++) {
+        if (unmaskValue(mask, formatted.slice(0, position)).length >= rawLength) return position;
+    }
+    return formatted.length;
+};
+
+/**
+ * Text input showing a raw value formatted with a mask. What the user types is
+ * turned back into the raw value, and the caret stays after the same character.
+ */
+export const MaskedInput: React.FC<MaskedInputProps> = ({ mask, value, onChange, ...props }) => {
+    const inputRef = React.useRef<HTMLInputElement>(null);
+    const caretRef = React.useRef<number | null>(null); // Raw characters in front of the caret after a change
+    const formatted = formatMaskedValue(mask, value ?? '');
+
+    React.useLayoutEffect(() => {
+        const input = inputRef.current;
+        if (caretRef.current === null || !input || document.activeElement !== input) return;
+        const position = getCaretPosition(mask, formatted, caretRef.current);
+        input.setSelectionRange(position, position);
+        caretRef.current = null;
+    });
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const text = e.target.value;
+        let raw = unmaskValue(mask, text);
+        let rawBeforeCaret = unmaskValue(mask, text.slice(0, e.target.selectionStart ?? text.length)).length;
+
+        // Deleting an inserted character such as ')' deletes the typed character in front of it
+        if (raw === (value ?? '') && text.length < formatted.length && rawBeforeCaret > 0) {
+            raw = raw.slice(0, rawBeforeCaret - 1) + raw.slice(rawBeforeCaret);
+            rawBeforeCaret--;
+        }
+
+        caretRef.current = rawBeforeCaret;
+        onChange(raw);
+    };
+
+    return (
+        <input
+            ref={inputRef}
+            type="text"
+            inputMode={getInputMode(mask)}
+            {...props}
+            value={formatted}
+            onChange={handleChange}
+        />
+    );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLabel, FieldWrapper, getFieldAriaProps, joinSelection, OptionsStatusNote, OtherInput, splitSelection } from './common.js';
+import { getFieldOptions } from '../core/options.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+
+// Value of the "Other" entry in the list; never submitted
+const OTHER_OPTION_VALUE = '__other__';
+
+// Rows shown before the list scrolls
+const MAX_VISIBLE_OPTIONS = 6;
+
+/**
+ * List box allowing several of `field.options` to be chosen, plus an "Other"
+ * entry with a text input when `field.allowOther` is set. The value is the list of choices.
+ */
+export const MultiSelectField: React.FC<FieldComponentProps<string[]>> = ({ field, value, onChange, error, validating, optionsStatus }) => {
+    const theme = useFormTheme();
+    const t = useFormMessages();
+    const { selected, other } = splitSelection(field, value);
+    const options = getFieldOptions(field);
+    const optionCount = options.length + (field.allowOther ? 1 : 0);
+
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const values = Array.from(e.target.selectedOptions, option => option.value);
+        onChange(joinSelection(field, {
+            selected: values,
+            other: values.includes(OTHER_OPTION_VALUE) ? other ?? '' : undefined,
+        }));
+    };
+
+    return (
+        <FieldWrapper>
+            <FieldLabel field={field} htmlFor={field.id} />
+            <select
+                id={field.id}
+                name={field.id}
+                multiple
+                required={field.required}
+                {...getFieldAriaProps({ field, error, validating, optionsStatus })}
+                size={Math.min(Math.max(optionCount, 2), MAX_VISIBLE_OPTIONS)}
+                value={other !== undefined ? [...selected, OTHER_OPTION_VALUE] : selected}
+                onChange={handleChange}
+                className={cx(theme.classNames.input)}
+                style={getInputStyle(field, theme)}
+            >
+                {options.map((option, idx) => (
+                    <option key={idx} value={option.value}>{option.label}</option>
+                ))}
+                {field.allowOther && <option value={OTHER_OPTION_VALUE}>{t('otherOption')}</option>}
+            </select>
+            {other !== undefined && (
+                <OtherInput field={field} value={other} onChange={text => onChange(joinSelection(field, { selected, other: text }))} />
+            )}
+            <OptionsStatusNote fieldId={field.id} status={optionsStatus} />
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLegend, FieldWrapper, getFieldAriaProps, OptionsStatusNote } from './common.js';
+import { getFieldOptions } from '../core/options.js';
+import { cx, useFormTheme } from '../theme.js';
+
+/**
+ * Radio button group, one button per entry in `field.options`, in a fieldset
+ * whose legend is the label.
+ */
+export const RadioField: React.FC<FieldComponentProps<string | undefined>> = ({ field, value, onChange, error, validating, optionsStatus }) => {
+    const { classNames } = useFormTheme();
+    const aria = getFieldAriaProps({ field, error, validating, optionsStatus });
+    return (
+        <FieldWrapper>
+            <fieldset id={field.id} aria-describedby={aria['aria-describedby']} className={cx(classNames.fieldGroup)}>
+                <FieldLegend field={field} />
+                <div className={cx(classNames.optionGroup)}>
+                    {getFieldOptions(field).map((option, idx) => (
+                        <div key={idx} className={cx(classNames.option)}>
+                            <input
+                                id={`${field.id}-${idx}`}
+                                name={field.id} // Crucial: all radios in a group must have the same 'name'
+                                type="radio"
+                                value={option.value}
+                                required={field.required}
+                                aria-invalid={aria['aria-invalid']}
+                                checked={value === option.value}
+                                onChange={() => onChange(option.value)}
+                                className={cx(classNames.radio)}
+                            />
+                            <label htmlFor={`${field.id}-${idx}`} className={cx(classNames.optionLabel)}>
+                                {option.label}
+                            </label>
+                        </div>
+                    ))}
+                </div>
+            </fieldset>
+            <OptionsStatusNote fieldId={field.id} status={optionsStatus} />
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLegend, FieldWrapper, getFieldAriaProps } from './common.js';
+import { cx, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+
+/**
+ * Star rating. The number of stars is `validation.max` (5 by default) and the
+ * value is the selected number of stars, or null when nothing is selected.
+ * The stars are grouped in a fieldset whose legend is the label.
+ */
+export const RatingField: React.FC<FieldComponentProps<number | null>> = ({ field, value, onChange, error, validating }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    const [hovered, setHovered] = React.useState<number | null>(null);
+    const max = field.validation?.max ?? 5;
+    const shown = hovered ?? value ?? 0;
+    const aria = getFieldAriaProps({ field, error, validating });
+
+    return (
+        <FieldWrapper>
+            <fieldset id={field.id} aria-describedby={aria['aria-describedby']} className={cx(classNames.fieldGroup)}>
+                <FieldLegend field={field} />
+                <div className={cx(classNames.ratingGroup)} onMouseLeave={() => setHovered(null)}>
+                    {Array.from({ length: max }, (_, idx) => idx + 1).map(star => (
+                        <button
+                            key={star}
+                            type="button"
+                            aria-label={t('ratingStar', { star, max })}
+                            aria-pressed={value === star}
+                            // Clicking the selected star again clears the rating
+                            onClick={() => onChange(value === star ? null : star)}
+                            onMouseEnter={() => setHovered(star)}
+                            className={cx(classNames.ratingStar, star <= shown ? classNames.ratingStarFilled : classNames.ratingStarEmpty)}
+                        >
+                            ★
+                        </button>
+                    ))}
+                </div>
+            </fieldset>
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
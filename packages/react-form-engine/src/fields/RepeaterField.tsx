@@ -0,0 +1,88 @@
+import React from 'react';
+import { FormValues } from '../core/types.js';
+import { createRepeaterItem } from '../core/repeaters.js';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLegend, FieldWrapper, getFieldAriaProps } from './common.js';
+import { cx, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+
+/**
+ * A list of items repeating the repeater's fields, e.g. previous employers.
+ * The renderer passes the rendered fields of each item as `items`; the buttons
+ * add, remove and reorder items within `minItems` and `maxItems`. The
+ * placeholder is the text of the add button.
+ */
+export const RepeaterField: React.FC<FieldComponentProps<FormValues[]>> = ({ field, value, onChange, error, items = [] }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    const list = Array.isArray(value) ? value : [];
+    const { minItems = 0, maxItems } = field.validation || {};
+    const canAdd = maxItems === undefined || list.length < maxItems;
+    const canRemove = list.length > minItems;
+
+    const moveItem = (from: number, to: number) => {
+        const next = [...list];
+        const [item] = next.splice(from, 1);
+        next.splice(to, 0, item);
+        onChange(next);
+    };
+
+    return (
+        <FieldWrapper>
+            <fieldset id={field.id} className={cx(classNames.fieldset)} aria-describedby={getFieldAriaProps({ field, error })['aria-describedby']}>
+                <FieldLegend field={field} slot="legend" />
+                {list.length > 0 && (
+                    <ol className={cx(classNames.repeaterItems)}>
+                        {list.map((_, idx) => (
+                            <li key={idx} className={cx(classNames.repeaterItem)}>
+                                <div className={cx(classNames.repeaterItemHeader)}>
+                                    <span>{t('itemNumber', { index: idx + 1 })}</span>
+                                    <span>
+                                        <button
+                                            type="button"
+                                            onClick={() => moveItem(idx, idx - 1)}
+                                            disabled={idx === 0}
+                                            aria-label={t('moveItemUp', { index: idx + 1 })}
+                                            className={cx(classNames.repeaterButton)}
+                                        >
+                                            ↑
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => moveItem(idx, idx + 1)}
+                                            disabled={idx === list.length - 1}
+                                            aria-label={t('moveItemDown', { index: idx + 1 })}
+                                            className={cx(classNames.repeaterButton)}
+                                        >
+                                            ↓
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => onChange(list.filter((__, i) => i !== idx))}
+                                            disabled={!canRemove}
+                                            aria-label={t('removeItem', { index: idx + 1 })}
+                                            className={cx(classNames.repeaterButton)}
+                                        >
+                                            ×
+                                        </button>
+                                    </span>
+                                </div>
+                                {items[idx]}
+                            </li>
+                        ))}
+                    </ol>
+                )}
+                {canAdd && (
+                    <button
+                        type="button"
+                        onClick={() => onChange([...list, createRepeaterItem(field)])}
+                        className={cx(classNames.secondaryButton)}
+                    >
+                        {field.placeholder || t('addItem')}
+                    </button>
+                )}
+                <FieldError fieldId={field.id} error={error} />
+            </fieldset>
+        </FieldWrapper>
+    );
+};
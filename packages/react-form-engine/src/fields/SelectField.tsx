@@ -0,0 +1,37 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLabel, FieldWrapper, getFieldAriaProps, OptionsStatusNote } from './common.js';
+import { getFieldOptions } from '../core/options.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+
+/**
+ * Dropdown with an empty placeholder option followed by `field.options`, or
+ * the loaded options of a field with an `optionsSource`.
+ */
+export const SelectField: React.FC<FieldComponentProps<string>> = ({ field, value, onChange, error, validating, optionsStatus }) => {
+    const theme = useFormTheme();
+    const t = useFormMessages();
+    return (
+        <FieldWrapper>
+            <FieldLabel field={field} htmlFor={field.id} />
+            <select
+                id={field.id}
+                name={field.id}
+                required={field.required}
+                {...getFieldAriaProps({ field, error, validating, optionsStatus })}
+                value={value ?? ''}
+                onChange={e => onChange(e.target.value)}
+                className={cx(theme.classNames.input)}
+                style={getInputStyle(field, theme)}
+            >
+                <option value="">{field.placeholder || t('selectPlaceholder')}</option>
+                {getFieldOptions(field).map((option, idx) => (
+                    <option key={idx} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+            <OptionsStatusNote fieldId={field.id} status={optionsStatus} />
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
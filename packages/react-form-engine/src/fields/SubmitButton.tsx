@@ -0,0 +1,19 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { cx, getButtonStyle, useFormTheme } from '../theme.js';
+
+/**
+ * Submit button of the form. It carries no value.
+ */
+export const SubmitButton: React.FC<FieldComponentProps<undefined>> = ({ field }) => {
+    const theme = useFormTheme();
+    return (
+        <button
+            type="submit"
+            className={cx(theme.classNames.button)}
+            style={getButtonStyle(field, theme)}
+        >
+            {field.label}
+        </button>
+    );
+};
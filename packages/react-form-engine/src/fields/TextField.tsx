@@ -0,0 +1,66 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLabel, FieldWrapper, getFieldAriaProps } from './common.js';
+import { MaskedInput } from './MaskedInput.js';
+import { resolveMask } from '../core/masks.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+
+// Native input type for each single-line field type
+const INPUT_TYPES: Record<string, string> = {
+    phone: 'tel',
+};
+
+/**
+ * Single-line input used for text, email, number, phone, url and date fields.
+ * Fields with a `mask` are formatted while typing and keep their raw value.
+ */
+export const TextField: React.FC<FieldComponentProps<string>> = ({ field, value, onChange, error, validating }) => {
+    const theme = useFormTheme();
+    const mask = resolveMask(field);
+
+    if (mask) {
+        // Length and range limits apply to the raw value, so they are left to validation
+        return (
+            <FieldWrapper>
+                <FieldLabel field={field} htmlFor={field.id} />
+                <MaskedInput
+                    id={field.id}
+                    name={field.id}
+                    mask={mask}
+                    placeholder={field.placeholder}
+                    required={field.required}
+                    {...getFieldAriaProps({ field, error, validating })}
+                    value={value}
+                    onChange={onChange}
+                    className={cx(theme.classNames.input)}
+                    style={getInputStyle(field, theme)}
+                />
+                <FieldError fieldId={field.id} error={error} validating={validating} />
+            </FieldWrapper>
+        );
+    }
+
+    return (
+        <FieldWrapper>
+            <FieldLabel field={field} htmlFor={field.id} />
+            <input
+                id={field.id}
+                name={field.id}
+                type={INPUT_TYPES[field.type] || field.type}
+                placeholder={field.placeholder}
+                required={field.required}
+                {...getFieldAriaProps({ field, error, validating })}
+                value={value ?? ''}
+                onChange={e => onChange(e.target.value)}
+                minLength={field.validation?.minLength}
+                maxLength={field.validation?.maxLength}
+                min={field.validation?.min}
+                max={field.validation?.max}
+                pattern={field.validation?.pattern}
+                className={cx(theme.classNames.input)}
+                style={getInputStyle(field, theme)}
+            />
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { FieldComponentProps } from './types.js';
+import { FieldError, FieldLabel, FieldWrapper, getFieldAriaProps } from './common.js';
+import { cx, getInputStyle, useFormTheme } from '../theme.js';
+
+/**
+ * Multi-line text input.
+ */
+export const TextareaField: React.FC<FieldComponentProps<string>> = ({ field, value, onChange, error, validating }) => {
+    const theme = useFormTheme();
+    return (
+        <FieldWrapper>
+            <FieldLabel field={field} htmlFor={field.id} />
+            <textarea
+                id={field.id}
+                name={field.id}
+                placeholder={field.placeholder}
+                required={field.required}
+                {...getFieldAriaProps({ field, error, validating })}
+                value={value ?? ''}
+                onChange={e => onChange(e.target.value)}
+                rows={3}
+                className={cx(theme.classNames.input)}
+                style={getInputStyle(field, theme)}
+            ></textarea>
+            <FieldError fieldId={field.id} error={error} validating={validating} />
+        </FieldWrapper>
+    );
+};
@@ -0,0 +1,157 @@
+import React from 'react';
+import { FormField } from '../core/types.js';
+import { getOptionValues } from '../core/options.js';
+import { FieldComponentProps, OptionsStatus } from './types.js';
+import { cx, ThemeSlot, useFormTheme } from '../theme.js';
+import { useFormMessages } from '../locale.js';
+
+// Hides text from sight but not from screen readers, whatever the theme
+const visuallyHidden: React.CSSProperties = {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    padding: 0,
+    margin: -1,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0,
+};
+
+/**
+ * Field label with the required marker. Reusable by custom field components.
+ * The marker is hidden from screen readers, which announce the `required`
+ * attribute of the input instead.
+ */
+export const FieldLabel: React.FC<{ field: FormField; htmlFor?: string; slot?: ThemeSlot }> = ({ field, htmlFor, slot = 'label' }) => {
+    const { classNames } = useFormTheme();
+    return (
+        <label htmlFor={htmlFor} className={cx(classNames[slot])}>
+            {field.label} {field.required && <span className={cx(classNames.requiredMarker)} aria-hidden="true">*</span>}
+        </label>
+    );
+};
+
+/**
+ * Legend of a field made of several inputs, rendered in a fieldset. Required
+ * fields get the marker plus a "required" hint for screen readers, as a group
+ * has no `required` attribute of its own.
+ */
+export const FieldLegend: React.FC<{ field: FormField; slot?: ThemeSlot }> = ({ field, slot = 'label' }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    return (
+        <legend className={cx(classNames[slot])}>
+            {field.label}{' '}
+            {field.required && (
+                <>
+                    <span className={cx(classNames.requiredMarker)} aria-hidden="true">*</span>
+                    <span style={visuallyHidden}>({t('requiredHint')})</span>
+                </>
+            )}
+        </legend>
+    );
+};
+
+/**
+ * ARIA attributes of a field's input: `aria-invalid` while it has an error and
+ * `aria-describedby` pointing at the notes FieldError and OptionsStatusNote
+ * render. Fields made of several inputs put `aria-describedby` on their
+ * fieldset and `aria-invalid` on each input.
+ */
+export const getFieldAriaProps = ({ field, error, validating, optionsStatus }: Pick<FieldComponentProps, 'field' | 'error' | 'validating' | 'optionsStatus'>) => {
+    const descriptions = [
+        error ? `${field.id}-error` : validating ? `${field.id}-validating` : null,
+        optionsStatus?.error ? `${field.id}-options-error` : optionsStatus?.loading ? `${field.id}-options-loading` : null,
+    ].filter(Boolean);
+    return {
+        'aria-invalid': error ? true : undefined,
+        'aria-describedby': descriptions.length > 0 ? descriptions.join(' ') : undefined,
+    };
+};
+
+/**
+ * Inline validation message shown below a field, or a progress note while an
+ * async validator is running. Renders nothing otherwise.
+ */
+export const FieldError: React.FC<{ fieldId: string; error?: string; validating?: boolean }> = ({ fieldId, error, validating }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    if (error) {
+        return <p id={`${fieldId}-error`} className={cx(classNames.error)}>{error}</p>;
+    }
+    return validating ? (
+        <p id={`${fieldId}-validating`} className={cx(classNames.validating)} aria-live="polite">{t('checking')}</p>
+    ) : null;
+};
+
+/**
+ * Progress or failure of loading the options of a field with an `optionsSource`,
+ * with a button to try again. Renders nothing once the options are loaded.
+ */
+export const OptionsStatusNote: React.FC<{ fieldId: string; status?: OptionsStatus }> = ({ fieldId, status }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    if (status?.error) {
+        return (
+            <p id={`${fieldId}-options-error`} className={cx(classNames.error)} role="alert">
+                {status.error}
+                <button type="button" onClick={status.reload} className={cx(classNames.retryButton)}>{t('retry')}</button>
+            </p>
+        );
+    }
+    return status?.loading ? (
+        <p id={`${fieldId}-options-loading`} className={cx(classNames.validating)} aria-live="polite">{t('loadingOptions')}</p>
+    ) : null;
+};
+
+/**
+ * Outer element of a field, carrying the theme's `fieldWrapper` classes.
+ */
+export const FieldWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { classNames } = useFormTheme();
+    return <div className={cx(classNames.fieldWrapper)}>{children}</div>;
+};
+
+/**
+ * A multi-choice value split into the chosen options and the "Other" answer,
+ * which is undefined while "Other" is not chosen and blank until typed.
+ */
+export interface Selection {
+    selected: string[];
+    other?: string;
+}
+
+export const splitSelection = (field: FormField, value: unknown): Selection => {
+    const items: string[] = Array.isArray(value) ? value : [];
+    const options = getOptionValues(field);
+    return {
+        selected: items.filter(item => options.includes(item)),
+        other: field.allowOther ? items.find(item => !options.includes(item)) : undefined,
+    };
+};
+
+// Chosen options are kept in the order of `field.options`, the "Other" answer last
+export const joinSelection = (field: FormField, { selected, other }: Selection): string[] => [
+    ...getOptionValues(field).filter(option => selected.includes(option)),
+    ...(other !== undefined ? [other] : []),
+];
+
+/**
+ * Text input for the "Other" answer of a multi-choice field.
+ */
+export const OtherInput: React.FC<{ field: FormField; value: string; onChange: (value: string) => void }> = ({ field, value, onChange }) => {
+    const { classNames } = useFormTheme();
+    const t = useFormMessages();
+    return (
+        <input
+            id={`${field.id}-other-text`}
+            type="text"
+            aria-label={`${field.label}: ${t('otherOption')}`}
+            placeholder={t('otherPlaceholder')}
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            className={cx(classNames.input)}
+        />
+    );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { FormField } from '../core/types.js';
+
+/**
+ * Props received by every field component.
+ */
+export interface FieldComponentProps<TValue = any> {
+    field: FormField;
+    value: TValue;
+    onChange: (value: TValue) => void;
+    error?: string;
+    validating?: boolean; // An async validator is checking the current value
+    optionsStatus?: OptionsStatus; // Only for fields with an `optionsSource`
+    // Only for file fields when the form has an uploader: the upload of each file in
+    // the value, in the same order (undefined for files that are not uploaded)
+    uploads?: (FileUploadStatus | undefined)[];
+    children?: React.ReactNode; // Only for fieldsets: their rendered fields
+    items?: React.ReactNode[]; // Only for repeaters: the rendered fields of each item, in the order of the value
+}
+
+/**
+ * State of the options of a field with an `optionsSource`. The loaded options
+ * are passed as `field.options`.
+ */
+export interface OptionsStatus {
+    loading: boolean;
+    error: string | null;
+    reload: () => void; // Loads the options again, bypassing the cache
+}
+
+/**
+ * State of the upload of a file picked in a file field.
+ */
+export interface FileUploadStatus {
+    status: 'uploading' | 'done' | 'error';
+    progress: number; // Between 0 and 1, as reported by the uploader
+    error: string | null;
+}
@@ -1,236 +1,220 @@
 
 import React from 'react';
-
-/**
- * Defines the structure of a single form field within the FormCarve schema.
- */
-export interface FormField {
-    id: string;
-    type: string; // e.g., 'text', 'email', 'textarea', 'select', 'checkbox', 'radio', 'submit-button', 'number', 'date', 'phone', 'url', 'address', 'credit-card'
-    label: string;
-    placeholder?: string; // Optional text hint for input fields
-    required: boolean; // Is this field mandatory?
-    options?: string[]; // For 'select', 'radio', 'checkbox' types (e.g., ["Option A", "Option B"])
-    validation?: {
-        minLength?: number; // Minimum length for text/number inputs
-        maxLength?: number; // Maximum length for text/number inputs
-        min?: number; // Minimum value for number inputs
-        max?: number; // Maximum value for number inputs
-        pattern?: string; // Regex pattern for validation (e.g., for email)
-        customMessage?: string; // Custom error message
-        email?: boolean; // Email validation
-        url?: boolean; // URL validation
-        phone?: boolean; // Phone validation
-        required?: boolean; // Required field validation (redundant with field.required but more explicit)
-    };
-    styling?: {
-        borderRadius?: number;
-        backgroundColor?: string;
-        borderColor?: string;
-        textColor?: string;
-        fontSize?: number;
-        padding?: number;
-    };
+import { FormField, FormSchema, FormValues, InferFormData } from './core/types.js';
+import { isPageBreak } from './core/steps.js';
+import { isFieldset } from './core/layout.js';
+import { isRepeater } from './core/repeaters.js';
+import { FieldComponentMap, getFieldComponent } from './registry.js';
+import { createTheme, cx, FormThemeOverrides, FormThemeProvider, getGridItemStyle } from './theme.js';
+import { SubmitResult, useFormEngine, UseFormEngineOptions } from './useFormEngine.js';
+import { FormMessagesProvider } from './locale.js';
+import { ErrorSummary } from './ErrorSummary.js';
+
+// Everything that does not need React, also available as '@jonesstack/react-form-engine/core'
+export * from './core/index.js';
+
+export type { FieldComponentProps, FileUploadStatus, OptionsStatus } from './fields/types.js';
+export type { FieldComponent, FieldComponentMap } from './registry.js';
+export { builtInFieldComponents, getFieldComponent, registerFieldType, unregisterFieldType } from './registry.js';
+export { FieldError, FieldLabel, FieldLegend, FieldWrapper, getFieldAriaProps, OptionsStatusNote } from './fields/common.js';
+export type { MaskedInputProps } from './fields/MaskedInput.js';
+export { MaskedInput } from './fields/MaskedInput.js';
+export { Markdown } from './fields/ContentBlocks.js';
+export type { FormTheme, FormThemeOverrides, ThemeSlot } from './theme.js';
+export { createTheme, defaultTheme, FormThemeProvider, getGridItemStyle, headlessTheme, useFormTheme } from './theme.js';
+export type { AsyncValidator, FileUploader, FormEngine, SubmitResult, UseFormEngineOptions } from './useFormEngine.js';
+export { useFormEngine } from './useFormEngine.js';
+export { FormMessagesProvider, useFormMessages } from './locale.js';
+export type { ErrorSummaryProps } from './ErrorSummary.js';
+export { ErrorSummary, focusField } from './ErrorSummary.js';
+
+export interface FormRendererProps<S extends FormSchema = FormSchema> extends UseFormEngineOptions<S> {
+    // onSubmit receives an object where keys are field IDs and values are their entered data.
+    // It is only called once every field passes validation. Declare the schema `as const`
+    // to get the data typed per field (see InferFormData). Return (a promise of)
+    // { fieldErrors, formError } to show errors reported by the server.
+    onSubmit: (data: InferFormData<S>) => void | SubmitResult | Promise<void | SubmitResult>;
+    className?: string; // Optional className for the form container, added to the theme's form classes
+    // Components for custom field types, or replacements for built-in ones, keyed by type
+    fieldComponents?: FieldComponentMap;
+    // Classes per slot merged over the default Tailwind theme; pass `headlessTheme` for no styling at all
+    theme?: FormThemeOverrides;
 }
 
+// A repeater item whose fields are being rendered
+interface RepeaterItem {
+    repeater: FormField;
+    index: number;
+}
 
-interface FormRendererProps {
-    schema: {
-        formName: string;
-        formFields: FormField[];
-    };
-    // onSubmit receives an object where keys are field IDs and values are their entered data.
-    onSubmit: (data: Record<string, any>) => void;
-    className?: string; // Optional className for the form container
+/**
+ * Imperative API exposed through a ref on FormRenderer.
+ */
+export interface FormRendererHandle {
+    reset: () => void; // Restores initialValues and clears errors
+    setValue: (fieldId: string, value: any) => void;
+    getValues: () => FormValues;
+    submit: () => Promise<void>; // Validates and calls onSubmit, exactly like the submit button
 }
 
 /**
  * FormRenderer component that dynamically renders a form based on a JSON schema.
+ * Values are kept internally unless a `values` prop is passed, in which case the
+ * form is fully controlled by the parent.
  */
-export const FormRenderer: React.FC<FormRendererProps> = ({ schema, onSubmit, className }) => {
-    const formRef = React.useRef<HTMLFormElement>(null);
-
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!formRef.current) return;
-
-        const formData: Record<string, any> = {};
-        const formElements = formRef.current.elements;
-
-        schema.formFields.forEach(field => {
-            if (field.type === 'submit-button') return; // Skip submit button itself
-
-            const element = formElements.namedItem(field.id);
-
-            if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
-                formData[field.id] = element.value;
-            } else if (field.type === 'checkbox') {
-                const checkbox = element as HTMLInputElement;
-                formData[field.id] = checkbox.checked;
-            } else if (field.type === 'radio') {
-                const radioGroup = formRef.current!.querySelectorAll(`input[name="${field.id}"]:checked`);
-                if (radioGroup.length > 0) {
-                    formData[field.id] = (radioGroup[0] as HTMLInputElement).value;
-                } else {
-                    formData[field.id] = undefined; // Or null, depending on unselected radios are handled
-                }
-            }
-
-        });
-
-        onSubmit(formData);
+const FormRendererComponent = React.forwardRef<FormRendererHandle, FormRendererProps>(({ className, fieldComponents, theme: themeOverrides, ...options }, ref) => {
+    const engine = useFormEngine(options);
+    const { schema, steps, stepIndex, isMultiStep, isLastStep } = engine;
+
+    const theme = React.useMemo(() => createTheme(themeOverrides), [themeOverrides]);
+    const { classNames } = theme;
+    // The renderer's own texts; field components read them from FormMessagesProvider
+    const t = engine.formatMessage;
+
+    const progressRef = React.useRef<HTMLDivElement>(null);
+    const errorSummaryRef = React.useRef<HTMLDivElement>(null);
+    const formErrorRef = React.useRef<HTMLParagraphElement>(null);
+    const shownStepIndex = React.useRef(stepIndex);
+    const progressLabelId = React.useId();
+
+    // A new step is announced from its progress label, unless the errors below take the focus
+    React.useEffect(() => {
+        if (stepIndex === shownStepIndex.current) return;
+        shownStepIndex.current = stepIndex;
+        progressRef.current?.focus();
+    }, [stepIndex]);
+
+    // After a failed submit or step, the focus goes to the list of errors, or to the server's message
+    React.useEffect(() => {
+        if (engine.failedAttempts === 0) return;
+        (errorSummaryRef.current || formErrorRef.current)?.focus();
+    }, [engine.failedAttempts]);
+
+    React.useImperativeHandle(ref, () => ({
+        reset: engine.reset,
+        setValue: engine.setValue,
+        getValues: engine.getValues,
+        submit: engine.submit,
+    }));
+
+    // `item` is set for the fields of a repeater item
+    const renderField = (field: FormField, item?: RepeaterItem) => {
+        const FieldComponent = getFieldComponent(field.type, fieldComponents);
+
+        if (!FieldComponent) {
+            return (
+                <div key={field.id}>
+                    <p className={cx(classNames.error)}>{t('unsupportedFieldType', { type: field.type })}</p>
+                </div>
+            );
+        }
+
+        const props = item ? engine.getItemFieldProps(item.repeater, item.index, field) : engine.getFieldProps(field);
+        // Fieldsets receive their fields rendered in a grid of their own, repeaters a grid per item
+        const children = isFieldset(field) && field.fields ? renderFields(field.fields, item) : undefined;
+        const items = isRepeater(field) && !item
+            ? engine.getItemFields(field).map((itemFields, index) => renderFields(itemFields, { repeater: field, index }))
+            : undefined;
+        return <FieldComponent key={field.id} {...props} items={items}>{children}</FieldComponent>;
+    };
+
+    // Lays fields out in the 12-column grid; page breaks only apply at the top level
+    const renderFields = (fields: readonly FormField[], item?: RepeaterItem) => (
+        <div className={cx(classNames.grid)}>
+            {fields.filter(field => !isPageBreak(field)).map(field => (
+                <div key={field.id} className={cx(classNames.gridItem)} style={getGridItemStyle(field)}>
+                    {renderField(field, item)}
+                </div>
+            ))}
+        </div>
+    );
+
+    const renderProgress = () => (
+        <div className={cx(classNames.progress)}>
+            <div ref={progressRef} tabIndex={-1} className={cx(classNames.progressLabel)}>
+                <span id={progressLabelId}>{t('stepProgress', { step: stepIndex + 1, total: steps.length })}</span>
+                {engine.currentStep.title && <span className={cx(classNames.progressTitle)}>{engine.currentStep.title}</span>}
+            </div>
+            <div
+                className={cx(classNames.progressTrack)}
+                role="progressbar"
+                aria-labelledby={progressLabelId}
+                aria-valuemin={1}
+                aria-valuemax={steps.length}
+                aria-valuenow={stepIndex + 1}
+                aria-valuetext={t('stepProgress', { step: stepIndex + 1, total: steps.length })}
+            >
+                <div
+                    className={cx(classNames.progressBar)}
+                    style={{ width: `${((stepIndex + 1) / steps.length) * 100}%` }}
+                />
+            </div>
+        </div>
+    );
+
+    const renderStepNavigation = () => {
+        const submitButtons = engine.fields.filter(field => field.type === 'submit-button');
+
+        return (
+            <div className={cx(classNames.stepNavigation)}>
+                {stepIndex > 0 && (
+                    <button type="button" onClick={engine.previousStep} className={cx(classNames.secondaryButton)}>
+                        {t('back')}
+                    </button>
+                )}
+                {isLastStep ? (
+                    submitButtons.map(field => renderField(field))
+                ) : (
+                    <button type="submit" disabled={engine.isSubmitting} className={cx(classNames.button)}>
+                        {t('next')}
+                    </button>
+                )}
+            </div>
+        );
     };
 
     return (
-        <form ref={formRef} onSubmit={handleSubmit} className={`p-4 border rounded-lg shadow-md space-y-4 ${className || ''}`}>
-            <h2 className="text-2xl font-bold mb-4">{schema.formName || "Dynamic Form"}</h2>
-
-            {schema.formFields.length === 0 && (
-                <p className="text-gray-500 text-center py-8">No fields defined in this form schema.</p>
-            )}
-
-            {schema.formFields.map(field => {
-                const inputClasses = "mt-1 block w-full rounded-md shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50";
-                const labelClasses = "block text-sm font-medium text-gray-700 mb-1";
-
-                const customStyle = {
-                    borderRadius: field.styling?.borderRadius || 6,
-                    backgroundColor: field.styling?.backgroundColor || '#ffffff',
-                    border: `1px solid ${field.styling?.borderColor || '#d1d5db'}`,
-                    color: field.styling?.textColor || '#000000',
-                    fontSize: field.styling?.fontSize || 14,
-                    padding: field.styling?.padding || 12,
-                };
-
-                switch (field.type) {
-                    case 'text':
-                    case 'email':
-                    case 'number':
-                    case 'phone':
-                    case 'url':
-                    case 'date': // Basic date input
-                        return (
-                            <div key={field.id}>
-                                <label htmlFor={field.id} className={labelClasses}>
-                                    {field.label} {field.required && <span className="text-red-500">*</span>}
-                                </label>
-                                <input
-                                    id={field.id}
-                                    name={field.id} // Essential for form submission data
-                                    type={field.type === 'phone' ? 'tel' : field.type === 'url' ? 'url' : field.type === 'date' ? 'date' : field.type}
-                                    placeholder={field.placeholder}
-                                    required={field.required}
-                                    minLength={field.validation?.minLength}
-                                    maxLength={field.validation?.maxLength}
-                                    pattern={field.validation?.pattern}
-                                    className={inputClasses}
-                                    style={customStyle}
-                                />
-                            </div>
-                        );
-                    case 'textarea':
-                        return (
-                            <div key={field.id}>
-                                <label htmlFor={field.id} className={labelClasses}>
-                                    {field.label} {field.required && <span className="text-red-500">*</span>}
-                                </label>
-                                <textarea
-                                    id={field.id}
-                                    name={field.id} // Essential for form submission data
-                                    placeholder={field.placeholder}
-                                    required={field.required}
-                                    rows={3}
-                                    className={inputClasses}
-                                    style={customStyle}
-                                ></textarea>
-                            </div>
-                        );
-                    case 'select':
-                        return (
-                            <div key={field.id}>
-                                <label htmlFor={field.id} className={labelClasses}>
-                                    {field.label} {field.required && <span className="text-red-500">*</span>}
-                                </label>
-                                <select
-                                    id={field.id}
-                                    name={field.id} // Essential for form submission data
-                                    required={field.required}
-                                    className={inputClasses}
-                                    style={customStyle}
-                                >
-                                    <option value="">{field.placeholder || "Select an option"}</option>
-                                    {field.options?.map((option, idx) => (
-                                        <option key={idx} value={option}>{option}</option>
-                                    ))}
-                                </select>
-                            </div>
-                        );
-                    case 'checkbox':
-                        return (
-                            <div key={field.id} className="flex items-center">
-                                <input
-                                    id={field.id}
-                                    name={field.id} // Essential for form submission data
-                                    type="checkbox"
-                                    required={field.required}
-                                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                                />
-                                <label htmlFor={field.id} className="ml-2 block text-sm text-gray-900">
-                                    {field.label} {field.required && <span className="text-red-500">*</span>}
-                                </label>
-                            </div>
-                        );
-                    case 'radio':
-                        return (
-                            <div key={field.id}>
-                                <label className={labelClasses}>
-                                    {field.label} {field.required && <span className="text-red-500">*</span>}
-                                </label>
-                                <div className="mt-2 space-y-2">
-                                    {field.options?.map((option, idx) => (
-                                        <div key={idx} className="flex items-center">
-                                            <input
-                                                id={`${field.id}-${idx}`}
-                                                name={field.id} // Crucial: all radios in a group must have the same 'name'
-                                                type="radio"
-                                                value={option}
-                                                required={field.required}
-                                                className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
-                                            />
-                                            <label htmlFor={`${field.id}-${idx}`} className="ml-2 block text-sm text-gray-900">
-                                                {option}
-                                            </label>
-                                        </div>
-                                    ))}
-                                </div>
-                            </div>
-                        );
-                    case 'submit-button':
-                        return (
-                            <button
-                                key={field.id}
-                                type="submit"
-                                className="w-full inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                                style={{
-                                    borderRadius: field.styling?.borderRadius || 6,
-                                    backgroundColor: field.styling?.backgroundColor || '#3b82f6',
-                                    borderColor: field.styling?.borderColor || '#3b82f6',
-                                    color: field.styling?.textColor || '#ffffff',
-                                    fontSize: field.styling?.fontSize || 16,
-                                    padding: field.styling?.padding || 12,
-                                }}
-                            >
-                                {field.label}
-                            </button>
-                        );
-                    default:
-                        return (
-                            <div key={field.id}>
-                                <p className="text-red-500 text-sm">Unsupported field type: {field.type}</p>
-                            </div>
-                        );
-                }
-            })}
-        </form>
+        <FormThemeProvider value={theme}>
+            <FormMessagesProvider value={engine.formatMessage}>
+                <form onSubmit={engine.handleSubmit} noValidate aria-busy={engine.isSubmitting} className={cx(classNames.form, className)}>
+                    <h2 className={cx(classNames.title)}>{schema.formName || "Dynamic Form"}</h2>
+
+                    {engine.formError && (
+                        <p ref={formErrorRef} role="alert" tabIndex={-1} className={cx(classNames.formError)}>{engine.formError}</p>
+                    )}
+
+                    {/* Shown from the first failed attempt on, listing the errors of the fields on screen */}
+                    {engine.failedAttempts > 0 && (
+                        <ErrorSummary
+                            ref={errorSummaryRef}
+                            errors={engine.errors}
+                            fields={isMultiStep ? engine.currentStep.fields : engine.fields}
+                        />
+                    )}
+
+                    {schema.formFields.length === 0 && (
+                        <p className={cx(classNames.emptyState)}>{t('emptyForm')}</p>
+                    )}
+
+                    {isMultiStep ? (
+                        <>
+                            {renderProgress()}
+                            {/* Submit buttons are moved next to the Back button on the last step */}
+                            {renderFields(engine.currentStep.fields.filter(field => field.type !== 'submit-button'))}
+                            {renderStepNavigation()}
+                        </>
+                    ) : (
+                        renderFields(engine.fields)
+                    )}
+                </form>
+            </FormMessagesProvider>
+        </FormThemeProvider>
     );
-};
\ No newline at end of file
+});
+
+FormRendererComponent.displayName = 'FormRenderer';
+
+// forwardRef drops type parameters, so the generic signature is restored here
+export const FormRenderer = FormRendererComponent as (<S extends FormSchema = FormSchema>(
+    props: FormRendererProps<S> & React.RefAttributes<FormRendererHandle>
+) => React.ReactElement | null) & { displayName?: string };
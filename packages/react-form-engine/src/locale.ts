@@ -0,0 +1,18 @@
+import React from 'react';
+import { getMessage, MessageFormatter } from './core/messages.js';
+
+const FormMessagesContext = React.createContext<MessageFormatter>((key, params) => getMessage(key, params));
+
+/**
+ * Provides the built-in messages to field components rendered outside
+ * FormRenderer, e.g. `engine.formatMessage` when building a form with
+ * `useFormEngine`.
+ */
+export const FormMessagesProvider = FormMessagesContext.Provider;
+
+/**
+ * Returns a function giving the built-in messages of the closest FormRenderer
+ * or FormMessagesProvider: in the form's language, with the schema's
+ * `messages` replacing them. English by default.
+ */
+export const useFormMessages = (): MessageFormatter => React.useContext(FormMessagesContext);
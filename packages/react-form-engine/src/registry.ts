@@ -0,0 +1,86 @@
+import React from 'react';
+import { AddressField } from './fields/AddressField.js';
+import { CalculatedField } from './fields/CalculatedField.js';
+import { CheckboxField } from './fields/CheckboxField.js';
+import { CheckboxGroupField } from './fields/CheckboxGroupField.js';
+import { DividerBlock, HeadingBlock, ImageBlock, ParagraphBlock } from './fields/ContentBlocks.js';
+import { CreditCardField } from './fields/CreditCardField.js';
+import { FieldsetField } from './fields/FieldsetField.js';
+import { FileField } from './fields/FileField.js';
+import { MultiSelectField } from './fields/MultiSelectField.js';
+import { RadioField } from './fields/RadioField.js';
+import { RatingField } from './fields/RatingField.js';
+import { RepeaterField } from './fields/RepeaterField.js';
+import { SelectField } from './fields/SelectField.js';
+import { SubmitButton } from './fields/SubmitButton.js';
+import { TextareaField } from './fields/TextareaField.js';
+import { TextField } from './fields/TextField.js';
+import { FieldComponentProps } from './fields/types.js';
+
+/**
+ * A component rendering one field type, including its label and error message.
+ */
+export type FieldComponent = React.ComponentType<FieldComponentProps>;
+
+/**
+ * Maps field type strings to the components rendering them.
+ */
+export type FieldComponentMap = Record<string, FieldComponent>;
+
+/**
+ * Components for every field type that ships with the engine.
+ */
+export const builtInFieldComponents: Readonly<FieldComponentMap> = Object.freeze({
+    text: TextField,
+    email: TextField,
+    number: TextField,
+    phone: TextField,
+    url: TextField,
+    date: TextField,
+    textarea: TextareaField,
+    select: SelectField,
+    'multi-select': MultiSelectField,
+    checkbox: CheckboxField,
+    'checkbox-group': CheckboxGroupField,
+    radio: RadioField,
+    rating: RatingField,
+    file: FileField,
+    address: AddressField,
+    'credit-card': CreditCardField,
+    'submit-button': SubmitButton,
+    heading: HeadingBlock,
+    paragraph: ParagraphBlock,
+    divider: DividerBlock,
+    image: ImageBlock,
+    fieldset: FieldsetField,
+    repeater: RepeaterField,
+    calculated: CalculatedField,
+});
+
+const registry: FieldComponentMap = { ...builtInFieldComponents };
+
+/**
+ * Registers a component for a field type, for every FormRenderer in the app.
+ * Registering a built-in type replaces the built-in component.
+ */
+export const registerFieldType = (type: string, component: FieldComponent): void => {
+    registry[type] = component;
+};
+
+/**
+ * Removes a registered field type. Built-in types fall back to their built-in component.
+ */
+export const unregisterFieldType = (type: string): void => {
+    if (type in builtInFieldComponents) {
+        registry[type] = builtInFieldComponents[type];
+    } else {
+        delete registry[type];
+    }
+};
+
+/**
+ * Looks up the component for a field type. Per-renderer `overrides` win over
+ * registered types. Returns undefined for unknown types.
+ */
+export const getFieldComponent = (type: string, overrides?: FieldComponentMap): FieldComponent | undefined =>
+    overrides?.[type] ?? registry[type];
@@ -0,0 +1,223 @@
+import React from 'react';
+import { FormField } from './core/types.js';
+import { LAYOUT_BREAKPOINTS, resolveSpans } from './core/layout.js';
+
+/**
+ * Named parts of the rendered form that can receive a className.
+ */
+export type ThemeSlot =
+    | 'form'
+    | 'title'
+    | 'emptyState'
+    | 'grid'
+    | 'gridItem'
+    | 'fieldset'
+    | 'fieldGroup'
+    | 'legend'
+    | 'repeaterItems'
+    | 'repeaterItem'
+    | 'repeaterItemHeader'
+    | 'repeaterButton'
+    | 'fieldWrapper'
+    | 'label'
+    | 'requiredMarker'
+    | 'input'
+    | 'checkbox'
+    | 'radio'
+    | 'optionGroup'
+    | 'option'
+    | 'optionLabel'
+    | 'subLabel'
+    | 'partGrid'
+    | 'partFullWidth'
+    | 'dropZone'
+    | 'dropZoneActive'
+    | 'fileList'
+    | 'fileItem'
+    | 'filePreview'
+    | 'fileProgress'
+    | 'fileRemove'
+    | 'ratingGroup'
+    | 'ratingStar'
+    | 'ratingStarFilled'
+    | 'ratingStarEmpty'
+    | 'error'
+    | 'validating'
+    | 'retryButton'
+    | 'heading'
+    | 'paragraph'
+    | 'divider'
+    | 'image'
+    | 'link'
+    | 'formError'
+    | 'errorSummary'
+    | 'errorSummaryTitle'
+    | 'errorSummaryList'
+    | 'errorSummaryLink'
+    | 'button'
+    | 'secondaryButton'
+    | 'stepNavigation'
+    | 'progress'
+    | 'progressLabel'
+    | 'progressTitle'
+    | 'progressTrack'
+    | 'progressBar';
+
+export interface FormTheme {
+    classNames: Record<ThemeSlot, string>;
+    inlineStyles: boolean; // Apply each field's `styling` from the schema as inline styles
+}
+
+/**
+ * A partial theme; missing slots keep the classes of the theme it is merged into.
+ */
+export interface FormThemeOverrides {
+    classNames?: Partial<Record<ThemeSlot, string>>;
+    inlineStyles?: boolean;
+}
+
+/**
+ * The Tailwind-based look FormRenderer uses by default.
+ */
+export const defaultTheme: FormTheme = {
+    classNames: {
+        form: 'p-4 border rounded-lg shadow-md space-y-4',
+        title: 'text-2xl font-bold mb-4',
+        emptyState: 'text-gray-500 text-center py-8',
+        grid: 'grid grid-cols-12 gap-4',
+        // Spans come from CSS variables set per field (see getGridItemStyle)
+        gridItem: 'min-w-0 [grid-column:var(--form-column-start)/span_var(--form-span-base)] sm:[grid-column:var(--form-column-start)/span_var(--form-span-sm)] md:[grid-column:var(--form-column-start)/span_var(--form-span-md)] lg:[grid-column:var(--form-column-start)/span_var(--form-span-lg)]',
+        fieldset: 'space-y-4 rounded-md border border-gray-200 p-4',
+        legend: 'px-1 text-sm font-semibold text-gray-900',
+        // Borderless fieldset grouping the inputs of a radio group, checkbox group, rating, address or card
+        fieldGroup: 'm-0 min-w-0 border-0 p-0',
+        repeaterItems: 'space-y-3',
+        repeaterItem: 'space-y-3 rounded-md border border-gray-200 bg-gray-50 p-3',
+        repeaterItemHeader: 'flex items-center justify-between text-sm font-medium text-gray-700',
+        repeaterButton: 'ml-1 rounded px-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-blue-500',
+        fieldWrapper: '',
+        label: 'block text-sm font-medium text-gray-700 mb-1',
+        requiredMarker: 'text-red-500',
+        input: 'mt-1 block w-full rounded-md shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50',
+        checkbox: 'h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500',
+        radio: 'h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500',
+        optionGroup: 'mt-2 space-y-2',
+        option: 'flex items-center',
+        optionLabel: 'ml-2 block text-sm text-gray-900',
+        subLabel: 'block text-xs text-gray-600',
+        partGrid: 'mt-1 grid grid-cols-2 gap-2',
+        partFullWidth: 'col-span-2',
+        dropZone: 'mt-1 flex flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed border-gray-300 p-4 text-sm text-gray-600',
+        dropZoneActive: 'border-blue-500 bg-blue-50',
+        fileList: 'mt-2 space-y-2 text-sm text-gray-600',
+        fileItem: 'flex items-center gap-3',
+        filePreview: 'h-10 w-10 rounded object-cover',
+        fileProgress: 'h-1.5 w-24',
+        fileRemove: 'ml-auto text-gray-500 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded',
+        ratingGroup: 'mt-1 flex space-x-1',
+        ratingStar: 'text-2xl leading-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded',
+        ratingStarFilled: 'text-yellow-400',
+        ratingStarEmpty: 'text-gray-300',
+        error: 'mt-1 text-sm text-red-600',
+        validating: 'mt-1 text-sm text-gray-500',
+        retryButton: 'ml-1 underline hover:no-underline',
+        heading: 'text-lg font-semibold text-gray-900',
+        paragraph: 'text-sm text-gray-700 space-y-2 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_code]:rounded [&_code]:bg-gray-100 [&_code]:px-1',
+        divider: 'border-t border-gray-200',
+        image: 'max-w-full h-auto rounded-md',
+        link: 'text-blue-600 underline hover:no-underline',
+        formError: 'p-3 rounded-md bg-red-50 text-sm text-red-700',
+        errorSummary: 'p-3 rounded-md border border-red-300 bg-red-50 text-sm text-red-700 focus:outline-none focus:ring-2 focus:ring-red-500',
+        errorSummaryTitle: 'font-semibold text-red-800',
+        errorSummaryList: 'mt-2 list-disc space-y-1 pl-5',
+        errorSummaryLink: 'underline hover:no-underline focus:outline-none focus:ring-2 focus:ring-red-500 rounded',
+        button: 'w-full inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500',
+        secondaryButton: 'inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md bg-white text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500',
+        stepNavigation: 'flex items-center gap-4',
+        progress: 'space-y-2',
+        progressLabel: 'flex justify-between text-sm text-gray-600',
+        progressTitle: 'font-medium text-gray-900',
+        progressTrack: 'w-full h-2 bg-gray-200 rounded-full overflow-hidden',
+        progressBar: 'h-full bg-blue-600 transition-all',
+    },
+    inlineStyles: true,
+};
+
+/**
+ * A theme without any classes or inline styles, for styling the form entirely
+ * from your own CSS.
+ */
+export const headlessTheme: FormTheme = {
+    classNames: Object.keys(defaultTheme.classNames).reduce((classNames, slot) => {
+        classNames[slot as ThemeSlot] = '';
+        return classNames;
+    }, {} as Record<ThemeSlot, string>),
+    inlineStyles: false,
+};
+
+/**
+ * Merges overrides into a base theme, slot by slot.
+ */
+export const createTheme = (overrides: FormThemeOverrides = {}, base: FormTheme = defaultTheme): FormTheme => ({
+    classNames: { ...base.classNames, ...overrides.classNames },
+    inlineStyles: overrides.inlineStyles ?? base.inlineStyles,
+});
+
+const FormThemeContext = React.createContext<FormTheme>(defaultTheme);
+
+/**
+ * Provides the theme to field components rendered outside FormRenderer,
+ * e.g. when building a form with `useFormEngine`.
+ */
+export const FormThemeProvider = FormThemeContext.Provider;
+
+/**
+ * Returns the theme of the closest FormRenderer or FormThemeProvider.
+ */
+export const useFormTheme = (): FormTheme => React.useContext(FormThemeContext);
+
+/**
+ * Joins class names, skipping empty ones.
+ */
+export const cx = (...classNames: (string | false | null | undefined)[]): string | undefined =>
+    classNames.filter(Boolean).join(' ') || undefined;
+
+/**
+ * Inline styles derived from the field's `styling` settings in the schema, or
+ * undefined when the theme disables inline styles.
+ */
+export const getInputStyle = (field: FormField, theme: FormTheme): React.CSSProperties | undefined => theme.inlineStyles ? {
+    borderRadius: field.styling?.borderRadius || 6,
+    backgroundColor: field.styling?.backgroundColor || '#ffffff',
+    border: `1px solid ${field.styling?.borderColor || '#d1d5db'}`,
+    color: field.styling?.textColor || '#000000',
+    fontSize: field.styling?.fontSize || 14,
+    padding: field.styling?.padding || 12,
+} : undefined;
+
+/**
+ * Inline styles for the submit button, or undefined when the theme disables inline styles.
+ */
+export const getButtonStyle = (field: FormField, theme: FormTheme): React.CSSProperties | undefined => theme.inlineStyles ? {
+    borderRadius: field.styling?.borderRadius || 6,
+    backgroundColor: field.styling?.backgroundColor || '#3b82f6',
+    borderColor: field.styling?.borderColor || '#3b82f6',
+    color: field.styling?.textColor || '#ffffff',
+    fontSize: field.styling?.fontSize || 16,
+    padding: field.styling?.padding || 12,
+} : undefined;
+
+/**
+ * Places a field in the layout grid through CSS variables: `--form-span-base`,
+ * `--form-span-sm`, `--form-span-md` and `--form-span-lg` hold the columns it
+ * spans, `--form-column-start` is 1 for fields starting a new row and auto otherwise.
+ * The `gridItem` classes of the default theme read them; custom CSS can do the same.
+ */
+export const getGridItemStyle = (field: FormField): React.CSSProperties => {
+    const spans = resolveSpans(field.layout);
+    const style: Record<string, string | number> = { '--form-column-start': field.layout?.newRow ? 1 : 'auto' };
+    LAYOUT_BREAKPOINTS.forEach(breakpoint => {
+        style[`--form-span-${breakpoint}`] = spans[breakpoint];
+    });
+    return style as React.CSSProperties;
+};
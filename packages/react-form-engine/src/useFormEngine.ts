@@ -0,0 +1,734 @@
+import React from 'react';
+import { FieldOption, FormErrors, FormField, FormSchema, FormValues, InferFormData, UploadedFile } from './core/types.js';
+import { resolveFields } from './core/conditions.js';
+import { flattenFields } from './core/layout.js';
+import { getItemFieldId, isErrorOfField, isRepeater, moveItemErrors, resolveItemFields } from './core/repeaters.js';
+import { validateField, validateForm } from './core/validation.js';
+import { FormStep, splitIntoSteps } from './core/steps.js';
+import { getDefaultValue, getInitialValues, isEmptyValue, isInputField } from './core/values.js';
+import { migrateSchema } from './core/schema.js';
+import { createMessageFormatter, getLocaleChain, MessageFormatter } from './core/messages.js';
+import { translateSchema } from './core/translations.js';
+import { getRuleFieldIds } from './core/rules.js';
+import { coerceSubmission, EmptyValueMode } from './core/coercion.js';
+import { applyCalculations, isCalculatedField } from './core/calculations.js';
+import { getOptionsRequest, loadOptions, OptionsLoader, OptionsRequest } from './core/options.js';
+import { FieldComponentProps, FileUploadStatus } from './fields/types.js';
+
+/**
+ * Checks a field value against an external source, e.g. "is this username
+ * taken?". Resolves to an error message, or null/undefined when valid.
+ * `signal` is aborted when the value changes before the check finishes.
+ */
+export type AsyncValidator = (
+    value: any,
+    context: { values: FormValues; signal: AbortSignal },
+) => Promise<string | null | undefined>;
+
+/**
+ * Stores a file picked in a file field, e.g. in object storage, and resolves to a
+ * reference to it such as a URL or an ID. Report progress between 0 and 1 with
+ * `onProgress`; `signal` is aborted when the file is removed or the form is reset.
+ */
+export type FileUploader = (
+    file: File,
+    context: { field: FormField; signal: AbortSignal; onProgress: (progress: number) => void },
+) => Promise<unknown>;
+
+/**
+ * What onSubmit can resolve to when the server rejects a submission.
+ * Field errors are shown next to the matching field IDs, the form error above the fields.
+ */
+export interface SubmitResult {
+    fieldErrors?: FormErrors;
+    formError?: string | null;
+}
+
+export interface UseFormEngineOptions<S extends FormSchema = FormSchema> {
+    schema: S;
+    // Called with the submission data once every field passes validation.
+    // The data is typed per field when the schema is declared `as const`.
+    // May return (a promise of) server-side errors to show in the form; when it
+    // throws or rejects, the form shows the built-in 'submitFailed' message.
+    onSubmit?: (data: InferFormData<S>) => void | SubmitResult | Promise<void | SubmitResult>;
+    // Receives what onSubmit threw or rejected with, e.g. to report it
+    onSubmitError?: (error: unknown) => void;
+    initialValues?: FormValues; // Starting values for uncontrolled usage, keyed by field ID
+    values?: FormValues; // Current values for controlled usage; pair with onChange
+    // Called on every change with the next values and the ID of the changed field
+    // (null when the whole form changed at once, e.g. on reset).
+    onChange?: (values: FormValues, changedFieldId: string | null) => void;
+    // Called when a multi-step form moves to another step (see 'page-break' fields)
+    onStepChange?: (stepIndex: number, step: FormStep) => void;
+    // Async checks keyed by field ID. They run once a value passes the field's own rules;
+    // fields of repeaters can't have one.
+    asyncValidators?: Record<string, AsyncValidator>;
+    asyncValidationDelay?: number; // Debounce in milliseconds before an async check starts (default 400)
+    // Receives what an async validator threw or rejected with; the value then counts as valid
+    onAsyncValidationError?: (error: unknown, fieldId: string) => void;
+    // Whether empty optional fields are submitted as null (default) or left out
+    emptyValues?: EmptyValueMode;
+    // Loaders for fields with an `optionsSource`, keyed by the source's `loader` name
+    optionLoaders?: Record<string, OptionsLoader>;
+    // Uploads files as soon as they are picked; onSubmit then receives UploadedFile
+    // references in place of File objects and waits for uploads still running
+    uploader?: FileUploader;
+    // Language to show the form in, or languages in order of preference, e.g. navigator.languages.
+    // Texts come from the schema's `translations`, built-in messages from BUILT_IN_MESSAGES.
+    locale?: string | readonly string[];
+}
+
+export interface FormEngine {
+    schema: FormSchema; // The schema upgraded to the current version, with its texts in `locale`
+    locales: string[]; // Languages of the built-in messages, most specific first (see getLocaleChain)
+    formatMessage: MessageFormatter; // Built-in messages in `locales`, with the schema's `messages` replacing them
+    fields: FormField[]; // Visible fields with `required` resolved from their conditions; fieldsets hold their visible children
+    steps: FormStep[];
+    stepIndex: number;
+    currentStep: FormStep;
+    isMultiStep: boolean;
+    isLastStep: boolean;
+    values: FormValues;
+    errors: FormErrors;
+    formError: string | null; // Form-level error returned by onSubmit, or 'submitFailed' when it threw
+    validating: Record<string, boolean>; // Fields whose async validator is running
+    isSubmitting: boolean; // True while async checks or an async onSubmit are in progress
+    // Times submit or nextStep stopped on errors, including those returned by onSubmit; renderers
+    // move focus to the errors when it grows
+    failedAttempts: number;
+    setValue: (fieldId: string, value: any) => void;
+    getValues: () => FormValues; // Raw values of the visible input fields, before coercion
+    getFieldProps: (field: FormField) => FieldComponentProps; // Props for a field component
+    getItemFields: (repeater: FormField) => FormField[][]; // Visible fields of each item of a repeater, resolved like `fields`
+    // Props for the component of a field in an item of a repeater; its `field.id` is the item field ID (see getItemFieldId)
+    getItemFieldProps: (repeater: FormField, index: number, field: FormField) => FieldComponentProps;
+    handleSubmit: (e?: React.FormEvent) => void; // Form onSubmit handler: advances or submits
+    submit: () => Promise<void>; // Validates the whole form and calls onSubmit
+    reset: () => void; // Restores initialValues, clears errors and goes back to the first step
+    nextStep: () => Promise<void>; // Validates the current step, then advances
+    previousStep: () => void;
+    goToStep: (stepIndex: number) => void;
+}
+
+const DEFAULT_ASYNC_VALIDATION_DELAY = 400;
+
+// An async check in progress, shared by every caller checking the same value
+interface AsyncRun {
+    controller: AbortController;
+    value: any;
+    result: Promise<string | null | undefined>;
+}
+
+interface LoadedOptions {
+    options: FieldOption[];
+    loading: boolean;
+    error: string | null;
+}
+
+interface FileUpload extends FileUploadStatus {
+    fieldId: string;
+    controller: AbortController;
+    done: Promise<void>; // Settles once the upload finished, failed or was cancelled
+    result: UploadedFile | null;
+}
+
+const withoutKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+    if (!(key in record)) return record;
+    const next = { ...record };
+    delete next[key];
+    return next;
+};
+
+/**
+ * Headless form state: values, validation, conditions and steps, without any
+ * markup. FormRenderer is built on this hook; use it directly to render a
+ * schema with your own components.
+ */
+export const useFormEngine = <S extends FormSchema = FormSchema>({
+    schema: inputSchema,
+    onSubmit,
+    onSubmitError,
+    initialValues,
+    values,
+    onChange,
+    onStepChange,
+    asyncValidators,
+    asyncValidationDelay = DEFAULT_ASYNC_VALIDATION_DELAY,
+    onAsyncValidationError,
+    emptyValues,
+    optionLoaders,
+    uploader,
+    locale,
+}: UseFormEngineOptions<S>): FormEngine => {
+    // Schemas saved by older builders are upgraded transparently. Unknown keys are logged once per
+    // form: a schema written inline is a new object on every render and migrated again.
+    const loggedWarnings = React.useRef(new Set<string>());
+    const migratedSchema = React.useMemo(() => migrateSchema(inputSchema, {
+        onWarning: message => {
+            if (loggedWarnings.current.has(message)) return;
+            loggedWarnings.current.add(message);
+            console.warn(message);
+        },
+    }), [inputSchema]);
+    // Compared by content, as callers often pass a new array on every render
+    const localeKey = getLocaleChain(locale).join(',');
+    const schema = React.useMemo(() => translateSchema(migratedSchema, localeKey.split(',')), [migratedSchema, localeKey]);
+    // Built-in messages fall back to the language the schema is written in
+    const locales = React.useMemo(() => getLocaleChain(localeKey.split(','), schema.locale), [localeKey, schema.locale]);
+    const formatMessage = React.useMemo(() => createMessageFormatter(locales, schema.messages), [locales, schema.messages]);
+    const validationOptions = { locale: locales, messages: schema.messages };
+
+    // Async checks only run for fields outside repeaters, so a validator for an item field is a mistake
+    const outerFields = flattenFields(schema.formFields);
+    outerFields.filter(isRepeater).forEach(repeater => {
+        flattenFields(repeater.fields || []).forEach(field => {
+            if (asyncValidators?.[field.id] && !outerFields.some(outer => outer.id === field.id)) {
+                throw new Error(`Async validators can't check field "${field.id}" of repeater "${repeater.id}"`);
+            }
+        });
+    });
+    const [internalValues, setInternalValues] = React.useState<FormValues>(() => getInitialValues(schema.formFields, initialValues));
+    const [errors, setErrors] = React.useState<FormErrors>({});
+    const [formError, setFormError] = React.useState<string | null>(null);
+    const [validating, setValidating] = React.useState<Record<string, boolean>>({});
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const [failedAttempts, setFailedAttempts] = React.useState(0);
+    const [currentStepIndex, setCurrentStepIndex] = React.useState(0);
+    const [loadedOptions, setLoadedOptions] = React.useState<Record<string, LoadedOptions>>({});
+    const [uploadStatuses, setUploadStatuses] = React.useState<ReadonlyMap<File, FileUploadStatus>>(new Map());
+
+    const isControlled = values !== undefined;
+    // Calculated fields are derived from the other values, also when they are controlled
+    const currentValues = applyCalculations(schema.formFields, isControlled ? values : internalValues);
+
+    // Keep the latest values in a ref so imperative calls never read stale state
+    const valuesRef = React.useRef(currentValues);
+    valuesRef.current = currentValues;
+
+    // Debounce timers, running checks and the last result of each async validator
+    const asyncTimers = React.useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+    const asyncRuns = React.useRef<Record<string, AsyncRun>>({});
+    const asyncResults = React.useRef<Record<string, { value: any; error: string | null }>>({});
+    const submittingRef = React.useRef(false);
+    // Counts resets, so that a submit waiting on checks stops when the form is reset
+    const resetCountRef = React.useRef(0);
+
+    // The request key each field with an `optionsSource` last loaded; loaders are
+    // read through a ref so passing a new object on every render doesn't reload
+    const optionRequestKeys = React.useRef<Record<string, string | null>>({});
+    const optionLoadersRef = React.useRef(optionLoaders);
+    optionLoadersRef.current = optionLoaders;
+
+    // Uploads of the files currently in the values of file fields
+    const uploadsRef = React.useRef(new Map<File, FileUpload>());
+
+    // Abort everything still running when the form unmounts
+    React.useEffect(() => () => {
+        resetCountRef.current += 1;
+        Object.values(asyncTimers.current).forEach(clearTimeout);
+        Object.values(asyncRuns.current).forEach(run => run.controller.abort());
+        uploadsRef.current.forEach(upload => upload.controller.abort());
+    }, []);
+
+    const visibleFields = resolveFields(schema.formFields, currentValues);
+    const steps = splitIntoSteps(visibleFields);
+    const stepIndex = Math.min(currentStepIndex, steps.length - 1);
+    const isLastStep = stepIndex === steps.length - 1;
+
+    const updateValues = (nextValues: FormValues, changedFieldId: string | null) => {
+        valuesRef.current = nextValues;
+        if (!isControlled) {
+            setInternalValues(nextValues);
+        }
+        onChange?.(nextValues, changedFieldId);
+    };
+
+    const setFieldError = (fieldId: string, error: string | null) => {
+        setErrors(prev => error ? { ...prev, [fieldId]: error } : withoutKey(prev, fieldId));
+    };
+
+    const cancelAsyncValidation = (fieldId: string) => {
+        clearTimeout(asyncTimers.current[fieldId]);
+        delete asyncTimers.current[fieldId];
+        asyncRuns.current[fieldId]?.controller.abort();
+        delete asyncRuns.current[fieldId];
+        setValidating(prev => withoutKey(prev, fieldId));
+    };
+
+    // Resolves to the validator's error, null when valid, or undefined when the
+    // check was superseded by a newer value. Results are reused for unchanged values,
+    // and a check still running for the same value is shared rather than restarted.
+    const runAsyncValidation = (fieldId: string, value: any): Promise<string | null | undefined> => {
+        const validator = asyncValidators?.[fieldId];
+        if (!validator || isEmptyValue(value)) return Promise.resolve(null);
+
+        const cached = asyncResults.current[fieldId];
+        if (cached && cached.value === value) return Promise.resolve(cached.error);
+        const running = asyncRuns.current[fieldId];
+        if (running && running.value === value) return running.result;
+
+        cancelAsyncValidation(fieldId);
+        const controller = new AbortController();
+        setValidating(prev => ({ ...prev, [fieldId]: true }));
+
+        const result = (async () => {
+            let error: string | null;
+            try {
+                error = (await validator(value, { values: valuesRef.current, signal: controller.signal })) || null;
+            } catch (thrown) {
+                // A failing check must not lock the user out; the server validates again on submit
+                if (!controller.signal.aborted) onAsyncValidationError?.(thrown, fieldId);
+                error = null;
+            }
+
+            if (controller.signal.aborted) return undefined;
+            delete asyncRuns.current[fieldId];
+            setValidating(prev => withoutKey(prev, fieldId));
+            asyncResults.current[fieldId] = { value, error };
+            return error;
+        })();
+        asyncRuns.current[fieldId] = { controller, value, result };
+        return result;
+    };
+
+    const scheduleAsyncValidation = (fieldId: string, value: any, nextValues: FormValues) => {
+        if (!asyncValidators?.[fieldId]) return;
+        cancelAsyncValidation(fieldId);
+
+        // Only values that pass the field's own rules are sent to the async check
+        const resolvedField = flattenFields(resolveFields(schema.formFields, nextValues)).find(f => f.id === fieldId);
+        if (!resolvedField || isEmptyValue(value) || validateField(resolvedField, value, validationOptions)) return;
+
+        asyncTimers.current[fieldId] = setTimeout(async () => {
+            delete asyncTimers.current[fieldId];
+            const error = await runAsyncValidation(fieldId, value);
+            if (error !== undefined) {
+                setFieldError(fieldId, error);
+            }
+        }, asyncValidationDelay);
+    };
+
+    const refreshUploadStatuses = () => {
+        setUploadStatuses(new Map(Array.from(uploadsRef.current, ([file, { status, progress, error }]) => [file, { status, progress, error }])));
+    };
+
+    const startUpload = (field: FormField, file: File, upload: FileUploader) => {
+        const controller = new AbortController();
+        const entry: FileUpload = {
+            fieldId: field.id,
+            status: 'uploading',
+            progress: 0,
+            error: null,
+            controller,
+            done: Promise.resolve(),
+            result: null,
+        };
+        const settle = (changes: Partial<FileUpload>) => {
+            if (controller.signal.aborted) return; // Removed from the field in the meantime
+            Object.assign(entry, changes);
+            refreshUploadStatuses();
+        };
+
+        entry.done = upload(file, {
+            field,
+            signal: controller.signal,
+            onProgress: progress => settle({ progress: Math.max(0, Math.min(1, progress)) }),
+        }).then(
+            reference => settle({
+                status: 'done',
+                progress: 1,
+                result: { name: file.name, size: file.size, type: file.type, reference },
+            }),
+            () => settle({ status: 'error', error: formatMessage('uploadFailed', { label: field.label, file: file.name }) }),
+        );
+        uploadsRef.current.set(file, entry);
+    };
+
+    // Cancels the uploads of files removed from a file field and starts those of new files
+    const syncUploads = (field: FormField, files: unknown[]) => {
+        if (!uploader) return;
+
+        uploadsRef.current.forEach((upload, file) => {
+            if (upload.fieldId === field.id && !files.includes(file)) {
+                upload.controller.abort();
+                uploadsRef.current.delete(file);
+            }
+        });
+        files.forEach(file => {
+            // Files rejected by the field's rules are never uploaded
+            if (!(file instanceof File) || uploadsRef.current.has(file) || validateField(field, [file], validationOptions)) return;
+            startUpload(field, file, uploader);
+        });
+        refreshUploadStatuses();
+    };
+
+    const cancelUploads = () => {
+        uploadsRef.current.forEach(upload => upload.controller.abort());
+        uploadsRef.current.clear();
+        refreshUploadStatuses();
+    };
+
+    const setValue = (fieldId: string, value: any) => {
+        const previousValues = valuesRef.current;
+        const previousValue = previousValues[fieldId];
+        const nextValues = applyCalculations(schema.formFields, { ...previousValues, [fieldId]: value });
+        updateValues(nextValues, fieldId);
+        scheduleAsyncValidation(fieldId, value, nextValues);
+
+        // Files of the wrong type or size are reported as soon as they are picked
+        const fileField = flattenFields(schema.formFields).find(field => field.id === fieldId && field.type === 'file');
+        if (fileField) {
+            syncUploads(fileField, Array.isArray(value) ? value : []);
+            if (!isEmptyValue(value)) setFieldError(fieldId, validateField(fileField, value, validationOptions));
+        }
+
+        // Errors of repeater items follow their item when items are removed or reordered
+        let currentErrors = errors;
+        if (flattenFields(schema.formFields).some(field => field.id === fieldId && isRepeater(field))) {
+            currentErrors = moveItemErrors(errors, fieldId, previousValue, value);
+            setErrors(prev => moveItemErrors(prev, fieldId, previousValue, value));
+        }
+
+        // Re-validate a field as the user edits it once it has been flagged as invalid,
+        // together with flagged fields sharing a cross-field rule with it and
+        // calculated fields whose value changed along with it
+        const recalculatedFieldIds = flattenFields(schema.formFields)
+            .filter(field => isCalculatedField(field) && nextValues[field.id] !== previousValues[field.id])
+            .map(field => field.id);
+        const relatedFieldIds = (schema.rules || [])
+            .map(getRuleFieldIds)
+            .filter(fieldIds => fieldIds.includes(fieldId))
+            .reduce((ids, fieldIds) => ids.concat(fieldIds), [fieldId, ...recalculatedFieldIds]);
+        const flaggedFieldIds = Object.keys(currentErrors).filter(key => relatedFieldIds.some(id => isErrorOfField(key, id)));
+        if (flaggedFieldIds.length === 0) return;
+
+        const latestErrors = validateForm(schema.formFields, nextValues, schema.rules, validationOptions);
+        flaggedFieldIds.forEach(id => setFieldError(id, latestErrors[id] || null));
+    };
+
+    // Drops choices that are not among newly loaded options, e.g. the city after the country changed
+    const clearStaleChoice = (field: FormField, options: FieldOption[]) => {
+        const value = valuesRef.current[field.id];
+        if (isEmptyValue(value)) return;
+
+        const optionValues = options.map(option => option.value);
+        if (Array.isArray(value)) {
+            const kept = value.filter(item => optionValues.includes(item));
+            if (kept.length !== value.length) setValue(field.id, kept);
+        } else if (!optionValues.includes(value)) {
+            setValue(field.id, getDefaultValue(field));
+        }
+    };
+
+    const loadFieldOptions = (field: FormField, request: OptionsRequest | null, { reload = false, dependencyChanged = false } = {}) => {
+        optionRequestKeys.current[field.id] = request?.key ?? null;
+        const setFieldOptions = (loaded: LoadedOptions) => setLoadedOptions(prev => ({ ...prev, [field.id]: loaded }));
+
+        // Nothing to load until every field the options depend on has a value
+        if (!request) {
+            setFieldOptions({ options: [], loading: false, error: null });
+            if (dependencyChanged) clearStaleChoice(field, []);
+            return;
+        }
+
+        const loader = optionLoadersRef.current?.[request.source.loader];
+        if (!loader) {
+            setFieldOptions({ options: [], loading: false, error: formatMessage('optionsLoaderMissing', { loader: request.source.loader }) });
+            return;
+        }
+
+        setLoadedOptions(prev => ({ ...prev, [field.id]: { options: prev[field.id]?.options || [], loading: true, error: null } }));
+        loadOptions(loader, request, { reload }).then(
+            options => {
+                if (optionRequestKeys.current[field.id] !== request.key) return; // Superseded by a newer request
+                setFieldOptions({ options, loading: false, error: null });
+                if (dependencyChanged) clearStaleChoice(field, options);
+            },
+            () => {
+                if (optionRequestKeys.current[field.id] !== request.key) return;
+                setFieldOptions({ options: [], loading: false, error: formatMessage('optionsFailed') });
+            },
+        );
+    };
+
+    // (Re)load the options of every field whose request changed, i.e. on mount and
+    // whenever a field listed in `dependsOn` gets a new value
+    const optionRequests = flattenFields(schema.formFields)
+        .filter(field => field.optionsSource)
+        .map(field => ({ field, request: getOptionsRequest(field, currentValues) }));
+    const optionRequestsKey = JSON.stringify(optionRequests.map(({ field, request }) => [field.id, request?.key ?? null]));
+    React.useEffect(() => {
+        optionRequests.forEach(({ field, request }) => {
+            const key = request?.key ?? null;
+            const isLoaded = field.id in optionRequestKeys.current;
+            if (isLoaded && optionRequestKeys.current[field.id] === key) return;
+            loadFieldOptions(field, request, { dependencyChanged: isLoaded });
+        });
+    }, [optionRequestsKey]);
+
+    const getValues = (): FormValues => {
+        const formData: FormValues = {};
+
+        // Hidden fields are left out of the submission
+        flattenFields(resolveFields(schema.formFields, valuesRef.current)).forEach(field => {
+            if (!isInputField(field)) return; // Skip submit buttons, page breaks, fieldsets and content
+            formData[field.id] = valuesRef.current[field.id];
+        });
+
+        return formData;
+    };
+
+    const goToStep = (index: number) => {
+        const latestSteps = splitIntoSteps(resolveFields(schema.formFields, valuesRef.current));
+        const targetStep = Math.max(0, Math.min(index, latestSteps.length - 1));
+        setCurrentStepIndex(targetStep);
+        onStepChange?.(targetStep, latestSteps[targetStep]);
+    };
+
+    // Takes the user back to the first step that still has an error
+    const goToFirstInvalidStep = (fieldErrors: FormErrors) => {
+        const latestSteps = splitIntoSteps(resolveFields(schema.formFields, valuesRef.current));
+        const invalidStep = latestSteps.findIndex(step => flattenFields(step.fields).some(field =>
+            Object.keys(fieldErrors).some(key => isErrorOfField(key, field.id))));
+        if (invalidStep !== -1 && invalidStep !== stepIndex) {
+            goToStep(invalidStep);
+        }
+    };
+
+    // Validates the given fields and runs the async validators of those passing their
+    // own rules. Resolves to null when a value changed while the checks were running.
+    const validateFields = async (fieldIds: string[]): Promise<FormErrors | null> => {
+        // Uploads of these fields have to finish first; failed ones count as errors
+        const uploads = Array.from(uploadsRef.current.values()).filter(upload => fieldIds.includes(upload.fieldId));
+        await Promise.all(uploads.map(upload => upload.done));
+        const uploadErrors: FormErrors = {};
+        uploads.forEach(upload => {
+            if (upload.error && !upload.controller.signal.aborted) {
+                uploadErrors[upload.fieldId] = uploadErrors[upload.fieldId] || upload.error;
+            }
+        });
+
+        // Errors of repeater items count for their repeater
+        const syncErrors = validateForm(schema.formFields, valuesRef.current, schema.rules, validationOptions);
+        const fieldErrors: FormErrors = {};
+        Object.keys(syncErrors).forEach(key => {
+            if (fieldIds.some(fieldId => isErrorOfField(key, fieldId))) {
+                fieldErrors[key] = syncErrors[key];
+            }
+        });
+        fieldIds.forEach(fieldId => {
+            if (!fieldErrors[fieldId] && uploadErrors[fieldId]) {
+                fieldErrors[fieldId] = uploadErrors[fieldId];
+            }
+        });
+
+        const asyncFieldIds = fieldIds.filter(fieldId => asyncValidators?.[fieldId] && !fieldErrors[fieldId]);
+        const asyncErrors = await Promise.all(asyncFieldIds.map(fieldId => {
+            clearTimeout(asyncTimers.current[fieldId]); // Check now instead of after the debounce
+            return runAsyncValidation(fieldId, valuesRef.current[fieldId]);
+        }));
+        if (asyncErrors.includes(undefined)) return null;
+
+        asyncFieldIds.forEach((fieldId, index) => {
+            const error = asyncErrors[index];
+            if (error) {
+                fieldErrors[fieldId] = error;
+            }
+        });
+        return fieldErrors;
+    };
+
+    // Validates like validateFields, checking the latest values again when one changed
+    // during the checks. Resolves to null only when the form was reset meanwhile.
+    const validateLatestFields = async (fieldIds: () => string[]): Promise<FormErrors | null> => {
+        const resetCount = resetCountRef.current;
+        let fieldErrors = await validateFields(fieldIds());
+        while (!fieldErrors && resetCount === resetCountRef.current) {
+            fieldErrors = await validateFields(fieldIds());
+        }
+        return resetCount === resetCountRef.current ? fieldErrors : null;
+    };
+
+    // Files the uploader stored are submitted as their references
+    const withUploadedFiles = (formValues: FormValues): FormValues => {
+        if (!uploader) return formValues;
+
+        const uploaded = { ...formValues };
+        flattenFields(schema.formFields).forEach(field => {
+            const files = formValues[field.id];
+            if (field.type !== 'file' || !Array.isArray(files)) return;
+            uploaded[field.id] = files.map(file => uploadsRef.current.get(file)?.result || file);
+        });
+        return uploaded;
+    };
+
+    const submit = async () => {
+        // Ignore repeated submits (and Next) while checks or onSubmit are still running
+        if (submittingRef.current) return;
+        submittingRef.current = true;
+        setIsSubmitting(true);
+        setFormError(null);
+
+        try {
+            const validationErrors = await validateLatestFields(() => Object.keys(getValues()));
+            if (!validationErrors) return;
+            setErrors(validationErrors);
+
+            // Block submission until every field is valid
+            if (Object.keys(validationErrors).length > 0) {
+                goToFirstInvalidStep(validationErrors);
+                setFailedAttempts(count => count + 1);
+                return;
+            }
+
+            // onSubmit receives typed values: numbers, ISO dates, trimmed text, null for empty fields
+            const submittedValues = withUploadedFiles(valuesRef.current);
+            const submission = coerceSubmission(resolveFields(schema.formFields, submittedValues), submittedValues, { emptyValues });
+            let result: void | SubmitResult;
+            try {
+                result = await onSubmit?.(submission as InferFormData<S>);
+            } catch (error) {
+                // A failed request is shown like a form error returned by the server
+                onSubmitError?.(error);
+                result = { formError: formatMessage('submitFailed') };
+            }
+            if (result) {
+                const fieldErrors = result.fieldErrors || {};
+                setErrors(fieldErrors);
+                setFormError(result.formError || null);
+                goToFirstInvalidStep(fieldErrors);
+                if (Object.keys(fieldErrors).length > 0 || result.formError) {
+                    setFailedAttempts(count => count + 1);
+                }
+            }
+        } finally {
+            submittingRef.current = false;
+            setIsSubmitting(false);
+        }
+    };
+
+    // Validates only the fields of the current step before moving forward. Like submit,
+    // it ignores repeated presses while its checks are running.
+    const nextStep = async () => {
+        if (submittingRef.current) return;
+        submittingRef.current = true;
+        setIsSubmitting(true);
+
+        try {
+            const stepFieldIds = flattenFields(steps[stepIndex].fields).filter(isInputField).map(field => field.id);
+            const stepErrors = await validateLatestFields(() => stepFieldIds);
+            if (!stepErrors) return;
+            setErrors(stepErrors);
+
+            if (Object.keys(stepErrors).length > 0) {
+                setFailedAttempts(count => count + 1);
+                return;
+            }
+
+            goToStep(stepIndex + 1);
+        } finally {
+            submittingRef.current = false;
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSubmit = (e?: React.FormEvent) => {
+        e?.preventDefault();
+        // Pressing enter on an intermediate step advances instead of submitting
+        if (isLastStep) {
+            void submit();
+        } else {
+            void nextStep();
+        }
+    };
+
+    const reset = () => {
+        resetCountRef.current += 1;
+        Object.keys({ ...asyncTimers.current, ...asyncRuns.current }).forEach(cancelAsyncValidation);
+        asyncResults.current = {};
+        cancelUploads();
+        setErrors({});
+        setFormError(null);
+        setFailedAttempts(0);
+        updateValues(applyCalculations(schema.formFields, getInitialValues(schema.formFields, initialValues)), null);
+        if (stepIndex !== 0) {
+            goToStep(0);
+        }
+    };
+
+    const getFieldProps = (field: FormField): FieldComponentProps => {
+        const props: FieldComponentProps = {
+            field,
+            value: currentValues[field.id],
+            onChange: (value: any) => setValue(field.id, value),
+            error: errors[field.id],
+            validating: validating[field.id],
+        };
+        if (field.type === 'file' && uploader) {
+            const files: unknown[] = Array.isArray(props.value) ? props.value : [];
+            props.uploads = files.map(file => file instanceof File ? uploadStatuses.get(file) : undefined);
+        }
+        if (!field.optionsSource) return props;
+
+        // Fields with an `optionsSource` receive the loaded options in place of `options`
+        const loaded = loadedOptions[field.id];
+        return {
+            ...props,
+            field: { ...field, options: loaded?.options || [] },
+            optionsStatus: {
+                loading: !loaded || loaded.loading,
+                error: loaded?.error ?? null,
+                reload: () => loadFieldOptions(field, getOptionsRequest(field, valuesRef.current), { reload: true }),
+            },
+        };
+    };
+
+    const getItemFields = (repeater: FormField): FormField[][] => {
+        const items = currentValues[repeater.id];
+        return Array.isArray(items) ? items.map(item => resolveItemFields(repeater, item || {}, currentValues)) : [];
+    };
+
+    const getItemFieldProps = (repeater: FormField, index: number, field: FormField): FieldComponentProps => {
+        const itemFieldId = getItemFieldId(repeater.id, index, field.id);
+        const items = currentValues[repeater.id];
+        return {
+            field: { ...field, id: itemFieldId },
+            value: Array.isArray(items) ? items[index]?.[field.id] : undefined,
+            onChange: (value: any) => {
+                const latestItems = valuesRef.current[repeater.id];
+                if (!Array.isArray(latestItems)) return;
+                setValue(repeater.id, latestItems.map((item, i) => i === index ? { ...item, [field.id]: value } : item));
+            },
+            error: errors[itemFieldId],
+        };
+    };
+
+    return {
+        schema,
+        locales,
+        formatMessage,
+        fields: visibleFields,
+        steps,
+        stepIndex,
+        currentStep: steps[stepIndex],
+        isMultiStep: steps.length > 1,
+        isLastStep,
+        values: currentValues,
+        errors,
+        formError,
+        validating,
+        isSubmitting,
+        failedAttempts,
+        setValue,
+        getValues,
+        getFieldProps,
+        getItemFields,
+        getItemFieldProps,
+        handleSubmit,
+        submit,
+        reset,
+        nextStep,
+        previousStep: () => goToStep(stepIndex - 1),
+        goToStep,
+    };
+};
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { FormField, FormSchema, FormValues, InferFormData } from './core/types.js';
+import { createFieldMessage, validateForm, ValidationOptions } from './core/validation.js';
+import { isInputField } from './core/values.js';
+import { resolveMask, unmaskValues } from './core/masks.js';
+import { flattenFields } from './core/layout.js';
+import { isErrorOfField, isRepeater, resolveItemFields } from './core/repeaters.js';
+import { resolveFields } from './core/conditions.js';
+import { toIsoDate } from './core/coercion.js';
+
+const stringParts = <K extends string>(parts: readonly K[]) =>
+    z.object(parts.reduce((shape, part) => {
+        shape[part] = z.string();
+        return shape;
+    }, {} as Record<K, z.ZodString>));
+
+// Shape of the value a field submits once coerced (see coerceSubmission). Choices
+// outside the options, stars out of range and dates that aren't dates are reported by validateForm.
+const valueShape = (field: FormField, options: ValidationOptions): z.ZodTypeAny => {
+    if (resolveMask(field)?.submit === 'formatted') return z.string();
+
+    switch (field.type) {
+        case 'number':
+        case 'rating':
+            return z.number();
+        case 'date':
+            // Timestamps pass validateForm, but the form submits the date alone
+            return z.string().refine(
+                value => toIsoDate(value) === null || toIsoDate(value) === value,
+                value => ({ message: createFieldMessage(field, options)('date', { actual: value }) }),
+            );
+        case 'address':
+            return stringParts(['street', 'city', 'state', 'postalCode', 'country']);
+        case 'credit-card':
+            return stringParts(['number', 'name', 'expiry', 'cvc']);
+        case 'select':
+        case 'radio':
+        case 'text':
+        case 'textarea':
+        case 'email':
+        case 'phone':
+        case 'url':
+            return z.string();
+        default:
+            // Custom field types can hold any value
+            return z.unknown();
+    }
+};
+
+// Empty values pass here, as null or left out; whether a field may be empty
+// depends on conditions, so requiredness is checked with the rules below.
+const fieldShape = (field: FormField, options: ValidationOptions): z.ZodTypeAny => {
+    switch (field.type) {
+        case 'checkbox':
+            return z.boolean();
+        case 'checkbox-group':
+        case 'multi-select':
+            return z.array(z.string());
+        case 'file':
+            return z.array(z.any());
+        case 'repeater':
+            return z.array(objectShape(field.fields || [], options));
+        default:
+            return valueShape(field, options).nullable().optional();
+    }
+};
+
+// Object of the submitted fields: the whole form, or an item of a repeater
+const objectShape = (fields: readonly FormField[], options: ValidationOptions) => {
+    const shape: Record<string, z.ZodTypeAny> = {};
+    flattenFields(fields).filter(isInputField).forEach(field => {
+        // Hidden fields are left out of the submission
+        shape[field.id] = field.conditions?.visible ? fieldShape(field, options).optional() : fieldShape(field, options);
+    });
+    return z.object(shape);
+};
+
+// Errors of repeater items, keyed like 'dependents.0.name', are reported at ['dependents', 0, 'name']
+const errorPath = (fields: readonly FormField[], errorKey: string): (string | number)[] => {
+    const repeater = flattenFields(fields).find(field => isRepeater(field) && errorKey !== field.id && isErrorOfField(errorKey, field.id));
+    if (!repeater) return [errorKey];
+    const [, index, fieldId] = /^(\d+)\.(.+)$/.exec(errorKey.slice(repeater.id.length + 1)) || [];
+    return index === undefined ? [errorKey] : [repeater.id, Number(index), fieldId];
+};
+
+// Keeps the values of the fields shown, like coerceSubmission: values of hidden
+// fields, in the form or in repeater items, are dropped from the output.
+const pickShown = (fields: readonly FormField[], data: FormValues, values: FormValues): FormValues => {
+    const picked: FormValues = {};
+    flattenFields(fields).filter(isInputField).forEach(field => {
+        if (!(field.id in data)) return;
+        const value = data[field.id];
+        picked[field.id] = isRepeater(field) && Array.isArray(value)
+            ? value.map((item: FormValues) => pickShown(resolveItemFields(field, item, values), item, values))
+            : value;
+    });
+    return picked;
+};
+
+/**
+ * Builds a Zod schema for the data FormRenderer submits. Parsing applies every
+ * rule of the form schema — required fields, `validation` rules and conditions —
+ * and reports the same messages the renderer shows, at the path of the field ID
+ * (or of the item and field ID for fields of repeaters).
+ * Choices must be one of the field's options (unless "Other" is allowed), and values must
+ * have their submitted types: numbers for number fields, whole stars for ratings and
+ * `YYYY-MM-DD` strings for dates. Values of hidden fields are left out of the output.
+ *
+ * The output is typed with InferFormData, so declare the schema `as const`
+ * to get a precisely typed result. Messages are in `options.locale`, with
+ * labels as written in the schema, and the schema's `messages` replace built-in ones.
+ */
+export function toZod<S extends FormSchema>(schema: S, options?: ValidationOptions): z.ZodType<InferFormData<S>, z.ZodTypeDef, unknown>;
+// The shape is built from the schema at runtime, so the implementation returns
+// plain form values; the signature above gives them the type of the schema.
+export function toZod(schema: FormSchema, options: ValidationOptions = {}): z.ZodType<FormValues, z.ZodTypeDef, unknown> {
+    const validationOptions = { messages: schema.messages, ...options };
+    return objectShape(schema.formFields, validationOptions).superRefine((data, ctx) => {
+        // Formatted values are checked in their raw form, like in the browser
+        const errors = validateForm(schema.formFields, unmaskValues(schema.formFields, data), schema.rules, validationOptions);
+        Object.entries(errors).forEach(([fieldId, message]) => {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: errorPath(schema.formFields, fieldId), message });
+        });
+    }).transform(data => {
+        const values = unmaskValues(schema.formFields, data);
+        return pickShown(resolveFields(schema.formFields, values), data, values);
+    });
+}
@@ -0,0 +1,138 @@
+import React from 'react';
+import axe from 'axe-core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { FormRenderer, FormSchema, getFieldAriaProps } from '../src';
+
+const contactSchema: FormSchema = {
+    formName: 'Contact',
+    formFields: [
+        { id: 'name', type: 'text', label: 'Name', required: true },
+        { id: 'color', type: 'radio', label: 'Favourite colour', required: true, options: ['Red', 'Blue'] },
+        { id: 'topics', type: 'checkbox-group', label: 'Topics', required: true, options: ['Sales', 'Support'] },
+        { id: 'stars', type: 'rating', label: 'Rating', required: false },
+        { id: 'address', type: 'address', label: 'Address', required: false },
+        { id: 'submit', type: 'submit-button', label: 'Send', required: false },
+    ],
+};
+
+const wizardSchema: FormSchema = {
+    formName: 'Sign up',
+    formFields: [
+        { id: 'email', type: 'email', label: 'Email', required: true },
+        { id: 'break', type: 'page-break', label: 'Preferences', required: false },
+        { id: 'plan', type: 'radio', label: 'Plan', required: true, options: ['Free', 'Pro'] },
+        { id: 'submit', type: 'submit-button', label: 'Sign up', required: false },
+    ],
+};
+
+// jsdom does not lay pages out, so contrast cannot be checked here
+const expectNoAxeViolations = async (container: HTMLElement) => {
+    const results = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } });
+    expect(results.violations.map(violation => `${violation.id}: ${violation.nodes.map(node => node.target).join(', ')}`)).toEqual([]);
+};
+
+const getErrorSummary = () => screen.getByRole('group', { name: /problems? with this form/ });
+
+afterEach(cleanup);
+
+describe('FormRenderer accessibility', () => {
+    it('has no axe violations', async () => {
+        const { container } = render(<FormRenderer schema={contactSchema} onSubmit={() => {}} />);
+        await expectNoAxeViolations(container);
+    });
+
+    it('groups radio and checkbox inputs in fieldsets labelled by their legend', () => {
+        const { container } = render(<FormRenderer schema={contactSchema} onSubmit={() => {}} />);
+
+        expect(screen.getByRole('group', { name: 'Favourite colour (required)' })).toBe(container.querySelector('fieldset#color'));
+        expect(screen.getByRole('group', { name: 'Topics (required)' })).toBe(container.querySelector('fieldset#topics'));
+        // Optional groups get no hint
+        expect(screen.getByRole('group', { name: 'Rating' })).toBe(container.querySelector('fieldset#stars'));
+        container.querySelectorAll('legend > span, label > span').forEach(marker => {
+            if (marker.textContent === '*') expect(marker.getAttribute('aria-hidden')).toBe('true');
+        });
+    });
+
+    it('links errors to their inputs after a failed submit', async () => {
+        const onSubmit = vi.fn();
+        const { container } = render(<FormRenderer schema={contactSchema} onSubmit={onSubmit} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        await waitFor(() => getErrorSummary());
+
+        const name = container.querySelector('#name')!;
+        expect(name.getAttribute('aria-invalid')).toBe('true');
+        expect(document.getElementById(name.getAttribute('aria-describedby')!)?.textContent).toBe('Name is required');
+        expect(container.querySelector('fieldset#color')!.getAttribute('aria-describedby')).toBe('color-error');
+        container.querySelectorAll('#color input').forEach(radio => expect(radio.getAttribute('aria-invalid')).toBe('true'));
+        expect(onSubmit).not.toHaveBeenCalled();
+        await expectNoAxeViolations(container);
+    });
+
+    it('moves the focus to the error summary after a failed submit', async () => {
+        render(<FormRenderer schema={contactSchema} onSubmit={() => {}} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        await waitFor(() => expect(document.activeElement).toBe(getErrorSummary()));
+        expect(getErrorSummary().textContent).toContain('There are 3 problems with this form');
+    });
+
+    it('focuses the field of an error summary link', async () => {
+        const { container } = render(<FormRenderer schema={contactSchema} onSubmit={() => {}} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        await waitFor(() => getErrorSummary());
+
+        fireEvent.click(screen.getByRole('link', { name: 'Name is required' }));
+        expect(document.activeElement).toBe(container.querySelector('#name'));
+        // Groups focus their first input
+        fireEvent.click(screen.getByRole('link', { name: 'Favourite colour is required' }));
+        expect(document.activeElement).toBe(container.querySelector('#color-0'));
+    });
+
+    it('focuses the form error when the server returns only that', async () => {
+        const filled = { name: 'Ada', color: 'Red', topics: ['Sales'] };
+        render(<FormRenderer schema={contactSchema} initialValues={filled} onSubmit={() => ({ formError: 'Try again later' })} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        await waitFor(() => expect(document.activeElement).toBe(screen.getByRole('alert')));
+        expect(screen.getByRole('alert').textContent).toBe('Try again later');
+    });
+
+    it('keeps a multi-step form accessible and moves the focus between steps', async () => {
+        const { container } = render(<FormRenderer schema={wizardSchema} onSubmit={() => {}} />);
+        await expectNoAxeViolations(container);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+        await waitFor(() => expect(document.activeElement).toBe(getErrorSummary()));
+        expect(getErrorSummary().textContent).toContain('There is 1 problem with this form');
+        await expectNoAxeViolations(container);
+
+        fireEvent.change(container.querySelector('#email')!, { target: { value: 'ada@example.com' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+        await waitFor(() => expect(document.activeElement?.textContent).toContain('Step 2 of 2'));
+        expect(screen.getByRole('group', { name: 'Plan (required)' })).toBeTruthy();
+        await expectNoAxeViolations(container);
+    });
+});
+
+describe('getFieldAriaProps', () => {
+    const field = { id: 'city', type: 'select', label: 'City', required: true };
+
+    it('describes the input by its error, or its progress note while checking', () => {
+        expect(getFieldAriaProps({ field })).toEqual({ 'aria-invalid': undefined, 'aria-describedby': undefined });
+        expect(getFieldAriaProps({ field, validating: true })['aria-describedby']).toBe('city-validating');
+        expect(getFieldAriaProps({ field, error: 'City is required', validating: true })).toEqual({
+            'aria-invalid': true,
+            'aria-describedby': 'city-error',
+        });
+    });
+
+    it('adds the note of options being loaded', () => {
+        const optionsStatus = { loading: true, error: null, reload: () => {} };
+        expect(getFieldAriaProps({ field, optionsStatus })['aria-describedby']).toBe('city-options-loading');
+        expect(getFieldAriaProps({ field, error: 'Bad', optionsStatus: { ...optionsStatus, error: 'Failed' } })['aria-describedby'])
+            .toBe('city-error city-options-error');
+    });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalculations, FormField } from '../src/core';
+
+const totalField = (expression: string): FormField[] => [
+    { id: 'price', type: 'number', label: 'Price', required: false },
+    { id: 'total', type: 'calculated', label: 'Total', required: false, expression },
+];
+
+describe('applyCalculations', () => {
+    it('computes expressions again after many others were parsed', () => {
+        expect(applyCalculations(totalField('price * 2'), { price: 5 }).total).toBe(10);
+        // Like the builder, which parses every draft of an expression
+        for (let factor = 3; factor < 500; factor++) {
+            expect(applyCalculations(totalField(`price * ${factor}`), { price: 1 }).total).toBe(factor);
+        }
+        expect(applyCalculations(totalField('price * 2'), { price: 7 }).total).toBe(14);
+    });
+});
@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { coerceValue, FormField, toIsoDate, validateField } from '../src/core';
+
+const dateField: FormField = { id: 'birthday', type: 'date', label: 'Birthday', required: false };
+
+describe('dates', () => {
+    // East of UTC, local midnight is still the previous day in UTC
+    const timeZone = process.env.TZ;
+    beforeAll(() => {
+        process.env.TZ = 'Asia/Tokyo';
+    });
+    afterAll(() => {
+        process.env.TZ = timeZone;
+    });
+
+    it('keeps valid ISO dates and rejects impossible ones', () => {
+        expect(toIsoDate('2024-02-29')).toBe('2024-02-29');
+        expect(toIsoDate('2023-02-29')).toBeNull();
+        expect(toIsoDate('2024-13-01')).toBeNull();
+        expect(toIsoDate('not a date')).toBeNull();
+    });
+
+    it('takes the date written in a timestamp, whatever its timezone', () => {
+        expect(toIsoDate('2024-03-14T23:30:00-05:00')).toBe('2024-03-14');
+        expect(toIsoDate('2024-03-14T00:30:00.000Z')).toBe('2024-03-14');
+        expect(toIsoDate('2024-03-14T10:00')).toBe('2024-03-14');
+        expect(toIsoDate('2024-03-14T25:00')).toBeNull();
+    });
+
+    it('only reads ISO dates and timestamps', () => {
+        expect(toIsoDate('1')).toBeNull();
+        expect(toIsoDate('03/14/2024')).toBeNull();
+        expect(toIsoDate(new Date(2024, 2, 14).toString())).toBeNull();
+    });
+
+    it('reports texts that are not dates', () => {
+        expect(validateField(dateField, 'not a date')).toBe('Birthday must be a valid date');
+        expect(validateField(dateField, '2024-02-30')).toBe('Birthday must be a valid date');
+        expect(validateField(dateField, '1')).toBe('Birthday must be a valid date');
+        expect(validateField(dateField, '2024-03-14')).toBeNull();
+        expect(coerceValue(dateField, ' 2024-03-14T08:00:00Z ')).toBe('2024-03-14');
+    });
+});
+
+describe('ratings', () => {
+    const ratingField: FormField = { id: 'stars', type: 'rating', label: 'Stars', required: true };
+
+    it('submits a rating posted as text as a number', () => {
+        expect(validateField(ratingField, '3')).toBeNull();
+        expect(coerceValue(ratingField, '3')).toBe(3);
+        expect(coerceValue(ratingField, 4)).toBe(4);
+    });
+});
+
+describe('checkboxes', () => {
+    const termsField: FormField = { id: 'terms', type: 'checkbox', label: 'Terms', required: true };
+
+    it('reads the texts an HTML form posts', () => {
+        expect(coerceValue(termsField, 'on')).toBe(true);
+        expect(coerceValue(termsField, 'true')).toBe(true);
+        expect(coerceValue(termsField, 'false')).toBe(false);
+        expect(validateField(termsField, 'on')).toBeNull();
+    });
+
+    it('does not count "false" as checked', () => {
+        expect(validateField(termsField, 'false')).toBe('Terms is required');
+        expect(validateField({ ...termsField, required: false }, 'false')).toBeNull();
+    });
+
+    it('rejects other values', () => {
+        expect(validateField(termsField, 'yes')).toBe('Terms has a value of the wrong kind');
+        expect(validateField(termsField, 1)).toBe('Terms has a value of the wrong kind');
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition, FormField, resolveFields, validateForm } from '../src/core';
+
+const fields: FormField[] = [
+    { id: 'contact', type: 'radio', label: 'Contact me by', required: true, options: ['email', 'phone'] },
+    { id: 'email', type: 'email', label: 'Email', required: false, conditions: { visible: { fieldId: 'contact', operator: 'equals', value: 'email' } } },
+    { id: 'phone', type: 'phone', label: 'Phone', required: false, conditions: { visible: { fieldId: 'contact', operator: 'equals', value: 'phone' } } },
+    { id: 'ext', type: 'text', label: 'Extension', required: false, conditions: { visible: { fieldId: 'phone', operator: 'is-empty' } } },
+    { id: 'age', type: 'number', label: 'Age', required: false },
+    { id: 'guardian', type: 'text', label: 'Guardian', required: false, conditions: { required: { fieldId: 'age', operator: 'in', value: ['16', '17'] } } },
+];
+
+const visibleIds = (values: Record<string, unknown>) => resolveFields(fields, values).map(field => field.id);
+
+describe('conditions', () => {
+    it('evaluates rules and all/any groups', () => {
+        const values = { age: 20, contact: 'phone' };
+
+        expect(evaluateCondition({ fieldId: 'age', operator: 'greater-than', value: '18' }, values)).toBe(true);
+        expect(evaluateCondition({ fieldId: 'contact', operator: 'not-equals', value: 'phone' }, values)).toBe(false);
+        expect(evaluateCondition({ combinator: 'any', rules: [
+            { fieldId: 'age', operator: 'is-empty' },
+            { fieldId: 'contact', operator: 'equals', value: 'phone' },
+        ] }, values)).toBe(true);
+        expect(evaluateCondition({ combinator: 'all', rules: [
+            { fieldId: 'age', operator: 'is-empty' },
+            { fieldId: 'contact', operator: 'equals', value: 'phone' },
+        ] }, values)).toBe(false);
+    });
+
+    it('shows fields whose conditions hold, ignoring the values of hidden fields', () => {
+        expect(visibleIds({ contact: 'email', phone: '555 0100' })).toEqual(['contact', 'email', 'ext', 'age', 'guardian']);
+        expect(visibleIds({ contact: 'phone', phone: '555 0100' })).toEqual(['contact', 'phone', 'age', 'guardian']);
+    });
+
+    it('requires fields whose required condition holds', () => {
+        const guardian = (age: number) => resolveFields(fields, { age }).find(field => field.id === 'guardian')!;
+
+        expect(guardian(16).required).toBe(true);
+        expect(guardian(30).required).toBe(false);
+    });
+
+    it('does not validate hidden fields', () => {
+        expect(validateForm(fields, { contact: 'phone', email: 'not an email', age: 17 })).toEqual({
+            guardian: 'Guardian is required',
+        });
+    });
+});
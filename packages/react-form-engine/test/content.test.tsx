@@ -0,0 +1,77 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { FormRenderer, FormSchema, isSafeUrl, parseMarkdown } from '../src';
+
+afterEach(cleanup);
+
+describe('parseMarkdown', () => {
+    it('parses paragraphs, inline formatting, links and lists', () => {
+        expect(parseMarkdown('Read **the terms**,\n*then* `sign`.\n\n1. [Terms](https://example.com/terms)\n2. Privacy')).toEqual([
+            {
+                type: 'paragraph',
+                children: [
+                    { type: 'text', text: 'Read ' },
+                    { type: 'strong', children: [{ type: 'text', text: 'the terms' }] },
+                    { type: 'text', text: ',' },
+                    { type: 'break' },
+                    { type: 'emphasis', children: [{ type: 'text', text: 'then' }] },
+                    { type: 'text', text: ' ' },
+                    { type: 'code', text: 'sign' },
+                    { type: 'text', text: '.' },
+                ],
+            },
+            {
+                type: 'list',
+                ordered: true,
+                items: [
+                    [{ type: 'link', href: 'https://example.com/terms', children: [{ type: 'text', text: 'Terms' }] }],
+                    [{ type: 'text', text: 'Privacy' }],
+                ],
+            },
+        ]);
+    });
+
+    it('keeps HTML as text', () => {
+        expect(parseMarkdown('<b>bold</b>')).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: '<b>bold</b>' }] }]);
+    });
+
+    it('only links to safe URLs', () => {
+        expect(isSafeUrl('https://example.com')).toBe(true);
+        expect(isSafeUrl('mailto:ada@example.com')).toBe(true);
+        expect(isSafeUrl('/terms')).toBe(true);
+        expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+    });
+});
+
+describe('content blocks', () => {
+    const schema: FormSchema = {
+        formName: 'Terms',
+        formFields: [
+            { id: 'title', type: 'heading', label: 'Before you start', required: false, level: 2 },
+            { id: 'intro', type: 'paragraph', label: '', required: false, content: 'See [our terms](javascript:alert(1)) and [privacy](https://example.com/privacy).' },
+            { id: 'line', type: 'divider', label: '', required: false },
+            { id: 'logo', type: 'image', label: 'Company logo', required: false, src: 'https://example.com/logo.png' },
+            { id: 'agree', type: 'checkbox', label: 'I agree', required: true },
+        ],
+    };
+
+    it('render their content between the fields', () => {
+        render(<FormRenderer schema={schema} onSubmit={() => {}} />);
+
+        expect(screen.getByRole('heading', { level: 2, name: 'Before you start' })).toBeTruthy();
+        expect(screen.getByRole('link', { name: 'privacy' }).getAttribute('href')).toBe('https://example.com/privacy');
+        expect(screen.queryByRole('link', { name: 'our terms' })).toBeNull();
+        expect(screen.getByRole('separator')).toBeTruthy();
+        expect(screen.getByRole('img', { name: 'Company logo' }).getAttribute('src')).toBe('https://example.com/logo.png');
+    });
+
+    it('are left out of the submitted values', async () => {
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={schema} onSubmit={onSubmit} />);
+
+        fireEvent.click(screen.getByLabelText(/I agree/));
+        fireEvent.submit(screen.getByLabelText(/I agree/).closest('form')!);
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ agree: true }));
+    });
+});
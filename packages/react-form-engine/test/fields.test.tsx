@@ -0,0 +1,75 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { FormField, FormRenderer, FormSchema, validateField } from '../src';
+
+afterEach(cleanup);
+
+const renderField = (field: FormField) => {
+    const onChange = vi.fn();
+    const schema: FormSchema = { formName: 'Fields', formFields: [field] };
+    render(<FormRenderer schema={schema} onChange={onChange} onSubmit={() => {}} />);
+    return onChange;
+};
+
+describe('rating fields', () => {
+    it('select a number of stars, and clear it when the selected star is pressed again', () => {
+        const onChange = renderField({ id: 'stars', type: 'rating', label: 'Stars', required: false, validation: { max: 3 } });
+        expect(screen.getAllByRole('button', { name: /of 3/ })).toHaveLength(3);
+
+        fireEvent.click(screen.getByRole('button', { name: '2 of 3' }));
+        expect(onChange).toHaveBeenLastCalledWith({ stars: 2 }, 'stars');
+        expect(screen.getByRole('button', { name: '2 of 3' }).getAttribute('aria-pressed')).toBe('true');
+
+        fireEvent.click(screen.getByRole('button', { name: '2 of 3' }));
+        expect(onChange).toHaveBeenLastCalledWith({ stars: null }, 'stars');
+    });
+});
+
+describe('address fields', () => {
+    const address: FormField = { id: 'home', type: 'address', label: 'Home', required: true };
+
+    it('edit one part of the address at a time', () => {
+        const onChange = renderField(address);
+
+        fireEvent.change(screen.getByLabelText('City'), { target: { value: 'Lyon' } });
+        expect(onChange).toHaveBeenLastCalledWith({ home: expect.objectContaining({ city: 'Lyon' }) }, 'home');
+    });
+
+    it('are incomplete until every part but the state is filled in', () => {
+        const full = { street: '1 Rue de la Paix', city: 'Lyon', state: '', postalCode: '69001', country: 'France' };
+
+        expect(validateField(address, { ...full, city: '' })).toBe('Home is incomplete');
+        expect(validateField(address, full)).toBeNull();
+    });
+});
+
+describe('credit card fields', () => {
+    const card: FormField = { id: 'card', type: 'credit-card', label: 'Card', required: true };
+    const valid = { number: '4242 4242 4242 4242', name: 'Ada Lovelace', expiry: '12/99', cvc: '123' };
+
+    it('render an input per part of the card', () => {
+        renderField(card);
+
+        ['Card number', 'Name on card', 'Expiry (MM/YY)', 'CVC'].forEach(label => expect(screen.getByLabelText(label)).toBeTruthy());
+    });
+
+    it('check the number, name, expiry and security code', () => {
+        expect(validateField(card, valid)).toBeNull();
+        expect(validateField(card, { ...valid, number: '4242 4242 4242 4241' })).toBe('Card must be a valid card number');
+        expect(validateField(card, { ...valid, name: '' })).toBe('Card is missing the name on the card');
+        expect(validateField(card, { ...valid, expiry: '13/30' })).toBe('Card expiry date must be in MM/YY format');
+        expect(validateField(card, { ...valid, expiry: '01/20' })).toBe('Card has expired');
+        expect(validateField(card, { ...valid, cvc: '12' })).toBe('Card security code is invalid');
+    });
+});
+
+describe('file fields', () => {
+    it('add the picked files to the value', () => {
+        const onChange = renderField({ id: 'cv', type: 'file', label: 'CV', required: false });
+        const file = new File(['hello'], 'cv.pdf', { type: 'application/pdf' });
+
+        fireEvent.change(screen.getByLabelText(/CV/), { target: { files: [file] } });
+        expect(onChange).toHaveBeenLastCalledWith({ cv: [file] }, 'cv');
+    });
+});
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { FileUploader, FormField, formatFileSize, matchesAccept, useFormEngine, validateField } from '../src';
+
+afterEach(cleanup);
+
+const photos: FormField = {
+    id: 'photos',
+    type: 'file',
+    label: 'Photos',
+    required: false,
+    multiple: true,
+    validation: { accept: 'image/*,.pdf', maxFileSize: 1024, maxFiles: 2 },
+};
+
+const file = (name: string, type: string, size = 10) => new File(['x'.repeat(size)], name, { type });
+
+describe('file validation', () => {
+    it('matches files against accepted MIME types and extensions', () => {
+        expect(matchesAccept(file('cat.png', 'image/png'), 'image/*')).toBe(true);
+        expect(matchesAccept(file('cv.PDF', ''), '.pdf')).toBe(true);
+        expect(matchesAccept(file('notes.txt', 'text/plain'), 'image/*,.pdf')).toBe(false);
+    });
+
+    it('checks the type, size and number of files', () => {
+        expect(validateField(photos, [file('notes.txt', 'text/plain')])).toBe('Photos: "notes.txt" is not an accepted file type');
+        expect(validateField(photos, [file('big.png', 'image/png', 2048)])).toBe('Photos: "big.png" is larger than 1 KB');
+        expect(validateField(photos, [file('a.png', 'image/png'), file('b.png', 'image/png'), file('c.png', 'image/png')]))
+            .toBe('Photos allows at most 2 files');
+        expect(validateField(photos, [file('a.png', 'image/png')])).toBeNull();
+    });
+
+    it('formats sizes for messages', () => {
+        expect(formatFileSize(512)).toBe('512 bytes');
+        expect(formatFileSize(5 * 1024 * 1024)).toBe('5 MB');
+    });
+});
+
+describe('useFormEngine uploads', () => {
+    const schema = { formName: 'Album', formFields: [photos] };
+
+    it('uploads picked files and submits their references', async () => {
+        const uploader: FileUploader = vi.fn(async (picked: File) => `https://files.example.com/${picked.name}`);
+        const onSubmit = vi.fn();
+        const { result } = renderHook(() => useFormEngine({ schema, uploader, onSubmit }));
+        const cat = file('cat.png', 'image/png');
+
+        act(() => result.current.setValue('photos', [cat, file('notes.txt', 'text/plain')]));
+        await act(() => result.current.submit());
+
+        // Files the field rejects are never uploaded, and block the submission
+        expect(uploader).toHaveBeenCalledTimes(1);
+        expect(onSubmit).not.toHaveBeenCalled();
+
+        act(() => result.current.setValue('photos', [cat]));
+        await act(() => result.current.submit());
+        expect(onSubmit).toHaveBeenCalledWith({
+            photos: [{ name: 'cat.png', size: 10, type: 'image/png', reference: 'https://files.example.com/cat.png' }],
+        });
+    });
+
+    it('reports failed uploads on the field', async () => {
+        const uploader: FileUploader = async () => {
+            throw new Error('Bucket full');
+        };
+        const onSubmit = vi.fn();
+        const { result } = renderHook(() => useFormEngine({ schema, uploader, onSubmit }));
+
+        act(() => result.current.setValue('photos', [file('cat.png', 'image/png')]));
+        await act(() => result.current.submit());
+
+        expect(onSubmit).not.toHaveBeenCalled();
+        expect(result.current.errors.photos).toBe('Photos: "cat.png" could not be uploaded');
+    });
+});
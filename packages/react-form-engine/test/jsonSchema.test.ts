@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FormSchema, fromJsonSchema, JsonSchema, toJsonSchema } from '../src/core';
+
+describe('toJsonSchema', () => {
+    const schema: FormSchema = {
+        formName: 'Order',
+        formFields: [
+            { id: 'size', type: 'radio', label: 'Size', required: true, options: [{ label: 'Small', value: 's' }, 'l'] },
+            { id: 'color', type: 'select', label: 'Colour', required: false, options: ['red'] },
+            { id: 'city', type: 'select', label: 'City', required: false, optionsSource: { loader: 'cities' } },
+        ],
+    };
+
+    it('writes options as titled const values', () => {
+        const { properties } = toJsonSchema(schema);
+        expect(properties!.size).toEqual({ title: 'Size', type: 'string', oneOf: [{ const: 's', title: 'Small' }, { const: 'l', title: 'l' }] });
+        expect(properties!.color.oneOf).toEqual([{ const: 'red', title: 'red' }, { const: null }]);
+        expect(properties!.city).toEqual({ title: 'City', type: ['string', 'null'] });
+    });
+
+    it('keeps option labels through a round trip', () => {
+        const fields = fromJsonSchema(toJsonSchema(schema), { onWarning: () => {} }).formFields;
+        expect(fields[0]).toMatchObject({ type: 'select', options: [{ label: 'Small', value: 's' }, 'l'] });
+        expect(fields[1]).toMatchObject({ type: 'select', options: ['red'] });
+    });
+});
+
+describe('fromJsonSchema', () => {
+    it('skips lists whose items refer back to an enclosing definition', () => {
+        const category: JsonSchema = {
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                children: { type: 'array', items: { $ref: '#/$defs/category' } },
+            },
+        };
+        const root: JsonSchema = { ...category, $defs: { category } };
+        const onWarning = vi.fn();
+
+        const fields = fromJsonSchema(root, { onWarning }).formFields;
+        expect(fields.map(field => field.id)).toEqual(['name', 'children', 'submit']);
+        expect(fields[1].fields!.map(field => field.id)).toEqual(['name']);
+        expect(onWarning).toHaveBeenCalledWith('Property "children.children" refers back to "#/$defs/category" and was skipped');
+    });
+
+    it('reports references that only point at each other', () => {
+        const loop: JsonSchema = { type: 'object', properties: { a: { $ref: '#/$defs/a' } }, $defs: { a: { $ref: '#/$defs/b' }, b: { $ref: '#/$defs/a' } } };
+        expect(() => fromJsonSchema(loop)).toThrow('Circular JSON Schema reference "#/$defs/a"');
+    });
+});
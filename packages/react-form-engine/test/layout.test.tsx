@@ -0,0 +1,57 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { flattenFields, FormField, FormRenderer, getGridItemStyle, resolveFields, resolveSpans } from '../src';
+
+afterEach(cleanup);
+
+const contact: FormField = {
+    id: 'contact',
+    type: 'fieldset',
+    label: 'Contact',
+    required: false,
+    conditions: { visible: { fieldId: 'reachable', operator: 'equals', value: true } },
+    fields: [
+        { id: 'email', type: 'email', label: 'Email', required: true, layout: { span: { base: 12, md: 6 } } },
+        { id: 'phone', type: 'phone', label: 'Phone', required: false, layout: { span: { base: 12, md: 6 } } },
+    ],
+};
+const fields: FormField[] = [{ id: 'reachable', type: 'checkbox', label: 'Contact me', required: false }, contact];
+
+describe('layout grid', () => {
+    it('takes the span of the next smaller breakpoint, within 1 to 12 columns', () => {
+        expect(resolveSpans({ span: { base: 12, md: 6 } })).toEqual({ base: 12, sm: 12, md: 6, lg: 6 });
+        expect(resolveSpans({ span: 20 })).toEqual({ base: 12, sm: 12, md: 12, lg: 12 });
+        expect(resolveSpans()).toEqual({ base: 12, sm: 12, md: 12, lg: 12 });
+    });
+
+    it('places fields with CSS variables, starting a row when asked', () => {
+        expect(getGridItemStyle({ id: 'city', type: 'text', label: 'City', required: false, layout: { span: 4, newRow: true } })).toEqual({
+            '--form-column-start': 1,
+            '--form-span-base': 4,
+            '--form-span-sm': 4,
+            '--form-span-md': 4,
+            '--form-span-lg': 4,
+        });
+    });
+});
+
+describe('fieldsets', () => {
+    it('are flattened with their condition passed on to their fields', () => {
+        const flat = flattenFields(fields);
+
+        expect(flat.map(field => field.id)).toEqual(['reachable', 'contact', 'email', 'phone']);
+        expect(flat[2].conditions?.visible).toEqual(contact.conditions!.visible);
+        expect(flattenFields(resolveFields(fields, { reachable: false })).map(field => field.id)).toEqual(['reachable']);
+    });
+
+    it('group their fields under a legend, and submit them as top-level values', async () => {
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={{ formName: 'Contact', formFields: fields }} initialValues={{ reachable: true }} onSubmit={onSubmit} />);
+
+        expect(screen.getByRole('group', { name: 'Contact' })).toBeTruthy();
+        fireEvent.change(screen.getByLabelText(/Email/), { target: { value: 'ada@example.com' } });
+        fireEvent.submit(screen.getByLabelText(/Email/).closest('form')!);
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ reachable: true, email: 'ada@example.com', phone: null }));
+    });
+});
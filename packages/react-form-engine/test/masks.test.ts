@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { coerceSubmission, FieldMask, FormField, formatMaskedValue, unmaskValue, unmaskValues, validateField } from '../src/core';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+// Runs as if the runtime's default locale were German, like a browser set to German
+const useGermanRuntime = () => {
+    const NumberFormat = Intl.NumberFormat;
+    vi.spyOn(Intl, 'NumberFormat').mockImplementation((locale, options) => new NumberFormat(locale ?? 'de-DE', options));
+};
+
+describe('pattern masks', () => {
+    const mask: FieldMask = { type: 'pattern', pattern: '99999-9999' };
+
+    it('insert the literals of the pattern and keep the typed characters as the raw value', () => {
+        expect(unmaskValue(mask, '12345a6789')).toBe('123456789');
+        expect(formatMaskedValue(mask, '123456789')).toBe('12345-6789');
+        // Literals are only shown once a character follows them
+        expect(formatMaskedValue(mask, '12345')).toBe('12345');
+    });
+
+    it('report values leaving slots unfilled as incomplete', () => {
+        const zip: FormField = { id: 'zip', type: 'text', label: 'ZIP code', required: false, mask: '99999-9999' };
+
+        expect(validateField(zip, '1234')).toBe('ZIP code is incomplete');
+        expect(validateField(zip, '123456789')).toBeNull();
+    });
+});
+
+describe('phone and card masks', () => {
+    it('format national numbers in the format of the country and keep international ones as digits', () => {
+        expect(formatMaskedValue({ type: 'phone' }, '5551234567')).toBe('(555) 123-4567');
+        expect(formatMaskedValue({ type: 'phone', country: 'FR' }, '0612345678')).toBe('06 12 34 56 78');
+        expect(unmaskValue({ type: 'phone' }, '+44 20 7946 0958')).toBe('+442079460958');
+    });
+
+    it('group card numbers, American Express ones differently', () => {
+        expect(formatMaskedValue({ type: 'card' }, '4242424242424242')).toBe('4242 4242 4242 4242');
+        expect(formatMaskedValue({ type: 'card' }, '378282246310005')).toBe('3782 822463 10005');
+    });
+});
+
+describe('submitted values', () => {
+    const fields: FormField[] = [
+        { id: 'phone', type: 'phone', label: 'Phone', required: false, mask: { type: 'phone', submit: 'formatted' } },
+        { id: 'amount', type: 'number', label: 'Amount', required: false, mask: { type: 'currency' } },
+    ];
+
+    it('are raw unless the mask submits them formatted', () => {
+        expect(coerceSubmission(fields, { phone: '5551234567', amount: '1234.5' })).toEqual({ phone: '(555) 123-4567', amount: 1234.5 });
+        expect(unmaskValues(fields, { phone: '(555) 123-4567', amount: 1234.5 })).toEqual({ phone: '5551234567', amount: 1234.5 });
+    });
+});
+
+describe('number masks', () => {
+    it('use en-US separators when the mask has no locale, whatever the runtime locale', () => {
+        useGermanRuntime();
+        const mask: FieldMask = { type: 'number' };
+
+        expect(formatMaskedValue(mask, '1234.5')).toBe('1,234.5');
+        expect(unmaskValue(mask, '1,234.5')).toBe('1234.5');
+    });
+
+    it('use the separators of the mask locale', () => {
+        const mask: FieldMask = { type: 'currency', currency: 'EUR', locale: 'de-DE' };
+
+        expect(formatMaskedValue(mask, '1234.5')).toBe('1.234,5 €');
+        expect(unmaskValue(mask, '1.234,56 €')).toBe('1234.56');
+    });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { createMessageFormatter, FormField, FormRenderer, FormSchema, formatMessage, getValidationMessageKeys, validateField } from '../src';
+
+const schema: FormSchema = {
+    formName: 'Survey',
+    formFields: [{ id: 'mood', type: 'emoji-scale', label: 'Mood', required: false }],
+};
+
+afterEach(cleanup);
+
+describe('FormRenderer messages', () => {
+    it('reports a field type without a component in the form language', () => {
+        render(<FormRenderer schema={schema} onSubmit={() => {}} />);
+        expect(screen.getByText('Unsupported field type: emoji-scale')).toBeTruthy();
+        cleanup();
+
+        render(<FormRenderer schema={schema} locale="fr" onSubmit={() => {}} />);
+        expect(screen.getByText('Type de champ non pris en charge : emoji-scale')).toBeTruthy();
+    });
+});
+
+const nickname: FormField = {
+    id: 'nickname',
+    type: 'text',
+    label: 'Nickname',
+    required: true,
+    validation: {
+        minLength: 3,
+        pattern: '^[a-z]+$',
+        messages: { minLength: '{label} needs {min} characters, not {actual}' },
+    },
+};
+
+describe('message templates', () => {
+    it('fill in placeholders and pick the plural form of the language', () => {
+        const template = { one: '{label} needs {count} item', other: '{label} needs {count} items' };
+
+        expect(formatMessage(template, { label: 'Kids', count: 1 })).toBe('Kids needs 1 item');
+        expect(formatMessage(template, { label: 'Kids', count: 2 })).toBe('Kids needs 2 items');
+        expect(formatMessage('{label} is {unknown}', { label: 'Kids' })).toBe('Kids is {unknown}');
+    });
+
+    it('prefer the messages of the field, then those of the form, then the built-in ones', () => {
+        const messages = { required: 'Please fill in {label}', pattern: '{label} has the wrong format' };
+
+        expect(validateField(nickname, 'ab', { messages })).toBe('Nickname needs 3 characters, not 2');
+        expect(validateField(nickname, 'ABC', { messages })).toBe('Nickname has the wrong format');
+        expect(validateField(nickname, '', { messages })).toBe('Please fill in Nickname');
+        expect(validateField(nickname, 'ABC')).toBe('Nickname format is invalid');
+    });
+
+    it('use the custom message of the field for rules without their own message', () => {
+        const field = { ...nickname, validation: { ...nickname.validation, customMessage: '{label} is not valid' } };
+
+        expect(validateField(field, 'ABC', { messages: { pattern: 'Wrong format' } })).toBe('Nickname is not valid');
+        expect(validateField(field, 'ab')).toBe('Nickname needs 3 characters, not 2');
+    });
+
+    it('replace built-in messages in the form language', () => {
+        const format = createMessageFormatter(['fr'], undefined, { required: 'Merci de remplir {label}' });
+
+        expect(format('required', { label: 'Pseudo' })).toBe('Merci de remplir Pseudo');
+        expect(format('addItem')).toBe('Ajouter un élément');
+    });
+
+    it('list the messages a field can report', () => {
+        expect(getValidationMessageKeys(nickname)).toEqual(['required', 'invalidValue', 'minLength', 'maxLength', 'pattern']);
+    });
+
+    it('are shown by the renderer', async () => {
+        const profile: FormSchema = { formName: 'Profile', formFields: [nickname], messages: { required: 'Please fill in {label}' } };
+        render(<FormRenderer schema={profile} onSubmit={() => {}} />);
+
+        fireEvent.submit(screen.getByLabelText(/Nickname/).closest('form')!);
+        expect(await screen.findAllByText('Please fill in Nickname')).not.toHaveLength(0);
+    });
+});
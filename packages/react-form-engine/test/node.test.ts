@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { execFileSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+
+// The package root, so that the package resolves its own name through `exports`
+const packageDir = fileURLToPath(new URL('..', import.meta.url));
+
+const schema = JSON.stringify({
+    formFields: [{ id: 'email', type: 'email', label: 'Email', required: true }],
+});
+
+// Runs a script in plain Node against the built package in dist/ (see the `test` script)
+const runNode = (args: string[]) => execFileSync(process.execPath, args, { cwd: packageDir, encoding: 'utf8' }).trim();
+
+describe('built package in Node', () => {
+    it('validates a submission when the core entry is imported', () => {
+        const output = runNode([
+            '--input-type=module',
+            '-e',
+            `import { validateSubmission } from '@jonesstack/react-form-engine/core';
+            console.log(JSON.stringify(validateSubmission(${schema}, { email: 'nope' })));`,
+        ]);
+        expect(JSON.parse(output)).toMatchObject({ valid: false, errors: { email: 'Email must be a valid email address' } });
+    });
+
+    it('validates a submission when the core entry is required', () => {
+        const output = runNode([
+            '-e',
+            `const { validateSubmission } = require('@jonesstack/react-form-engine/core');
+            console.log(JSON.stringify(validateSubmission(${schema}, { email: 'ada@example.com' })));`,
+        ]);
+        expect(JSON.parse(output)).toEqual({ valid: true, errors: {}, data: { email: 'ada@example.com' } });
+    });
+
+    it('loads the React and Zod entries', () => {
+        const output = runNode([
+            '--input-type=module',
+            '-e',
+            `import { FormRenderer } from '@jonesstack/react-form-engine';
+            import { toZod } from '@jonesstack/react-form-engine/zod';
+            console.log(typeof FormRenderer, typeof toZod);`,
+        ]);
+        expect(output).toBe('object function');
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { clearOptionsCache, FormField, getOptionsRequest, loadOptions } from '../src/core';
+import { useFormEngine } from '../src';
+
+const field: FormField = { id: 'city', type: 'select', label: 'City', required: true, optionsSource: { loader: 'cities' } };
+const request = getOptionsRequest(field, {})!;
+
+describe('loadOptions', () => {
+    it('keeps the results of loaders sharing a name apart', async () => {
+        const french = vi.fn(async () => ['Lyon']);
+        const german = vi.fn(async () => ['Köln']);
+
+        expect(await loadOptions(french, request)).toEqual([{ label: 'Lyon', value: 'Lyon' }]);
+        expect(await loadOptions(german, request)).toEqual([{ label: 'Köln', value: 'Köln' }]);
+        expect(await loadOptions(french, request)).toEqual([{ label: 'Lyon', value: 'Lyon' }]);
+        expect(french).toHaveBeenCalledTimes(1);
+    });
+
+    it('forgets the results of one loader or of all of them', async () => {
+        const first = vi.fn(async () => ['a']);
+        const second = vi.fn(async () => ['b']);
+        await loadOptions(first, request);
+        await loadOptions(second, request);
+
+        clearOptionsCache(first);
+        await loadOptions(first, request);
+        await loadOptions(second, request);
+        expect(first).toHaveBeenCalledTimes(2);
+        expect(second).toHaveBeenCalledTimes(1);
+
+        clearOptionsCache();
+        await loadOptions(second, request);
+        expect(second).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('useFormEngine options', () => {
+    it('reports a missing loader in the language of the form', async () => {
+        const { result } = renderHook(() => useFormEngine({
+            schema: { formName: 'Address', formFields: [field] },
+            locale: 'fr',
+        }));
+
+        await waitFor(() => expect(result.current.getFieldProps(field).optionsStatus?.error).toBe('Aucun chargeur d’options nommé « cities »'));
+    });
+});
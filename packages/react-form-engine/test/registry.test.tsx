@@ -0,0 +1,62 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { FieldComponent, FormRenderer, FormSchema, registerFieldType, unregisterFieldType } from '../src';
+
+afterEach(() => {
+    cleanup();
+    unregisterFieldType('emoji-scale');
+    unregisterFieldType('text');
+});
+
+const schema: FormSchema = {
+    formName: 'Survey',
+    formFields: [
+        { id: 'mood', type: 'emoji-scale', label: 'Mood', required: true },
+        { id: 'send', type: 'submit-button', label: 'Send', required: false },
+    ],
+};
+
+const EmojiScale: FieldComponent = ({ field, value, onChange, error }) => (
+    <div>
+        {['🙁', '🙂'].map(emoji => (
+            <button key={emoji} type="button" aria-pressed={value === emoji} onClick={() => onChange(emoji)}>{emoji}</button>
+        ))}
+        <span>{field.label}</span>
+        {error && <p>{error}</p>}
+    </div>
+);
+
+describe('field registry', () => {
+    it('renders registered field types, which are validated and submitted like built-in ones', async () => {
+        registerFieldType('emoji-scale', EmojiScale);
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={schema} onSubmit={onSubmit} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        expect(await screen.findAllByText('Mood is required')).not.toHaveLength(0);
+
+        fireEvent.click(screen.getByRole('button', { name: '🙂' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ mood: '🙂' }));
+    });
+
+    it('prefers the fieldComponents prop to registered components', () => {
+        registerFieldType('emoji-scale', EmojiScale);
+        render(<FormRenderer schema={schema} fieldComponents={{ 'emoji-scale': () => <p>From the prop</p> }} onSubmit={() => {}} />);
+
+        expect(screen.getByText('From the prop')).toBeTruthy();
+    });
+
+    it('replaces built-in types until they are unregistered', () => {
+        const textSchema: FormSchema = { formName: 'Name', formFields: [{ id: 'name', type: 'text', label: 'Name', required: false }] };
+        registerFieldType('text', () => <p>Custom text</p>);
+        render(<FormRenderer schema={textSchema} onSubmit={() => {}} />);
+        expect(screen.getByText('Custom text')).toBeTruthy();
+        cleanup();
+
+        unregisterFieldType('text');
+        render(<FormRenderer schema={textSchema} onSubmit={() => {}} />);
+        expect(screen.getByLabelText(/Name/)).toBeTruthy();
+    });
+});
@@ -0,0 +1,99 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { checkItemField, createRepeaterItem, FormField, FormRenderer, migrateSchema, moveItemErrors, useFormEngine, validateForm } from '../src';
+
+afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+});
+
+const kids: FormField = {
+    id: 'kids',
+    type: 'repeater',
+    label: 'Children',
+    required: true,
+    placeholder: 'Add a child',
+    validation: { maxItems: 2 },
+    fields: [
+        { id: 'kid', type: 'text', label: 'Name', required: true },
+        { id: 'age', type: 'number', label: 'Age', required: false, validation: { max: 17 } },
+        { id: 'school', type: 'text', label: 'School', required: true, conditions: { visible: { fieldId: 'age', operator: 'greater-than', value: 5 } } },
+    ],
+};
+
+describe('repeaters', () => {
+    it('start new items with the defaults of their fields', () => {
+        expect(createRepeaterItem(kids)).toEqual({ kid: '', age: '', school: '' });
+    });
+
+    it('validate every item, with conditions on the fields of the same item', () => {
+        expect(validateForm([kids], { kids: [] })).toEqual({ kids: 'Children is required' });
+        expect(validateForm([kids], { kids: [{ kid: 'Al', age: 3 }, { kid: '', age: 30 }] })).toEqual({
+            'kids.1.kid': 'Name is required',
+            'kids.1.age': 'Age must be no more than 17',
+            'kids.1.school': 'School is required',
+        });
+        expect(validateForm([kids], { kids: [{ kid: 'Al' }, { kid: 'Bo' }, { kid: 'Cy' }] })).toEqual({ kids: 'Children allows at most 2 items' });
+    });
+
+    it('keep errors with their item when items are removed or reordered', () => {
+        const first = { kid: '' };
+        const second = { kid: 'Bo', age: 30 };
+        const errors = { other: 'Other error', 'kids.0.kid': 'Name is required', 'kids.1.age': 'Age must be no more than 17' };
+
+        expect(moveItemErrors(errors, 'kids', [first, second], [second, first])).toEqual({
+            other: 'Other error',
+            'kids.1.kid': 'Name is required',
+            'kids.0.age': 'Age must be no more than 17',
+        });
+        expect(moveItemErrors(errors, 'kids', [first, second], [second])).toEqual({ other: 'Other error', 'kids.0.age': 'Age must be no more than 17' });
+    });
+
+    it('add and remove items, and submit them as a list of objects', async () => {
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={{ formName: 'Family', formFields: [kids] }} onSubmit={onSubmit} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Add a child' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Add a child' }));
+        expect(screen.queryByRole('button', { name: 'Add a child' })).toBeNull();
+        fireEvent.click(screen.getByRole('button', { name: 'Remove item 1' }));
+
+        fireEvent.change(screen.getByLabelText(/Name/), { target: { value: 'Bo' } });
+        fireEvent.change(screen.getByLabelText(/Age/), { target: { value: '4' } });
+        fireEvent.submit(screen.getByLabelText(/Name/).closest('form')!);
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ kids: [{ kid: 'Bo', age: 4 }] }));
+    });
+});
+
+const withItemField = (field: FormField) => ({
+    formName: 'Family',
+    formFields: [{ id: 'kids', type: 'repeater', label: 'Children', required: false, fields: [field] }],
+});
+
+describe('repeater item fields', () => {
+    it('accepts fields the engine fills in for every item', () => {
+        const field: FormField = { id: 'kid', type: 'select', label: 'Name', required: true, options: ['Al', 'Bo'] };
+
+        expect(checkItemField(field)).toBeNull();
+        expect(() => migrateSchema(withItemField(field))).not.toThrow();
+    });
+
+    it('rejects file uploads and options loaded at runtime', () => {
+        const file: FormField = { id: 'photo', type: 'file', label: 'Photo', required: false };
+        const loaded: FormField = { id: 'school', type: 'select', label: 'School', required: false, optionsSource: { loader: 'schools' } };
+
+        expect(() => migrateSchema(withItemField(file)))
+            .toThrow('Invalid form schema: field "photo" of repeater "kids": File uploads can\'t be repeated');
+        expect(() => migrateSchema(withItemField(loaded)))
+            .toThrow('Invalid form schema: field "school" of repeater "kids": Options of repeated fields can\'t be loaded at runtime');
+    });
+
+    it('rejects async validators for item fields', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const schema = withItemField({ id: 'kid', type: 'text', label: 'Name', required: true });
+
+        expect(() => renderHook(() => useFormEngine({ schema, asyncValidators: { kid: async () => null } })))
+            .toThrow('Async validators can\'t check field "kid" of repeater "kids"');
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { FormField, FormRule, validateForm } from '../src/core';
+
+const fields: FormField[] = [
+    { id: 'password', type: 'text', label: 'Password', required: false },
+    { id: 'confirm', type: 'text', label: 'Confirm password', required: false },
+    { id: 'start', type: 'date', label: 'Start', required: false },
+    { id: 'end', type: 'date', label: 'End', required: false },
+    { id: 'min', type: 'number', label: 'Minimum', required: false },
+    { id: 'max', type: 'number', label: 'Maximum', required: false },
+    { id: 'email', type: 'email', label: 'Email', required: false },
+    { id: 'phone', type: 'phone', label: 'Phone', required: false, conditions: { visible: { fieldId: 'email', operator: 'is-empty' } } },
+];
+
+const rules: FormRule[] = [
+    { type: 'compare', fieldId: 'confirm', operator: 'equals', otherFieldId: 'password' },
+    { type: 'compare', fieldId: 'end', operator: 'greater-than', otherFieldId: 'start' },
+    { type: 'compare', fieldId: 'max', operator: 'greater-than-or-equal', otherFieldId: 'min', message: '{label} must be {other} or more, not {actual}' },
+];
+
+describe('cross-field rules', () => {
+    it('compare fields once both are filled in', () => {
+        expect(validateForm(fields, { password: 'secret', confirm: 'secrat', start: '2024-03-01', end: '2024-02-01', min: 10, max: 9 }, rules)).toEqual({
+            confirm: 'Confirm password must match Password',
+            end: 'End must be after Start',
+            max: 'Maximum must be Minimum or more, not 9',
+        });
+        expect(validateForm(fields, { password: 'secret', start: '2024-03-01', min: 10, max: 10 }, rules)).toEqual({});
+    });
+
+    it('compare numbers numerically', () => {
+        expect(validateForm(fields, { min: '9', max: '10' }, rules)).toEqual({});
+    });
+
+    it('require one of several fields', () => {
+        const oneOf: FormRule[] = [{ type: 'at-least-one', fieldIds: ['email', 'phone'] }];
+
+        expect(validateForm(fields, {}, oneOf)).toEqual({
+            email: 'Fill in at least one of: Email, Phone',
+            phone: 'Fill in at least one of: Email, Phone',
+        });
+        expect(validateForm(fields, { phone: '555 0100' }, oneOf)).toEqual({});
+    });
+
+    it('leave errors of the fields themselves first', () => {
+        const withMinLength = fields.map(field => field.id === 'confirm' ? { ...field, validation: { minLength: 8 } } : field);
+
+        expect(validateForm(withMinLength, { password: 'secret', confirm: 'secrat' }, rules)).toEqual({
+            confirm: 'Confirm password must be at least 8 characters',
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, renderHook } from '@testing-library/react';
+import { migrateSchema, SCHEMA_VERSION, useFormEngine } from '../src';
+
+afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+});
+
+describe('migrateSchema', () => {
+    it('upgrades unversioned schemas to the current version', () => {
+        const schema = migrateSchema({
+            formName: 'Old',
+            formFields: [
+                { id: 'name', type: 'text', label: 'Name', validation: { required: true } },
+                { id: 'nick', type: 'text', label: 'Nickname' },
+            ],
+        });
+
+        expect(schema.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(schema.formFields.map(field => field.required)).toEqual([true, false]);
+    });
+
+    it('keeps current schemas as they are', () => {
+        const schema = { schemaVersion: SCHEMA_VERSION, formName: 'New', formFields: [{ id: 'name', type: 'text', label: 'Name', required: true }] };
+
+        expect(migrateSchema(schema)).toBe(schema);
+    });
+
+    it('reports unknown keys, including those of nested fields, without dropping them', () => {
+        const onWarning = vi.fn();
+        const schema = migrateSchema({
+            formName: 'Odd',
+            colour: 'red',
+            formFields: [{ id: 'group', type: 'fieldset', label: 'Group', required: false, fields: [{ id: 'name', type: 'text', label: 'Name', required: false, hint: 'Full name' }] }],
+        }, { onWarning });
+
+        expect(onWarning.mock.calls).toEqual([['Unknown schema key "colour"'], ['Unknown key "hint" on field "name"']]);
+        expect(schema).toHaveProperty('colour', 'red');
+    });
+
+    it('rejects inputs that are not schemas and schemas of newer versions', () => {
+        expect(() => migrateSchema({ formName: 'No fields' })).toThrow('Invalid form schema: expected an object with a formFields array');
+        expect(() => migrateSchema({ formName: 'Bad field', formFields: ['name'] })).toThrow('Invalid form schema: field at index 0 is not an object');
+        expect(() => migrateSchema({ schemaVersion: SCHEMA_VERSION + 1, formName: 'Future', formFields: [] }))
+            .toThrow(`Form schema version ${SCHEMA_VERSION + 1} is newer than the supported version ${SCHEMA_VERSION}`);
+    });
+});
+
+describe('useFormEngine schema migration', () => {
+    it('logs each warning once for a schema written inline', () => {
+        const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { rerender } = renderHook(() => useFormEngine({
+            schema: {
+                formName: 'Feedback',
+                formFields: [{ id: 'comment', type: 'textarea', label: 'Comment', required: false, placeholdr: 'Tell us' } as any],
+            },
+        }));
+        rerender();
+        rerender();
+
+        expect(consoleWarn).toHaveBeenCalledTimes(1);
+        expect(consoleWarn).toHaveBeenCalledWith('Unknown key "placeholdr" on field "comment"');
+    });
+
+    it('logs the warnings of every form', () => {
+        const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const schema = {
+            formName: 'Feedback',
+            formFields: [{ id: 'comment', type: 'textarea', label: 'Comment', required: false, placeholdr: 'Tell us' } as any],
+        };
+        renderHook(() => useFormEngine({ schema }));
+        renderHook(() => useFormEngine({ schema: { ...schema } }));
+
+        expect(consoleWarn).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,46 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { FormField, FormRenderer, validateField } from '../src';
+
+afterEach(cleanup);
+
+const toppings: FormField = {
+    id: 'toppings',
+    type: 'checkbox-group',
+    label: 'Toppings',
+    required: false,
+    options: ['Cheese', 'Ham', 'Olives'],
+    allowOther: true,
+    validation: { minSelections: 2, maxSelections: 3 },
+};
+
+describe('checkbox groups and multi-selects', () => {
+    it('check the number of selections', () => {
+        expect(validateField(toppings, ['Cheese'])).toBe('Toppings needs at least 2 selections');
+        expect(validateField(toppings, ['Cheese', 'Ham', 'Olives', 'Pineapple'])).toBe('Toppings allows at most 3 selections');
+        expect(validateField(toppings, ['Cheese', 'Ham'])).toBeNull();
+    });
+
+    it('accept one "Other" answer once it is typed', () => {
+        expect(validateField(toppings, ['Cheese', 'Pineapple'])).toBeNull();
+        expect(validateField(toppings, ['Cheese', ''])).toBe('Toppings is missing the "Other" answer');
+        expect(validateField(toppings, ['Pineapple', 'Anchovies'])).toBe('Toppings has a choice that is not one of its options');
+        expect(validateField({ ...toppings, type: 'multi-select', allowOther: false }, ['Cheese', 'Pineapple']))
+            .toBe('Toppings has a choice that is not one of its options');
+    });
+
+    it('submit the checked options and the "Other" answer as a list', async () => {
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={{ formName: 'Pizza', formFields: [toppings] }} onSubmit={onSubmit} />);
+
+        fireEvent.click(screen.getByLabelText('Cheese'));
+        fireEvent.click(screen.getByLabelText('Olives'));
+        fireEvent.click(screen.getByLabelText('Olives'));
+        fireEvent.click(screen.getByLabelText('Other (please specify)'));
+        fireEvent.change(screen.getByLabelText('Toppings: Other (please specify)'), { target: { value: 'Pineapple' } });
+        fireEvent.submit(screen.getByLabelText('Cheese').closest('form')!);
+
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ toppings: ['Cheese', 'Pineapple'] }));
+    });
+});
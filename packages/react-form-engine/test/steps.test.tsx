@@ -0,0 +1,66 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { FormRenderer, FormSchema, splitIntoSteps } from '../src';
+
+afterEach(cleanup);
+
+const schema: FormSchema = {
+    formName: 'Sign up',
+    formFields: [
+        { id: 'username', type: 'text', label: 'Username', required: true },
+        { id: 'break', type: 'page-break', label: 'Plan', required: false },
+        { id: 'plan', type: 'text', label: 'Plan name', required: false },
+        { id: 'send', type: 'submit-button', label: 'Create account', required: false },
+    ],
+};
+
+describe('splitIntoSteps', () => {
+    it('starts a step at every page break and drops empty steps', () => {
+        const steps = splitIntoSteps([
+            { id: 'a', type: 'text', label: 'A', required: false },
+            { id: 'first', type: 'page-break', label: 'First', required: false },
+            { id: 'second', type: 'page-break', label: 'Second', required: false },
+            { id: 'b', type: 'text', label: 'B', required: false },
+        ]);
+
+        expect(steps.map(step => [step.title, step.fields.map(field => field.id)])).toEqual([
+            [undefined, ['a']],
+            ['Second', ['b']],
+        ]);
+    });
+});
+
+describe('FormRenderer steps', () => {
+    it('only moves on once the fields of the step are valid', async () => {
+        const onStepChange = vi.fn();
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={schema} onStepChange={onStepChange} onSubmit={onSubmit} />);
+        expect(screen.getByText('Step 1 of 2')).toBeTruthy();
+        expect(screen.queryByLabelText(/Plan name/)).toBeNull();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+        expect(await screen.findAllByText('Username is required')).not.toHaveLength(0);
+        expect(onStepChange).not.toHaveBeenCalled();
+
+        fireEvent.change(screen.getByLabelText(/Username/), { target: { value: 'ada' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+        expect(await screen.findByText('Step 2 of 2')).toBeTruthy();
+        expect(onStepChange).toHaveBeenCalledWith(1, expect.objectContaining({ title: 'Plan' }));
+
+        fireEvent.click(screen.getByRole('button', { name: 'Back' }));
+        expect((screen.getByLabelText(/Username/) as HTMLInputElement).value).toBe('ada');
+        expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('submits the values of every step from the last one', async () => {
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={schema} initialValues={{ username: 'ada' }} onSubmit={onSubmit} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+        fireEvent.change(await screen.findByLabelText(/Plan name/), { target: { value: 'pro' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Create account' }));
+
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ username: 'ada', plan: 'pro' }));
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { FormSchema, validateSubmission } from '../src/core';
+
+const schema: FormSchema = {
+    formName: 'Order',
+    formFields: [
+        { id: 'color', type: 'select', label: 'Colour', required: false, options: ['red', 'blue'] },
+        { id: 'size', type: 'radio', label: 'Size', required: false, options: [{ label: 'Small', value: 's' }, { label: 'Large', value: 'l' }] },
+        { id: 'pets', type: 'checkbox-group', label: 'Pets', required: false, options: ['cat', 'hamster'] },
+        { id: 'extras', type: 'multi-select', label: 'Extras', required: false, options: ['wifi'], allowOther: true },
+        { id: 'city', type: 'select', label: 'City', required: false, optionsSource: { loader: 'cities' } },
+        { id: 'stars', type: 'rating', label: 'Stars', required: false },
+        { id: 'age', type: 'number', label: 'Age', required: false },
+        { id: 'name', type: 'text', label: 'Name', required: false, validation: { maxLength: 3 } },
+        { id: 'email', type: 'email', label: 'Email', required: false },
+        { id: 'home', type: 'address', label: 'Home', required: false },
+        {
+            id: 'kids',
+            type: 'repeater',
+            label: 'Children',
+            required: true,
+            fields: [{ id: 'kid', type: 'text', label: 'Name', required: true }],
+        },
+    ],
+};
+
+// Payloads with the required repeater filled in, so that only the tampered value fails
+const errorsOf = (payload: Record<string, unknown>) => validateSubmission(schema, { kids: [{ kid: 'Bo' }], ...payload }).errors;
+
+describe('validateSubmission with tampered payloads', () => {
+    it('accepts the values the form can produce', () => {
+        const result = validateSubmission(schema, {
+            color: 'red',
+            size: 'l',
+            pets: ['cat', 'hamster'],
+            extras: ['wifi', 'a desk'],
+            city: 'Lyon',
+            stars: 4,
+            age: '42',
+            kids: [{ kid: 'Bo' }],
+        });
+        expect(result.errors).toEqual({});
+        expect(result.data).toMatchObject({ stars: 4, age: 42 });
+    });
+
+    it('rejects a choice that is not one of the options', () => {
+        expect(errorsOf({ color: 'green' })).toEqual({ color: 'Colour has a choice that is not one of its options' });
+        expect(errorsOf({ size: 'Large' })).toHaveProperty('size');
+        expect(errorsOf({ color: ['red'] })).toHaveProperty('color');
+    });
+
+    it('rejects unknown and non-text items of multi-choice fields', () => {
+        expect(errorsOf({ pets: ['hamster', { evil: 1 }] })).toHaveProperty('pets');
+        expect(errorsOf({ pets: ['hamster', 'dragon'] })).toHaveProperty('pets');
+        // One unknown entry is the "Other" answer, a second one is not
+        expect(errorsOf({ extras: ['a desk', 'a chair'] })).toHaveProperty('extras');
+    });
+
+    it('accepts any text for options loaded at runtime', () => {
+        expect(errorsOf({ city: 'Anywhere' })).toEqual({});
+        expect(errorsOf({ city: { evil: 1 } })).toHaveProperty('city');
+    });
+
+    it('keeps ratings to a whole number of stars within range', () => {
+        expect(errorsOf({ stars: 99 })).toEqual({ stars: 'Stars must be no more than 5' });
+        expect(errorsOf({ stars: 0 })).toHaveProperty('stars');
+        expect(errorsOf({ stars: 2.5 })).toHaveProperty('stars');
+        expect(errorsOf({ stars: 'lots' })).toHaveProperty('stars');
+    });
+
+    it('requires the whole text of a number to be numeric', () => {
+        expect(errorsOf({ age: '12abc' })).toEqual({ age: 'Age must be a number' });
+        expect(errorsOf({ age: 'Infinity' })).toHaveProperty('age');
+    });
+
+    it('rejects values of the wrong kind for their field', () => {
+        const result = validateSubmission(schema, { name: ['AAAAAAAAAAAAAAAAAA'], email: ['a@b.co'], kids: [{ kid: 'Bo' }] });
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual({ name: 'Name has a value of the wrong kind', email: 'Email has a value of the wrong kind' });
+        expect(errorsOf({ pets: 'cat' })).toHaveProperty('pets');
+        expect(errorsOf({ home: 'Main Street' })).toHaveProperty('home');
+        expect(errorsOf({ age: { value: 1 } })).toHaveProperty('age');
+    });
+
+    it('rejects a repeater posted as anything but a list of items', () => {
+        expect(errorsOf({ kids: 'lots' })).toEqual({ kids: 'Children has a value of the wrong kind' });
+        expect(errorsOf({ kids: ['Bo'] })).toHaveProperty('kids');
+    });
+});
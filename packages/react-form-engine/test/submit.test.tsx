@@ -0,0 +1,105 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { FormRenderer, FormSchema, useFormEngine } from '../src';
+
+const schema: FormSchema = {
+    formName: 'Sign up',
+    formFields: [{ id: 'username', type: 'text', label: 'Username', required: true }],
+};
+
+afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+});
+
+describe('useFormEngine submit', () => {
+    it('shows a form error when onSubmit rejects', async () => {
+        const failure = new Error('Network down');
+        const onSubmit = vi.fn().mockRejectedValue(failure);
+        const onSubmitError = vi.fn();
+        const { result } = renderHook(() => useFormEngine({ schema, onSubmit, onSubmitError, initialValues: { username: 'ada' } }));
+
+        await act(() => result.current.submit());
+
+        expect(onSubmit).toHaveBeenCalledTimes(1);
+        expect(result.current.formError).toBe('The form could not be sent. Please try again.');
+        expect(result.current.failedAttempts).toBe(1);
+        expect(result.current.isSubmitting).toBe(false);
+        expect(onSubmitError).toHaveBeenCalledWith(failure);
+    });
+
+    it('checks a value again when it changed during the async checks', async () => {
+        const checks: { value: string; resolve: (error: string | null) => void }[] = [];
+        const isTaken = vi.fn((value: string) => new Promise<string | null>(resolve => checks.push({ value, resolve })));
+        const onSubmit = vi.fn();
+        const { result } = renderHook(() => useFormEngine({
+            schema,
+            onSubmit,
+            initialValues: { username: 'ada' },
+            asyncValidators: { username: isTaken },
+        }));
+
+        let submitted!: Promise<void>;
+        act(() => {
+            submitted = result.current.submit();
+        });
+        await vi.waitFor(() => expect(checks).toHaveLength(1));
+
+        act(() => result.current.setValue('username', 'bob'));
+        await act(async () => checks[0].resolve(null));
+        await vi.waitFor(() => expect(checks).toHaveLength(2));
+        expect(onSubmit).not.toHaveBeenCalled();
+
+        await act(async () => {
+            checks[1].resolve(null);
+            await submitted;
+        });
+        expect(checks[1].value).toBe('bob');
+        expect(onSubmit).toHaveBeenCalledWith({ username: 'bob' });
+    });
+
+    it('passes what an async validator threw to onAsyncValidationError', async () => {
+        const failure = new Error('Timeout');
+        const onAsyncValidationError = vi.fn();
+        const onSubmit = vi.fn();
+        const { result } = renderHook(() => useFormEngine({
+            schema,
+            onSubmit,
+            initialValues: { username: 'ada' },
+            asyncValidators: { username: () => Promise.reject(failure) },
+            onAsyncValidationError,
+        }));
+
+        await act(() => result.current.submit());
+        expect(onAsyncValidationError).toHaveBeenCalledWith(failure, 'username');
+        expect(onSubmit).toHaveBeenCalledWith({ username: 'ada' });
+    });
+});
+
+describe('useFormEngine nextStep', () => {
+    const wizardSchema: FormSchema = {
+        formName: 'Sign up',
+        formFields: [
+            { id: 'username', type: 'text', label: 'Username', required: true },
+            { id: 'break', type: 'page-break', label: 'Plan', required: false },
+            { id: 'plan', type: 'text', label: 'Plan', required: false },
+        ],
+    };
+
+    it('ignores a second press of Next while the checks of the first are running', async () => {
+        const checks: ((error: string | null) => void)[] = [];
+        const isTaken = vi.fn(() => new Promise<string | null>(resolve => checks.push(resolve)));
+        render(<FormRenderer schema={wizardSchema} initialValues={{ username: 'ada' }} asyncValidators={{ username: isTaken }} onSubmit={() => {}} />);
+
+        const next = screen.getByRole('button', { name: 'Next' });
+        fireEvent.click(next);
+        fireEvent.click(next);
+        await vi.waitFor(() => expect(checks).toHaveLength(1));
+        expect((next as HTMLButtonElement).disabled).toBe(true);
+
+        await act(async () => checks[0](null));
+        await vi.waitFor(() => expect(screen.getByText('Step 2 of 2')).toBeTruthy());
+        expect(isTaken).toHaveBeenCalledTimes(1);
+    });
+});
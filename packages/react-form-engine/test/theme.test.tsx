@@ -0,0 +1,59 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { createTheme, defaultTheme, FormRenderer, FormSchema, getFieldComponent, headlessTheme, useFormEngine } from '../src';
+
+afterEach(cleanup);
+
+const schema: FormSchema = {
+    formName: 'Profile',
+    formFields: [{ id: 'name', type: 'text', label: 'Name', required: true, styling: { textColor: '#ff0000' } }],
+};
+
+describe('themes', () => {
+    it('merge overrides into the base theme slot by slot', () => {
+        const theme = createTheme({ classNames: { input: 'my-input' } });
+
+        expect(theme.classNames.input).toBe('my-input');
+        expect(theme.classNames.label).toBe(defaultTheme.classNames.label);
+        expect(theme.inlineStyles).toBe(true);
+    });
+
+    it('give the rendered elements the classes of their slots and the styling of the schema', () => {
+        render(<FormRenderer schema={schema} theme={{ classNames: { input: 'my-input' } }} onSubmit={() => {}} />);
+        const input = screen.getByLabelText(/Name/) as HTMLInputElement;
+
+        expect(input.className).toBe('my-input');
+        expect(input.style.color).toBe('rgb(255, 0, 0)');
+    });
+
+    it('leave out every class and inline style with the headless theme', () => {
+        const { container } = render(<FormRenderer schema={schema} theme={headlessTheme} onSubmit={() => {}} />);
+
+        expect(container.querySelector('[class]')).toBeNull();
+        expect(container.querySelector('[style*="color"]')).toBeNull();
+    });
+});
+
+describe('useFormEngine', () => {
+    it('drives a form rendered with custom markup', async () => {
+        const onSubmit = vi.fn();
+        const HeadlessForm = () => {
+            const engine = useFormEngine({ schema, onSubmit });
+            return (
+                <form onSubmit={engine.handleSubmit}>
+                    {engine.fields.map(field => {
+                        const Field = getFieldComponent(field.type)!;
+                        return <Field key={field.id} {...engine.getFieldProps(field)} />;
+                    })}
+                    <button type="submit">Save</button>
+                </form>
+            );
+        };
+        render(<HeadlessForm />);
+
+        fireEvent.change(screen.getByLabelText(/Name/), { target: { value: 'Ada' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ name: 'Ada' }));
+    });
+});
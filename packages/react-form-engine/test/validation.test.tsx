@@ -0,0 +1,60 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { FormField, FormRenderer, FormSchema, validateField } from '../src';
+
+afterEach(cleanup);
+
+const text = (validation: FormField['validation'], required = false): FormField =>
+    ({ id: 'name', type: 'text', label: 'Name', required, validation });
+
+describe('validateField', () => {
+    it('requires a value in required fields only', () => {
+        expect(validateField(text({}, true), '  ')).toBe('Name is required');
+        expect(validateField(text({}), '')).toBeNull();
+    });
+
+    it('checks lengths, numeric ranges and patterns', () => {
+        expect(validateField(text({ minLength: 3 }), 'Al')).toBe('Name must be at least 3 characters');
+        expect(validateField(text({ maxLength: 1 }), 'Al')).toBe('Name must be no more than 1 character');
+        expect(validateField(text({ pattern: '^[A-Z]' }), 'al')).toBe('Name format is invalid');
+
+        const age: FormField = { id: 'age', type: 'number', label: 'Age', required: false, validation: { min: 18, max: 99 } };
+        expect(validateField(age, '12')).toBe('Age must be at least 18');
+        expect(validateField(age, 'twelve')).toBe('Age must be a number');
+        expect(validateField(age, '30')).toBeNull();
+    });
+
+    it('checks the format of emails, URLs and phone numbers', () => {
+        expect(validateField({ id: 'email', type: 'email', label: 'Email', required: false }, 'ada@')).toBe('Email must be a valid email address');
+        expect(validateField({ id: 'site', type: 'url', label: 'Site', required: false }, 'example.com')).toBe('Site must be a valid URL');
+        expect(validateField({ id: 'phone', type: 'phone', label: 'Phone', required: false }, '12')).toBe('Phone must be a valid phone number');
+    });
+
+    it('uses the custom message for every failed rule', () => {
+        expect(validateField(text({ minLength: 3, customMessage: 'Too short' }), 'Al')).toBe('Too short');
+    });
+});
+
+describe('FormRenderer validation', () => {
+    const schema: FormSchema = {
+        formName: 'Contact',
+        formFields: [
+            { id: 'email', type: 'email', label: 'Email', required: true },
+            { id: 'send', type: 'submit-button', label: 'Send', required: false },
+        ],
+    };
+
+    it('shows errors next to the fields and only submits valid values', async () => {
+        const onSubmit = vi.fn();
+        render(<FormRenderer schema={schema} onSubmit={onSubmit} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        expect(await screen.findAllByText('Email is required')).not.toHaveLength(0);
+        expect(onSubmit).not.toHaveBeenCalled();
+
+        fireEvent.change(screen.getByLabelText(/Email/), { target: { value: 'ada@example.com' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+        await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ email: 'ada@example.com' }));
+    });
+});
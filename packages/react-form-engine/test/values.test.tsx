@@ -0,0 +1,52 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { FormRenderer, FormRendererHandle, FormSchema, FormValues } from '../src';
+
+const schema: FormSchema = {
+    formName: 'Profile',
+    formFields: [{ id: 'name', type: 'text', label: 'Name', required: false }],
+};
+
+afterEach(cleanup);
+
+const nameInput = () => screen.getByLabelText(/Name/) as HTMLInputElement;
+
+describe('FormRenderer values', () => {
+    it('starts from initialValues and keeps typed values when uncontrolled', () => {
+        const onChange = vi.fn();
+        render(<FormRenderer schema={schema} initialValues={{ name: 'Ada' }} onChange={onChange} onSubmit={() => {}} />);
+        expect(nameInput().value).toBe('Ada');
+
+        fireEvent.change(nameInput(), { target: { value: 'Bo' } });
+        expect(nameInput().value).toBe('Bo');
+        expect(onChange).toHaveBeenCalledWith({ name: 'Bo' }, 'name');
+    });
+
+    it('shows the values prop when controlled', () => {
+        const Controlled = () => {
+            const [values, setValues] = React.useState<FormValues>({ name: 'Ada' });
+            // Names are kept in capitals
+            return <FormRenderer schema={schema} values={values} onChange={next => setValues({ name: String(next.name).toUpperCase() })} onSubmit={() => {}} />;
+        };
+        render(<Controlled />);
+
+        fireEvent.change(nameInput(), { target: { value: 'Bo' } });
+        expect(nameInput().value).toBe('BO');
+    });
+
+    it('sets, reads, resets and submits the values through its ref', async () => {
+        const ref = React.createRef<FormRendererHandle>();
+        const onSubmit = vi.fn();
+        render(<FormRenderer ref={ref} schema={schema} initialValues={{ name: 'Ada' }} onSubmit={onSubmit} />);
+
+        act(() => ref.current!.setValue('name', 'Bo'));
+        expect(ref.current!.getValues()).toEqual({ name: 'Bo' });
+
+        await act(() => ref.current!.submit());
+        expect(onSubmit).toHaveBeenCalledWith({ name: 'Bo' });
+
+        act(() => ref.current!.reset());
+        expect(nameInput().value).toBe('Ada');
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { toZod } from '../src/zod';
+
+const schema = {
+    formName: 'Profile',
+    formFields: [
+        { id: 'name', type: 'text', label: 'Name', required: true },
+        { id: 'born', type: 'date', label: 'Born', required: false },
+        { id: 'stars', type: 'rating', label: 'Stars', required: false },
+        { id: 'size', type: 'select', label: 'Size', required: false, options: ['S', 'M', 'L'] },
+        { id: 'more', type: 'checkbox', label: 'Tell more', required: false },
+        { id: 'hid', type: 'text', label: 'Details', required: false, conditions: { visible: { fieldId: 'more', operator: 'equals', value: true } } },
+        {
+            id: 'kids',
+            type: 'repeater',
+            label: 'Children',
+            required: false,
+            fields: [
+                { id: 'kid', type: 'text', label: 'Name', required: true },
+                { id: 'nick', type: 'text', label: 'Nickname', required: false, conditions: { visible: { fieldId: 'more', operator: 'equals', value: true } } },
+            ],
+        },
+    ],
+} as const;
+
+const formZod = toZod(schema);
+
+// The rules of the form are checked once every field has its submitted type
+const issuesOf = (payload: Record<string, unknown>) => {
+    const result = formZod.safeParse({ more: false, kids: [], ...payload });
+    return result.success ? {} : result.error.flatten().fieldErrors;
+};
+
+describe('toZod', () => {
+    it('parses the values the form submits', () => {
+        const data = formZod.parse({ name: 'Ada', born: '2024-02-29', stars: 5, more: true, hid: 'Hi', kids: [{ kid: 'Bo', nick: 'B' }] });
+        expect(data).toEqual({ name: 'Ada', born: '2024-02-29', stars: 5, more: true, hid: 'Hi', kids: [{ kid: 'Bo', nick: 'B' }] });
+        expectTypeOf(data.name).toEqualTypeOf<string>();
+    });
+
+    it('requires dates written as YYYY-MM-DD', () => {
+        expect(issuesOf({ name: 'Ada', born: '2023-02-29' })).toHaveProperty('born');
+        expect(issuesOf({ name: 'Ada', born: 'March 3rd' })).toHaveProperty('born');
+        expect(issuesOf({ name: 'Ada', born: '2024-03-03T10:00:00Z' })).toHaveProperty('born');
+    });
+
+    it('keeps ratings to whole stars within range', () => {
+        expect(issuesOf({ name: 'Ada', stars: 42 })).toHaveProperty('stars');
+        expect(issuesOf({ name: 'Ada', stars: 0 })).toHaveProperty('stars');
+        expect(issuesOf({ name: 'Ada', stars: 2.5 })).toHaveProperty('stars');
+    });
+
+    it('leaves the values of hidden fields out of the output', () => {
+        const data = formZod.parse({ name: 'Ada', more: false, hid: 'sneaky', kids: [{ kid: 'Bo', nick: 'sneaky' }] });
+        expect(data).toEqual({ name: 'Ada', more: false, kids: [{ kid: 'Bo' }] });
+    });
+
+    it('reports each problem once, in the language of the options', () => {
+        const french = toZod(schema, { locale: 'fr' }).safeParse({ name: 'Ada', born: '2024-03-03T10:00:00Z', size: 'XL', more: false, kids: [] });
+
+        expect(french.success ? {} : french.error.flatten().fieldErrors).toEqual({
+            born: ['Born : la date n’est pas valide'],
+            size: ['Size : ce choix ne fait pas partie des options'],
+        });
+    });
+});